@@ -4,9 +4,22 @@ import { motion } from 'framer-motion';
 import { Terminal, Zap, Trophy } from 'lucide-react';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import AuthCallback from './pages/AuthCallback';
 import Dashboard from './pages/Dashboard';
 import Room from './pages/Room';
+import Profile from './pages/Profile';
+import EditProfile from './pages/EditProfile';
 import AdminDashboard from './pages/AdminDashboard';
+import RoomLevels from './pages/RoomLevels';
+import ProblemBank from './pages/ProblemBank';
+import ImportPack from './pages/ImportPack';
+import ProctorRoom from './pages/ProctorRoom';
+import JoinRoom from './pages/JoinRoom';
+import ManageUsers from './pages/ManageUsers';
+import ProtectedRoute from './components/ProtectedRoute';
+import RequireRole from './components/RequireRole';
 import { AuthProvider } from './contexts/AuthContext';
 
 function App() {
@@ -28,9 +41,26 @@ function App() {
             <Routes>
               <Route path="/" element={<Login />} />
               <Route path="/register" element={<Register />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/room/:id" element={<Room />} />
-              <Route path="/admin" element={<AdminDashboard />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/auth/callback" element={<AuthCallback />} />
+              <Route element={<ProtectedRoute />}>
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/room/:id" element={<Room />} />
+                <Route path="/join/:code" element={<JoinRoom />} />
+                <Route path="/u/:username" element={<Profile />} />
+                <Route path="/profile/edit" element={<EditProfile />} />
+                <Route element={<RequireRole role="organizer" />}>
+                  <Route path="/admin" element={<AdminDashboard />} />
+                  <Route path="/admin/rooms/:id/levels" element={<RoomLevels />} />
+                  <Route path="/admin/rooms/:id/import" element={<ImportPack />} />
+                  <Route path="/admin/rooms/:id/proctor" element={<ProctorRoom />} />
+                  <Route path="/admin/problems" element={<ProblemBank />} />
+                </Route>
+                <Route element={<RequireRole role="superadmin" />}>
+                  <Route path="/admin/users" element={<ManageUsers />} />
+                </Route>
+              </Route>
             </Routes>
           </div>
 
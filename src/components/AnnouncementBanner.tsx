@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { Check, Megaphone } from 'lucide-react';
+import type { ChatMessage } from '../lib/db';
+
+interface AnnouncementBannerProps {
+  announcements: ChatMessage[];
+  onRead: (message: ChatMessage) => Promise<void>;
+}
+
+// Organizer announcements stay pinned above the level until the player marks
+// each one as read; there is deliberately no way to just close them.
+export default function AnnouncementBanner({ announcements, onRead }: AnnouncementBannerProps) {
+  const [markingId, setMarkingId] = useState<string | null>(null);
+
+  if (announcements.length === 0) return null;
+
+  const markRead = async (message: ChatMessage) => {
+    setMarkingId(message.id);
+    try {
+      await onRead(message);
+    } finally {
+      setMarkingId(null);
+    }
+  };
+
+  return (
+    <div className="border-b border-yellow-500/30 bg-yellow-500/10 px-4 py-2">
+      <div className="max-w-7xl mx-auto space-y-2">
+        {announcements.map((message) => (
+          <div key={message.id} className="flex items-start">
+            <Megaphone className="w-5 h-5 mr-3 mt-0.5 text-yellow-400 shrink-0" />
+            <p className="flex-1 text-sm text-yellow-100 whitespace-pre-wrap break-words">
+              <span className="font-semibold">{message.username}:</span> {message.body}
+            </p>
+            <button
+              onClick={() => markRead(message)}
+              disabled={markingId === message.id}
+              className="ml-3 flex items-center px-3 py-1 rounded text-xs bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-200 transition-colors disabled:opacity-50"
+            >
+              <Check className="w-3 h-3 mr-1" />
+              Mark as read
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { X } from 'lucide-react';
+import { LANGUAGES, type Language } from '../lib/runner';
+import type { Attempt } from '../lib/db';
+
+interface AttemptDiffProps {
+  original: Attempt;
+  attempts: Attempt[];
+  currentCode: string;
+  currentLanguage: Language;
+  onClose: () => void;
+}
+
+const attemptLabel = (attempts: Attempt[], attempt: Attempt) =>
+  `#${attempts.length - attempts.indexOf(attempt)} · ${attempt.tests_passed}/${attempt.tests_total} · ${new Date(
+    attempt.submitted_at
+  ).toLocaleTimeString()}`;
+
+// Read-only side-by-side diff from an earlier attempt to the editor's current
+// code or to another attempt
+export default function AttemptDiff({ original, attempts, currentCode, currentLanguage, onClose }: AttemptDiffProps) {
+  const [modifiedId, setModifiedId] = useState<string>('current');
+  const modified = attempts.find((attempt) => attempt.id === modifiedId);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-2 border-b border-white/10 flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-2">
+          <span className="text-gray-400">Attempt {attemptLabel(attempts, original)}</span>
+          <span className="text-gray-500">→</span>
+          <select
+            value={modifiedId}
+            onChange={(e) => setModifiedId(e.target.value)}
+            className="px-2 py-1 rounded bg-white/5 border border-white/10 text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+          >
+            <option value="current" className="bg-gray-800">Current code</option>
+            {attempts
+              .filter((attempt) => attempt.id !== original.id)
+              .map((attempt) => (
+                <option key={attempt.id} value={attempt.id} className="bg-gray-800">
+                  Attempt {attemptLabel(attempts, attempt)}
+                </option>
+              ))}
+          </select>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex-1">
+        <DiffEditor
+          height="100%"
+          language={LANGUAGES[modified?.language ?? currentLanguage].monaco}
+          theme="vs-dark"
+          original={original.code}
+          modified={modified?.code ?? currentCode}
+          options={{
+            readOnly: true,
+            minimap: { enabled: false },
+            fontSize: 14,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
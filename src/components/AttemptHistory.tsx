@@ -0,0 +1,87 @@
+import { GitCompare, RotateCcw } from 'lucide-react';
+import { LANGUAGES, type TestStatus } from '../lib/runner';
+import type { Attempt } from '../lib/db';
+
+interface AttemptHistoryProps {
+  attempts: Attempt[];
+  comparingId: string | null;
+  // False while the editor is locked or for languages the level no longer accepts
+  canRestore: (attempt: Attempt) => boolean;
+  onRestore: (attempt: Attempt) => void;
+  onCompare: (attempt: Attempt) => void;
+}
+
+const dotColors: Record<TestStatus, string> = {
+  passed: 'bg-green-400',
+  failed: 'bg-red-400',
+  error: 'bg-red-400',
+  timeout: 'bg-yellow-400',
+};
+
+// The player's graded attempts at the current level, newest first. Each shows
+// one dot per sample test and a smaller one per hidden test.
+export default function AttemptHistory({ attempts, comparingId, canRestore, onRestore, onCompare }: AttemptHistoryProps) {
+  if (attempts.length === 0) {
+    return <p className="p-4 text-center text-sm text-gray-400">No attempts yet. Submit to start your history.</p>;
+  }
+
+  return (
+    <div className="p-2 space-y-2">
+      {attempts.map((attempt, index) => (
+        <div
+          key={attempt.id}
+          className={`p-3 rounded text-sm ${comparingId === attempt.id ? 'bg-purple-500/20' : 'bg-white/5'}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium">
+              #{attempts.length - index}{' '}
+              <span className={attempt.status === 'completed' ? 'text-green-400' : 'text-red-400'}>
+                {attempt.tests_passed}/{attempt.tests_total}
+              </span>
+            </span>
+            <span className="text-xs text-gray-400">{new Date(attempt.submitted_at).toLocaleTimeString()}</span>
+          </div>
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+            <span>{LANGUAGES[attempt.language].label}</span>
+            {attempt.points > 0 && <span className="text-purple-400">+{attempt.points}</span>}
+          </div>
+          {attempt.test_results && (
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+              {attempt.test_results.sample_results.map((result, testIndex) => (
+                <span
+                  key={`sample-${testIndex}`}
+                  title={`Sample ${testIndex + 1}: ${result.message}`}
+                  className={`w-2.5 h-2.5 rounded-full ${dotColors[result.status]}`}
+                />
+              ))}
+              {attempt.test_results.hidden_results.map((result, testIndex) => (
+                <span
+                  key={`hidden-${testIndex}`}
+                  title={`Hidden ${testIndex + 1}: ${result.status}`}
+                  className={`w-1.5 h-1.5 rounded-full ${dotColors[result.status]}`}
+                />
+              ))}
+            </div>
+          )}
+          <div className="flex items-center space-x-3 mt-2">
+            <button
+              onClick={() => onRestore(attempt)}
+              disabled={!canRestore(attempt)}
+              className="flex items-center text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Restore
+            </button>
+            <button
+              onClick={() => onCompare(attempt)}
+              className="flex items-center text-xs text-purple-400 hover:text-purple-300"
+            >
+              <GitCompare className="w-3 h-3 mr-1" />
+              Diff
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+interface AvatarProps {
+  name: string;
+  url: string | null;
+  className?: string;
+}
+
+// The player's uploaded avatar, or the first letter of their name
+export default function Avatar({ name, url, className = 'w-10 h-10 text-lg' }: AvatarProps) {
+  if (url) return <img src={url} alt={name} className={`${className} rounded-full object-cover`} />;
+
+  return (
+    <div
+      className={`${className} flex items-center justify-center rounded-full bg-gradient-to-br from-purple-500 to-blue-500 font-bold`}
+    >
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { setRoomPassword, updateJoinSettings } from '../lib/db';
+
+export interface JoinSettingsRoom {
+  id: string;
+  name: string;
+  max_participants: number | null;
+  requires_password: boolean;
+  requires_approval: boolean;
+}
+
+interface JoinSettingsModalProps {
+  room: JoinSettingsRoom;
+  onClose: () => void;
+}
+
+// Capacity and approval are plain columns; the password only goes through
+// set_room_password, so its hash never reaches the client.
+export default function JoinSettingsModal({ room, onClose }: JoinSettingsModalProps) {
+  const [maxParticipants, setMaxParticipants] = useState(room.max_participants?.toString() ?? '');
+  const [requiresApproval, setRequiresApproval] = useState(room.requires_approval);
+  const [password, setPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      await updateJoinSettings(room.id, {
+        max_participants: maxParticipants ? Number(maxParticipants) : null,
+        requires_approval: requiresApproval,
+      });
+
+      if (password || removePassword) {
+        await setRoomPassword(room.id, removePassword ? '' : password);
+      }
+
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-gray-800 rounded-lg p-6 w-full max-w-md"
+      >
+        <h2 className="text-xl font-bold mb-4">Joining {room.name}</h2>
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Max players</label>
+            <input
+              type="number"
+              min={1}
+              value={maxParticipants}
+              onChange={(e) => setMaxParticipants(e.target.value)}
+              placeholder="No limit"
+              className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {room.requires_password ? 'New password' : 'Password'}
+            </label>
+            <input
+              type="text"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={removePassword}
+              placeholder={room.requires_password ? 'Leave blank to keep the current password' : 'No password'}
+              className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500 disabled:opacity-50"
+            />
+            {room.requires_password && (
+              <label className="flex items-center mt-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={removePassword}
+                  onChange={(e) => setRemovePassword(e.target.checked)}
+                  className="mr-2"
+                />
+                Remove the password
+              </label>
+            )}
+          </div>
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={requiresApproval}
+              onChange={(e) => setRequiresApproval(e.target.checked)}
+              className="mr-2"
+            />
+            Approve each player before they can enter
+          </label>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded bg-white/5 hover:bg-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
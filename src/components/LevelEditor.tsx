@@ -0,0 +1,654 @@
+import React, { useMemo, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import ReactMarkdown from 'react-markdown';
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  EyeOff,
+  FlaskConical,
+  Lightbulb,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import {
+  createLevel,
+  replaceHiddenTests,
+  replaceHints,
+  saveSolution,
+  updateLevel,
+  type HintDraft,
+  type LevelFields,
+} from '../lib/db';
+import { publishLevel, runTests } from '../lib/grader';
+import {
+  LANGUAGES,
+  type Language,
+  type ParameterSpec,
+  type TestResult,
+  type ValueType,
+} from '../lib/runner';
+
+export interface EditableTest {
+  input: string;
+  expected: string;
+  description: string;
+  hidden: boolean;
+}
+
+export interface LevelDraft {
+  id?: string;
+  title: string;
+  description: string;
+  movie_reference: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  // Null for no limit
+  time_limit_seconds: number | null;
+  entry_point: string;
+  parameters: ParameterSpec[];
+  return_type: ValueType;
+  languages: Language[];
+  starter_code: Partial<Record<Language, string>>;
+  tests: EditableTest[];
+  hints: HintDraft[];
+  solution_language: Language;
+  solution_code: string;
+  published: boolean;
+}
+
+const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'json'];
+const DEFAULT_HINT_COST = 20;
+const inputClass =
+  'w-full px-3 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500';
+
+// Everything that affects whether the reference solution passes; validation
+// has to be re-run whenever any of it changes.
+const validationSnapshot = (draft: LevelDraft) =>
+  JSON.stringify([
+    draft.entry_point,
+    draft.parameters,
+    draft.return_type,
+    draft.tests.map(({ input, expected }) => [input, expected]),
+    draft.solution_language,
+    draft.solution_code,
+  ]);
+
+interface LevelEditorProps {
+  roomId: string;
+  initial: LevelDraft;
+  nextPosition: number;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+export default function LevelEditor({ roomId, initial, nextPosition, onSaved, onCancel }: LevelEditorProps) {
+  const [draft, setDraft] = useState<LevelDraft>(initial);
+  const [starterTab, setStarterTab] = useState<Language>(initial.languages[0] ?? 'javascript');
+  const [showPreview, setShowPreview] = useState(false);
+  const [validation, setValidation] = useState<{ snapshot: string; results: TestResult[] } | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<LevelDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const isValidated = useMemo(
+    () =>
+      validation !== null &&
+      validation.snapshot === validationSnapshot(draft) &&
+      validation.results.length > 0 &&
+      validation.results.every((result) => result.status === 'passed'),
+    [validation, draft]
+  );
+
+  const updateTest = (index: number, changes: Partial<EditableTest>) =>
+    update({ tests: draft.tests.map((test, i) => (i === index ? { ...test, ...changes } : test)) });
+
+  const moveTest = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.tests.length) return;
+    const tests = [...draft.tests];
+    [tests[index], tests[target]] = [tests[target], tests[index]];
+    update({ tests });
+  };
+
+  const updateHint = (index: number, changes: Partial<HintDraft>) =>
+    update({ hints: draft.hints.map((hint, i) => (i === index ? { ...hint, ...changes } : hint)) });
+
+  const moveHint = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.hints.length) return;
+    const hints = [...draft.hints];
+    [hints[index], hints[target]] = [hints[target], hints[index]];
+    update({ hints });
+  };
+
+  const updateParameter = (index: number, changes: Partial<ParameterSpec>) =>
+    update({ parameters: draft.parameters.map((param, i) => (i === index ? { ...param, ...changes } : param)) });
+
+  const toggleLanguage = (language: Language) => {
+    const languages = draft.languages.includes(language)
+      ? draft.languages.filter((l) => l !== language)
+      : [...draft.languages, language];
+    if (languages.length === 0) return;
+    update({ languages });
+    if (!languages.includes(starterTab)) setStarterTab(languages[0]);
+  };
+
+  const validate = async () => {
+    setIsValidating(true);
+    setError('');
+    try {
+      const results = await runTests(
+        draft.solution_code,
+        draft.tests,
+        { entryPoint: draft.entry_point, parameters: draft.parameters, returnType: draft.return_type },
+        draft.solution_language
+      );
+      setValidation({ snapshot: validationSnapshot(draft), results });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const save = async (publish: boolean) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const fields: LevelFields = {
+        room_id: roomId,
+        title: draft.title,
+        description: draft.description,
+        movie_reference: draft.movie_reference,
+        difficulty: draft.difficulty,
+        time_limit_seconds: draft.time_limit_seconds,
+        entry_point: draft.entry_point,
+        parameters: draft.parameters,
+        return_type: draft.return_type,
+        languages: draft.languages,
+        starter_code: draft.starter_code,
+        initial_code: draft.starter_code[draft.languages[0]] ?? '',
+        test_cases: draft.tests
+          .filter((test) => !test.hidden)
+          .map(({ input, expected, description }) => ({ input, expected, description })),
+        // Saved as a draft first: the server only publishes once the tests and
+        // solution it checks are stored
+        published: false,
+      };
+
+      let levelId = draft.id;
+      if (levelId) await updateLevel(levelId, fields);
+      else levelId = await createLevel(fields, nextPosition);
+
+      await replaceHiddenTests(
+        levelId,
+        draft.tests
+          .filter((test) => test.hidden)
+          .map(({ input, expected, description }) => ({ input, expected, description }))
+      );
+
+      await replaceHints(levelId, draft.hints.filter((hint) => hint.body.trim()));
+
+      if (draft.solution_code.trim()) {
+        await saveSolution(levelId, draft.solution_language, draft.solution_code);
+      }
+
+      if (publish) {
+        const { published, results } = await publishLevel(levelId);
+        if (!published) {
+          // Saving again updates this level rather than creating another
+          update({ id: levelId, published: false });
+          setValidation({ snapshot: validationSnapshot(draft), results });
+          throw new Error('The reference solution failed on the server, so the level was saved as a draft.');
+        }
+      }
+
+      onSaved();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(draft.published && isValidated);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium mb-2">Title</label>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+            className={inputClass}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Difficulty</label>
+          <select
+            value={draft.difficulty}
+            onChange={(e) => update({ difficulty: e.target.value as LevelDraft['difficulty'] })}
+            className={inputClass}
+          >
+            <option value="easy" className="bg-gray-800">Easy</option>
+            <option value="medium" className="bg-gray-800">Medium</option>
+            <option value="hard" className="bg-gray-800">Hard</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium mb-2">Movie reference</label>
+          <input
+            type="text"
+            value={draft.movie_reference}
+            onChange={(e) => update({ movie_reference: e.target.value })}
+            className={inputClass}
+            placeholder="The Matrix (1999)"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Time limit (minutes)</label>
+          <input
+            type="number"
+            min="1"
+            value={draft.time_limit_seconds === null ? '' : draft.time_limit_seconds / 60}
+            onChange={(e) =>
+              update({
+                time_limit_seconds: e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value) * 60)),
+              })
+            }
+            className={inputClass}
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium">Description (Markdown)</label>
+          <button
+            type="button"
+            onClick={() => setShowPreview(!showPreview)}
+            className="text-sm text-purple-400 hover:text-purple-300"
+          >
+            {showPreview ? 'Edit' : 'Preview'}
+          </button>
+        </div>
+        {showPreview ? (
+          <div className="prose prose-invert max-w-none p-3 rounded bg-white/5 border border-white/10 min-h-[8rem]">
+            <ReactMarkdown>{draft.description}</ReactMarkdown>
+          </div>
+        ) : (
+          <textarea
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            className={`${inputClass} min-h-[8rem] font-mono text-sm`}
+            required
+          />
+        )}
+      </div>
+
+      {/* Signature */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">Function signature</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Entry function</label>
+            <input
+              type="text"
+              value={draft.entry_point}
+              onChange={(e) => update({ entry_point: e.target.value })}
+              className={`${inputClass} font-mono`}
+              pattern="[A-Za-z_$][\w$]*"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Return type</label>
+            <select
+              value={draft.return_type}
+              onChange={(e) => update({ return_type: e.target.value as ValueType })}
+              className={inputClass}
+            >
+              {VALUE_TYPES.map((type) => (
+                <option key={type} value={type} className="bg-gray-800">{type}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Arguments (comma-separated in each test input)</label>
+          {draft.parameters.map((param, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={param.name}
+                onChange={(e) => updateParameter(index, { name: e.target.value })}
+                className={`${inputClass} font-mono`}
+                placeholder="name"
+                required
+              />
+              <select
+                value={param.type}
+                onChange={(e) => updateParameter(index, { type: e.target.value as ValueType })}
+                className={`${inputClass} w-40`}
+              >
+                {VALUE_TYPES.map((type) => (
+                  <option key={type} value={type} className="bg-gray-800">{type}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => update({ parameters: draft.parameters.filter((_, i) => i !== index) })}
+                className="p-2 rounded hover:bg-white/10 text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => update({ parameters: [...draft.parameters, { name: '', type: 'string' }] })}
+            className="flex items-center text-sm text-purple-400 hover:text-purple-300"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add argument
+          </button>
+        </div>
+      </div>
+
+      {/* Starter code */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">Starter code</h3>
+        <div className="flex items-center gap-4 text-sm">
+          {(Object.keys(LANGUAGES) as Language[]).map((language) => (
+            <label key={language} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.languages.includes(language)}
+                onChange={() => toggleLanguage(language)}
+              />
+              {LANGUAGES[language].label}
+            </label>
+          ))}
+        </div>
+        <div className="rounded overflow-hidden border border-white/10">
+          <div className="flex bg-white/5">
+            {draft.languages.map((language) => (
+              <button
+                key={language}
+                type="button"
+                onClick={() => setStarterTab(language)}
+                className={`px-4 py-2 text-sm ${starterTab === language ? 'bg-purple-500/30' : 'hover:bg-white/10'}`}
+              >
+                {LANGUAGES[language].label}
+              </button>
+            ))}
+          </div>
+          <Editor
+            height="200px"
+            language={LANGUAGES[starterTab].monaco}
+            theme="vs-dark"
+            value={draft.starter_code[starterTab] ?? ''}
+            onChange={(value) => update({ starter_code: { ...draft.starter_code, [starterTab]: value || '' } })}
+            options={{ minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false, automaticLayout: true }}
+          />
+        </div>
+      </div>
+
+      {/* Tests */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">Test cases</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400">
+              <tr>
+                <th className="p-2 w-16">#</th>
+                <th className="p-2">Input</th>
+                <th className="p-2">Expected</th>
+                <th className="p-2">Description</th>
+                <th className="p-2 w-20">Hidden</th>
+                <th className="p-2 w-28" />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.tests.map((test, index) => (
+                <tr key={index} className="border-t border-white/10 align-top">
+                  <td className="p-2">
+                    <div className="flex items-center gap-1">
+                      {index + 1}
+                      {validation?.results[index] && (
+                        <span
+                          title={validation.results[index].message}
+                          className={validation.results[index].status === 'passed' ? 'text-green-400' : 'text-red-400'}
+                        >
+                          ●
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <textarea
+                      value={test.input}
+                      onChange={(e) => updateTest(index, { input: e.target.value })}
+                      className={`${inputClass} font-mono`}
+                      rows={1}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <textarea
+                      value={test.expected}
+                      onChange={(e) => updateTest(index, { expected: e.target.value })}
+                      className={`${inputClass} font-mono`}
+                      rows={1}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="text"
+                      value={test.description}
+                      onChange={(e) => updateTest(index, { description: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={test.hidden}
+                      onChange={(e) => updateTest(index, { hidden: e.target.checked })}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <div className="flex items-center">
+                      <button type="button" onClick={() => moveTest(index, -1)} className="p-1 rounded hover:bg-white/10">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => moveTest(index, 1)} className="p-1 rounded hover:bg-white/10">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => update({ tests: draft.tests.filter((_, i) => i !== index) })}
+                        className="p-1 rounded hover:bg-white/10 text-red-400"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          type="button"
+          onClick={() => update({ tests: [...draft.tests, { input: '', expected: '', description: '', hidden: false }] })}
+          className="flex items-center text-sm text-purple-400 hover:text-purple-300"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add test
+        </button>
+      </div>
+
+      {/* Hints */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold">Hints</h3>
+          <p className="text-sm text-gray-400">
+            Players reveal hints one at a time, in this order. Each one takes its cost off their score for the level.
+          </p>
+        </div>
+        {draft.hints.map((hint, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="flex items-center pt-2 text-sm text-gray-400 w-8">
+              <Lightbulb className="w-4 h-4 mr-1 text-yellow-400" />
+              {index + 1}
+            </span>
+            <textarea
+              value={hint.body}
+              onChange={(e) => updateHint(index, { body: e.target.value })}
+              className={inputClass}
+              rows={2}
+              placeholder="Point stuck players in the right direction"
+            />
+            <div className="w-28 shrink-0">
+              <input
+                type="number"
+                min={0}
+                value={hint.cost}
+                onChange={(e) => updateHint(index, { cost: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+                title="Points taken off the solve"
+              />
+              <span className="text-xs text-gray-400">points</span>
+            </div>
+            <div className="flex items-center pt-1">
+              <button type="button" onClick={() => moveHint(index, -1)} className="p-1 rounded hover:bg-white/10">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => moveHint(index, 1)} className="p-1 rounded hover:bg-white/10">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => update({ hints: draft.hints.filter((_, i) => i !== index) })}
+                className="p-1 rounded hover:bg-white/10 text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => update({ hints: [...draft.hints, { body: '', cost: DEFAULT_HINT_COST }] })}
+          className="flex items-center text-sm text-purple-400 hover:text-purple-300"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add hint
+        </button>
+      </div>
+
+      {/* Reference solution */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Reference solution</h3>
+          <select
+            value={draft.solution_language}
+            onChange={(e) => update({ solution_language: e.target.value as Language })}
+            className="px-2 py-1 rounded bg-white/5 border border-white/10 text-sm"
+          >
+            {(Object.keys(LANGUAGES) as Language[]).map((language) => (
+              <option key={language} value={language} className="bg-gray-800">
+                {LANGUAGES[language].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="rounded overflow-hidden border border-white/10">
+          <Editor
+            height="220px"
+            language={LANGUAGES[draft.solution_language].monaco}
+            theme="vs-dark"
+            value={draft.solution_code}
+            onChange={(value) => update({ solution_code: value || '' })}
+            options={{ minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false, automaticLayout: true }}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={validate}
+            disabled={isValidating || !draft.solution_code.trim() || draft.tests.length === 0}
+            className="flex items-center px-4 py-2 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            <FlaskConical className="w-4 h-4 mr-2" />
+            {isValidating ? 'Validating...' : 'Validate with reference solution'}
+          </button>
+          {validation && (
+            <span className={`flex items-center text-sm ${isValidated ? 'text-green-400' : 'text-red-400'}`}>
+              {isValidated ? (
+                <>
+                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                  All {validation.results.length} tests pass
+                </>
+              ) : validation.snapshot !== validationSnapshot(draft) ? (
+                'Changed since the last validation'
+              ) : (
+                `${validation.results.filter((r) => r.status === 'passed').length}/${validation.results.length} tests pass`
+              )}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 border-t border-white/10">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 rounded bg-white/5 hover:bg-white/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => save(false)}
+          disabled={isSaving}
+          className="flex items-center px-4 py-2 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+        >
+          {draft.published ? <EyeOff className="w-4 h-4 mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+          {draft.published ? 'Unpublish & save' : 'Save draft'}
+        </button>
+        <button
+          type="button"
+          onClick={() => save(true)}
+          disabled={isSaving || !isValidated}
+          title={isValidated ? undefined : 'Validate the reference solution first'}
+          className="flex items-center px-4 py-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Publish
+        </button>
+      </div>
+    </form>
+  );
+}
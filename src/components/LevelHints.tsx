@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Lightbulb, Lock } from 'lucide-react';
+import type { PlayerHint } from '../lib/db';
+
+interface LevelHintsProps {
+  hints: PlayerHint[];
+  // Why the next hint can't be revealed right now, if it can't
+  disabledReason: string | null;
+  onReveal: () => Promise<void>;
+}
+
+// A level's hints in order. Each one costs points off the solve, so only the
+// next hint can be revealed and the player confirms the cost first.
+export default function LevelHints({ hints, disabledReason, onReveal }: LevelHintsProps) {
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [error, setError] = useState('');
+
+  if (hints.length === 0) return null;
+
+  const next = hints.find((hint) => !hint.revealed);
+
+  const reveal = async () => {
+    if (!next) return;
+    if (!window.confirm(`Reveal hint ${next.ordinal}? It takes ${next.cost} points off your score for this level.`)) {
+      return;
+    }
+    setError('');
+    setIsRevealing(true);
+    try {
+      await onReveal();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="flex items-center text-lg font-semibold mb-3">
+        <Lightbulb className="w-5 h-5 mr-2 text-yellow-400" />
+        Hints
+      </h3>
+      <div className="space-y-2">
+        {hints.map((hint) =>
+          hint.revealed ? (
+            <div key={hint.ordinal} className="p-3 rounded bg-yellow-500/10 border border-yellow-500/30 text-sm">
+              <div className="flex items-center justify-between text-xs text-yellow-300 mb-1">
+                <span>Hint {hint.ordinal}</span>
+                <span>−{hint.cost} points</span>
+              </div>
+              <p className="whitespace-pre-wrap">{hint.body}</p>
+            </div>
+          ) : (
+            <div
+              key={hint.ordinal}
+              className="flex items-center justify-between p-3 rounded bg-white/5 border border-white/10 text-sm text-gray-400"
+            >
+              <span className="flex items-center">
+                <Lock className="w-4 h-4 mr-2" />
+                Hint {hint.ordinal}
+              </span>
+              {hint === next ? (
+                <button
+                  onClick={reveal}
+                  disabled={isRevealing || disabledReason !== null}
+                  title={disabledReason ?? undefined}
+                  className="px-3 py-1 rounded text-xs bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-200 transition-colors disabled:opacity-50"
+                >
+                  Reveal (−{hint.cost} points)
+                </button>
+              ) : (
+                <span className="text-xs">−{hint.cost} points</span>
+              )}
+            </div>
+          )
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
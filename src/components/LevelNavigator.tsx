@@ -0,0 +1,43 @@
+import { CheckCircle2, Circle, Lock, TimerOff } from 'lucide-react';
+import type { LevelProgressEntry } from '../lib/db';
+
+interface LevelNavigatorProps {
+  progress: LevelProgressEntry[];
+  selectedLevelId: string | null;
+  onSelect: (levelId: string) => void;
+}
+
+export default function LevelNavigator({ progress, selectedLevelId, onSelect }: LevelNavigatorProps) {
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto">
+      {progress.map((entry) => {
+        const isSelected = entry.level_id !== null && entry.level_id === selectedLevelId;
+        const isLocked = entry.state === 'locked' || entry.level_id === null;
+
+        return (
+          <button
+            key={entry.position}
+            onClick={() => entry.level_id && onSelect(entry.level_id)}
+            disabled={isLocked}
+            title={entry.title ?? `Level ${entry.position} is locked`}
+            className={`flex items-center px-3 py-1.5 rounded-lg text-sm whitespace-nowrap transition-colors ${
+              isSelected
+                ? 'bg-purple-500 text-white'
+                : isLocked
+                  ? 'bg-white/5 text-gray-500 cursor-not-allowed'
+                  : 'bg-white/5 hover:bg-white/10'
+            }`}
+          >
+            {entry.state === 'solved' && <CheckCircle2 className="w-4 h-4 mr-1.5 text-green-400" />}
+            {entry.state === 'current' && <Circle className="w-4 h-4 mr-1.5 text-purple-300" />}
+            {entry.state === 'expired' && <TimerOff className="w-4 h-4 mr-1.5 text-red-400" />}
+            {entry.state === 'locked' && <Lock className="w-4 h-4 mr-1.5" />}
+            <span>
+              {entry.position}. {entry.title ?? 'Locked'}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { Loader2 } from 'lucide-react';
+
+export default function LoadingScreen() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0F172A] text-white">
+      <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+    </div>
+  );
+}
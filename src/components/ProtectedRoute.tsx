@@ -0,0 +1,13 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import type { ReturnState } from '../lib/redirect';
+
+// Layout route for pages that need a signed-in user. Signed-out visitors go
+// to the login page, which sends them back here afterwards.
+export default function ProtectedRoute() {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) return <Navigate to="/" replace state={{ from: location } satisfies ReturnState} />;
+  return <Outlet />;
+}
@@ -0,0 +1,14 @@
+import { Navigate, Outlet } from 'react-router-dom';
+import LoadingScreen from './LoadingScreen';
+import { useAuth } from '../contexts/AuthContext';
+import { hasRole, type Role } from '../lib/roles';
+
+// Layout route for pages that need at least the given role. Nest it inside
+// ProtectedRoute; users without the role are sent back to their dashboard.
+export default function RequireRole({ role }: { role: Role }) {
+  const { role: currentRole, profileLoading } = useAuth();
+
+  if (profileLoading) return <LoadingScreen />;
+  if (!hasRole(currentRole, role)) return <Navigate to="/dashboard" replace />;
+  return <Outlet />;
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Megaphone, MicOff, Mic, Send, Trash2 } from 'lucide-react';
+import type { ChatMessage } from '../lib/db';
+
+// The organizer's controls, shown in the proctor view
+interface ChatModeration {
+  mutedUserIds: string[];
+  onDelete: (message: ChatMessage) => void;
+  onToggleMute: (userId: string, muted: boolean) => void;
+}
+
+interface RoomChatProps {
+  messages: ChatMessage[];
+  userId: string | undefined;
+  // Why the user can't post right now, if they can't
+  disabledReason: string | null;
+  onSend: (body: string, announcement: boolean) => Promise<void>;
+  moderation?: ChatModeration;
+}
+
+const MAX_LENGTH = 1000;
+
+// Messages oldest first, scrolled to the newest. Announcements stand out, and
+// removed messages leave a placeholder so replies still make sense.
+export default function RoomChat({ messages, userId, disabledReason, onSend, moderation }: RoomChatProps) {
+  const [body, setBody] = useState('');
+  const [asAnnouncement, setAsAnnouncement] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+  const bottom = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setError('');
+    setIsSending(true);
+    try {
+      await onSend(body, asAnnouncement);
+      setBody('');
+      setAsAnnouncement(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+        {messages.length === 0 && <p className="text-sm text-gray-400 text-center py-4">No messages yet.</p>}
+        {messages.map((message) => {
+          const isMuted = moderation?.mutedUserIds.includes(message.user_id) ?? false;
+          return (
+            <div
+              key={message.id}
+              className={`group p-2 rounded text-sm ${
+                message.is_announcement ? 'bg-yellow-500/10 border border-yellow-500/30' : 'bg-white/5'
+              }`}
+            >
+              <div className="flex items-center justify-between text-xs">
+                <span
+                  className={`flex items-center font-medium ${
+                    message.user_id === userId ? 'text-purple-300' : 'text-gray-300'
+                  }`}
+                >
+                  {message.is_announcement && <Megaphone className="w-3 h-3 mr-1 text-yellow-400" />}
+                  {message.username}
+                </span>
+                <span className="flex items-center text-gray-500">
+                  {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {moderation && !message.deleted_at && (
+                    <span className="hidden group-hover:flex items-center ml-2 space-x-1">
+                      {message.user_id !== userId && (
+                        <button
+                          onClick={() => moderation.onToggleMute(message.user_id, !isMuted)}
+                          title={isMuted ? 'Unmute in chat' : 'Mute in chat'}
+                          className="p-0.5 rounded hover:bg-white/10 text-gray-400 hover:text-white"
+                        >
+                          {isMuted ? <Mic className="w-3 h-3" /> : <MicOff className="w-3 h-3" />}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => moderation.onDelete(message)}
+                        title="Delete message"
+                        className="p-0.5 rounded hover:bg-white/10 text-red-400"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  )}
+                </span>
+              </div>
+              {message.deleted_at ? (
+                <p className="mt-1 italic text-gray-500">Removed by the organizer</p>
+              ) : (
+                <p className="mt-1 whitespace-pre-wrap break-words">{message.body}</p>
+              )}
+            </div>
+          );
+        })}
+        <div ref={bottom} />
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      {disabledReason ? (
+        <p className="mt-3 text-xs text-gray-400 text-center">{disabledReason}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={MAX_LENGTH}
+              placeholder={asAnnouncement ? 'Announce to every player' : 'Message the room'}
+              className="flex-1 min-w-0 px-3 py-2 rounded bg-white/5 border border-white/10 text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+            />
+            <button
+              type="submit"
+              disabled={isSending || !body.trim()}
+              className="p-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </div>
+          {moderation && (
+            <label className="flex items-center text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={asAnnouncement}
+                onChange={(e) => setAsAnnouncement(e.target.checked)}
+                className="mr-2"
+              />
+              Pin as an announcement
+            </label>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Timer } from 'lucide-react';
+import { formatClock, useRoomClock, type RoomClockFields } from '../hooks/useRoomClock';
+
+const badgeStyles = {
+  untimed: 'bg-white/5 text-gray-300',
+  scheduled: 'bg-blue-500/20 text-blue-300',
+  running: 'bg-green-500/20 text-green-300',
+  paused: 'bg-yellow-500/20 text-yellow-300',
+  expired: 'bg-red-500/20 text-red-300',
+};
+
+export default function RoomClockBadge({ room }: { room: RoomClockFields }) {
+  const clock = useRoomClock(room);
+
+  return (
+    <span className={`inline-flex items-center px-2 py-1 rounded text-sm ${badgeStyles[clock.status]}`}>
+      <Timer className="w-4 h-4 mr-1" />
+      {clock.status === 'untimed' && 'Not started'}
+      {clock.status === 'scheduled' && `Starts in ${formatClock(clock.remainingMs)}`}
+      {clock.status === 'running' && formatClock(clock.remainingMs)}
+      {clock.status === 'paused' && `Paused at ${formatClock(clock.remainingMs)}`}
+      {clock.status === 'expired' && "Time's up"}
+    </span>
+  );
+}
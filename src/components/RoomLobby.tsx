@@ -0,0 +1,46 @@
+import { ArrowLeft, Hourglass, Users } from 'lucide-react';
+import { formatClock, type RoomClock } from '../hooks/useRoomClock';
+
+interface RoomLobbyProps {
+  name: string;
+  isDraft: boolean;
+  clock: RoomClock;
+  participantCount: number;
+  onLeave: () => void;
+}
+
+// Shown before a room starts: a countdown when the start is scheduled,
+// otherwise a wait for the organizer.
+export default function RoomLobby({ name, isDraft, clock, participantCount, onLeave }: RoomLobbyProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="bg-white/5 rounded-lg p-8 text-center space-y-4 w-full max-w-md">
+        <Hourglass className="w-8 h-8 mx-auto text-purple-500" />
+        <h2 className="text-xl font-bold">{name}</h2>
+        {isDraft ? (
+          <p className="text-gray-400">The organizer is still preparing this room. Check back once its lobby opens.</p>
+        ) : clock.status === 'scheduled' ? (
+          <div>
+            <p className="text-gray-400">The chase starts in</p>
+            <p className="text-5xl font-bold font-mono mt-2">{formatClock(clock.remainingMs)}</p>
+          </div>
+        ) : (
+          <p className="text-gray-400">Waiting for the organizer to start the chase…</p>
+        )}
+        {!isDraft && (
+          <div className="flex items-center justify-center text-sm text-gray-300">
+            <Users className="w-4 h-4 mr-2" />
+            {participantCount} {participantCount === 1 ? 'player' : 'players'} in the lobby
+          </div>
+        )}
+        <button
+          onClick={onLeave}
+          className="inline-flex items-center px-4 py-2 rounded bg-white/10 hover:bg-white/20 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+}
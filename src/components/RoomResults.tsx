@@ -0,0 +1,99 @@
+import { ArrowLeft, Lightbulb, Medal, Trophy } from 'lucide-react';
+import { formatClock } from '../hooks/useRoomClock';
+import type { HintUnlock, LeaderboardEntry } from '../lib/db';
+
+interface RoomResultsProps {
+  name: string;
+  standings: LeaderboardEntry[];
+  userId: string | undefined;
+  onLeave: () => void;
+  onViewProfile: (username: string) => void;
+  // Only passed in for the room's creator
+  hintUnlocks?: HintUnlock[];
+  levelTitles?: Record<string, string>;
+}
+
+const medalColors = ['text-yellow-400', 'text-gray-300', 'text-orange-400'];
+
+// Final standings once a room has finished. Everyone's code in the room is
+// visible on their profiles from this point on.
+export default function RoomResults({
+  name,
+  standings,
+  userId,
+  onLeave,
+  onViewProfile,
+  hintUnlocks,
+  levelTitles = {},
+}: RoomResultsProps) {
+  const rank = standings.findIndex((entry) => entry.user_id === userId);
+  const own = rank >= 0 ? standings[rank] : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="bg-white/5 rounded-lg p-8 space-y-6 w-full max-w-lg">
+        <div className="text-center space-y-2">
+          <Trophy className="w-8 h-8 mx-auto text-yellow-500" />
+          <h2 className="text-xl font-bold">{name} is over</h2>
+          {own && (
+            <p className="text-gray-300">
+              You finished #{rank + 1} of {standings.length} with {own.score} points and {own.levels_solved}{' '}
+              {own.levels_solved === 1 ? 'level' : 'levels'} solved.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {standings.map((entry, index) => {
+            const used = hintUnlocks?.filter((unlock) => unlock.user_id === entry.user_id) ?? [];
+            return (
+              <div key={entry.user_id}>
+                <button
+                  onClick={() => onViewProfile(entry.username)}
+                  className={`w-full flex items-center p-3 rounded text-left transition-colors ${
+                    entry.user_id === userId
+                      ? 'bg-purple-500/20 border border-purple-500/40'
+                      : 'bg-white/5 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="w-8 flex justify-center mr-2">
+                    {index < medalColors.length ? (
+                      <Medal className={`w-5 h-5 ${medalColors[index]}`} />
+                    ) : (
+                      <span className="text-sm text-gray-400">{index + 1}</span>
+                    )}
+                  </div>
+                  <span className="flex-1 font-medium truncate">{entry.username}</span>
+                  <span className="text-xs text-gray-400 mr-4">
+                    {entry.levels_solved} solved
+                    {entry.levels_solved > 0 && ` · ${formatClock(entry.total_solve_seconds * 1000)}`}
+                  </span>
+                  <span className="text-sm text-purple-400">{entry.score} pts</span>
+                </button>
+                {used.length > 0 && (
+                  <p className="flex items-start px-3 pt-1 text-xs text-gray-400">
+                    <Lightbulb className="w-3 h-3 mr-1 mt-0.5 text-yellow-400 shrink-0" />
+                    {used.map((unlock) => `${levelTitles[unlock.level_id] ?? 'Level'} hint ${unlock.ordinal}`).join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          {standings.length === 0 && <p className="text-center text-gray-400">Nobody played in this room.</p>}
+        </div>
+
+        <p className="text-xs text-center text-gray-400">Solutions from this room are now visible on players' profiles.</p>
+
+        <div className="text-center">
+          <button
+            onClick={onLeave}
+            className="inline-flex items-center px-4 py-2 rounded bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
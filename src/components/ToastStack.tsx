@@ -0,0 +1,50 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { Bell, Trophy, X } from 'lucide-react';
+import type { Toast, ToastTone } from '../hooks/useToasts';
+
+const toneIcons: Record<ToastTone, typeof Bell> = {
+  info: Bell,
+  success: Trophy,
+};
+
+const toneStyles: Record<ToastTone, string> = {
+  info: 'border-white/10 text-gray-200',
+  success: 'border-yellow-500/40 text-yellow-200',
+};
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+// Bottom left, clear of the leaderboard on the right
+export default function ToastStack({ toasts, onDismiss }: ToastStackProps) {
+  return (
+    <div className="fixed left-4 bottom-4 z-50 space-y-2 w-72">
+      <AnimatePresence initial={false}>
+        {toasts.map((toast) => {
+          const Icon = toneIcons[toast.tone];
+          return (
+            <motion.div
+              key={toast.id}
+              layout
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className={`flex items-start p-3 rounded-lg bg-gray-800/95 backdrop-blur border text-sm shadow-lg ${toneStyles[toast.tone]}`}
+            >
+              <Icon className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+              <span className="flex-1">{toast.message}</span>
+              <button
+                onClick={() => onDismiss(toast.id)}
+                className="ml-2 text-gray-400 hover:text-white transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,31 +1,104 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { AuthResponse, AuthTokenResponsePassword, Provider, User } from '@supabase/supabase-js';
+import LoadingScreen from '../components/LoadingScreen';
+import { fetchProfile, type Profile } from '../lib/db';
+import { authCallbackUrl } from '../lib/redirect';
 import { supabase } from '../lib/supabase';
+import type { Role } from '../lib/roles';
 
-const AuthContext = createContext<{
-  user: any;
-  signIn: (email: string, password: string) => Promise<any>;
-  signUp: (email: string, password: string, username: string) => Promise<any>;
-  signOut: () => Promise<any>;
-}>({
+// 'loading' until the stored session, if any, has been restored
+export type AuthStatus = 'loading' | 'ready';
+
+interface AuthContextValue {
+  status: AuthStatus;
+  user: User | null;
+  profile: Profile | null;
+  role: Role | null;
+  // True while the signed-in user's profile is being fetched
+  profileLoading: boolean;
+  refreshProfile: () => Promise<void>;
+  signIn: (email: string, password: string) => Promise<AuthTokenResponsePassword['data']>;
+  signUp: (email: string, password: string, username: string) => Promise<AuthResponse['data']>;
+  resendConfirmation: (email: string) => Promise<void>;
+  // Both send the user to /auth/callback, which forwards them to `next`
+  signInWithMagicLink: (email: string, next: string) => Promise<void>;
+  signInWithProvider: (provider: Provider, next: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  status: 'loading',
   user: null,
-  signIn: async () => {},
-  signUp: async () => {},
+  profile: null,
+  role: null,
+  profileLoading: false,
+  refreshProfile: async () => {},
+  signIn: async () => {
+    throw new Error('AuthProvider is missing');
+  },
+  signUp: async () => {
+    throw new Error('AuthProvider is missing');
+  },
+  resendConfirmation: async () => {},
+  signInWithMagicLink: async () => {},
+  signInWithProvider: async () => {},
+  sendPasswordReset: async () => {},
+  updatePassword: async () => {},
   signOut: async () => {},
 });
 
 export const useAuth = () => useContext(AuthContext);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<any>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  // The user whose profile fetch last finished, found or not
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (cancelled) return;
+      setUser(session?.user ?? null);
+      setStatus('ready');
+    });
+
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user ?? null);
+      setStatus('ready');
     });
 
-    return () => subscription.unsubscribe();
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const loadProfile = useCallback(async (userId: string) => {
+    // A profile that fails to load is treated like a missing one
+    setProfile(await fetchProfile(userId).catch(() => null));
+    setLoadedUserId(userId);
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    loadProfile(userId);
+  }, [userId, loadProfile]);
+
+  const refreshProfile = useCallback(async () => {
+    if (userId) await loadProfile(userId);
+  }, [userId, loadProfile]);
+
   const signIn = async (email: string, password: string) => {
     const { data, error } = await supabase.auth.signInWithPassword({
       email,
@@ -35,28 +108,99 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return data;
   };
 
+  // The profile is created by the on_auth_user_created trigger in the same
+  // transaction as the account. When email confirmation is on, the returned
+  // session is null until the user follows the link.
   const signUp = async (email: string, password: string, username: string) => {
-    const { data: authData, error: authError } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email,
       password,
+      options: {
+        data: { username },
+        emailRedirectTo: `${window.location.origin}/dashboard`,
+      },
     });
-    
-    if (authError) throw authError;
 
-    const { error: profileError } = await supabase
-      .from('users')
-      .insert([{ id: authData.user?.id, username }]);
+    if (error) {
+      // GoTrue hides trigger errors behind a generic message
+      if (error.message.includes('Database error saving new user')) {
+        throw new Error('That username was just taken, please pick another');
+      }
+      throw error;
+    }
 
-    if (profileError) throw profileError;
+    // With confirmations on, an already registered email gets a user with no identities
+    if (data.user && data.user.identities?.length === 0) {
+      throw new Error('An account with this email already exists');
+    }
 
-    return authData;
+    return data;
+  };
+
+  const resendConfirmation = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/dashboard` },
+    });
+    if (error) throw error;
   };
 
-  const signOut = () => supabase.auth.signOut();
+  const signInWithMagicLink = async (email: string, next: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: authCallbackUrl(next) },
+    });
+    if (error) throw error;
+  };
+
+  // Redirects the browser to the provider, so this only returns on failure
+  const signInWithProvider = async (provider: Provider, next: string) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: authCallbackUrl(next) },
+    });
+    if (error) throw error;
+  };
+
+  // The emailed link signs the user in on /reset-password with a recovery session
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
+    if (error) throw error;
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
 
   return (
-    <AuthContext.Provider value={{ user, signIn, signUp, signOut }}>
-      {children}
+    <AuthContext.Provider
+      value={{
+        status,
+        user,
+        profile,
+        role: profile?.role ?? null,
+        profileLoading: user !== null && loadedUserId !== user.id,
+        refreshProfile,
+        signIn,
+        signUp,
+        resendConfirmation,
+        signInWithMagicLink,
+        signInWithProvider,
+        sendPasswordReset,
+        updatePassword,
+        signOut,
+      }}
+    >
+      {status === 'loading' ? <LoadingScreen /> : children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
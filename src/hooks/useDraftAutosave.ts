@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { saveDraft } from '../lib/db';
+import type { Language } from '../lib/runner';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+export type DraftStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface PendingDraft {
+  levelId: string;
+  language: Language;
+  code: string;
+}
+
+// Saves the editor's code to code_drafts a second after the player stops
+// typing. `baseline` is the code the editor was loaded with, which never needs
+// saving. Whatever is still pending is saved when the level or language
+// changes, or when the Room unmounts.
+export function useDraftAutosave(levelId: string | undefined, language: Language, code: string, baseline: string) {
+  const [status, setStatus] = useState<DraftStatus>('idle');
+  const pending = useRef<PendingDraft | null>(null);
+  // Last code saved per level and language, so typing back to it is a no-op
+  const saved = useRef(new Map<string, string>());
+
+  const flush = useCallback(async () => {
+    const draft = pending.current;
+    if (!draft) return;
+    pending.current = null;
+
+    setStatus('saving');
+    try {
+      await saveDraft(draft.levelId, draft.language, draft.code);
+      saved.current.set(`${draft.levelId}:${draft.language}`, draft.code);
+      setStatus('saved');
+    } catch {
+      setStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!levelId) return;
+    const lastSaved = saved.current.get(`${levelId}:${language}`) ?? baseline;
+    if (code === lastSaved) {
+      pending.current = null;
+      return;
+    }
+
+    pending.current = { levelId, language, code };
+    const timeout = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [levelId, language, code, baseline, flush]);
+
+  useEffect(() => {
+    setStatus('idle');
+    return () => {
+      flush();
+    };
+  }, [levelId, language, flush]);
+
+  return { status, flush };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ProctorEvent, proctorTopic, type ModerationNotice, type ParticipantState } from '../lib/proctor';
+
+const STATE_DELAY_MS = 500;
+
+// The participant's side of the proctor channel. Streams what they are
+// working on to the room's creator and hands moderation notices to the Room.
+export function useProctorFeed(
+  roomId: string | undefined,
+  userId: string | undefined,
+  state: ParticipantState | null,
+  onModeration: (notice: ModerationNotice) => void
+) {
+  const channel = useRef<RealtimeChannel | null>(null);
+  const latestState = useRef(state);
+  const moderationHandler = useRef(onModeration);
+  latestState.current = state;
+  moderationHandler.current = onModeration;
+
+  const sendState = useCallback(() => {
+    if (!latestState.current) return;
+    channel.current?.send({ type: 'broadcast', event: ProctorEvent.state, payload: latestState.current });
+  }, []);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    const proctorChannel = supabase
+      .channel(proctorTopic(roomId, userId), { config: { private: true } })
+      .on('broadcast', { event: ProctorEvent.sync }, sendState)
+      .on('broadcast', { event: ProctorEvent.moderation }, ({ payload }) => {
+        moderationHandler.current(payload as ModerationNotice);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') sendState();
+      });
+    channel.current = proctorChannel;
+
+    return () => {
+      channel.current = null;
+      proctorChannel.unsubscribe();
+    };
+  }, [roomId, userId, sendState]);
+
+  useEffect(() => {
+    if (!state) return;
+    const timeout = setTimeout(sendState, STATE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [state, sendState]);
+
+  const notifySubmitted = useCallback(() => {
+    channel.current?.send({ type: 'broadcast', event: ProctorEvent.submitted, payload: {} });
+  }, []);
+
+  return { notifySubmitted };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteMessage,
+  fetchMessages,
+  fetchReadAnnouncements,
+  markAnnouncementRead,
+  sendMessage,
+  type ChatMessage,
+} from '../lib/db';
+import { supabase } from '../lib/supabase';
+
+const HISTORY_LIMIT = 100;
+
+// One room's chat: the latest messages, kept current over realtime, and which
+// announcements the signed-in user has read.
+export function useRoomChat(roomId: string | undefined, userId: string | undefined) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [readIds, setReadIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const load = async () => {
+      try {
+        const history = await fetchMessages(roomId, HISTORY_LIMIT);
+        setMessages(history);
+        const announcementIds = history.filter((message) => message.is_announcement).map((message) => message.id);
+        if (announcementIds.length > 0) setReadIds(await fetchReadAnnouncements(announcementIds));
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    load();
+
+    // Deletions arrive as updates that clear the body
+    const channel = supabase
+      .channel(`chat:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_messages', filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          const message = payload.new as ChatMessage;
+          setMessages((current) => [...current.slice(1 - HISTORY_LIMIT), message]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'room_messages', filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          const message = payload.new as ChatMessage;
+          setMessages((current) => current.map((entry) => (entry.id === message.id ? message : entry)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+      setMessages([]);
+      setReadIds([]);
+    };
+  }, [roomId]);
+
+  const send = useCallback(
+    async (body: string, announcement = false) => {
+      if (!roomId) return;
+      await sendMessage(roomId, body, announcement);
+    },
+    [roomId]
+  );
+
+  const remove = useCallback(async (messageId: string) => {
+    await deleteMessage(messageId);
+  }, []);
+
+  const markRead = useCallback(
+    async (messageId: string) => {
+      if (!userId) return;
+      await markAnnouncementRead(messageId, userId);
+      setReadIds((current) => [...current, messageId]);
+    },
+    [userId]
+  );
+
+  // Pinned for the player until they mark them as read
+  const unreadAnnouncements = messages.filter(
+    (message) => message.is_announcement && !message.deleted_at && !readIds.includes(message.id)
+  );
+
+  return { messages, unreadAnnouncements, error, send, remove, markRead };
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface RoomClockFields {
+  starts_at: string | null;
+  ends_at: string | null;
+  paused_remaining_seconds: number | null;
+}
+
+export type ClockStatus = 'untimed' | 'scheduled' | 'running' | 'paused' | 'expired';
+
+export interface RoomClock {
+  status: ClockStatus;
+  // Milliseconds until the start (scheduled) or the end (running/paused)
+  remainingMs: number;
+}
+
+// Difference between the database clock and ours, measured once per page load
+// and shared by every clock on the page.
+let serverOffsetPromise: Promise<number> | null = null;
+
+const measureServerOffset = async () => {
+  const sentAt = Date.now();
+  const { data, error } = await supabase.rpc('server_now');
+  const receivedAt = Date.now();
+  if (error || !data) return 0;
+  return new Date(data).getTime() - (sentAt + receivedAt) / 2;
+};
+
+const getServerOffset = () => {
+  if (!serverOffsetPromise) {
+    serverOffsetPromise = measureServerOffset().catch(() => 0);
+  }
+  return serverOffsetPromise;
+};
+
+export const computeClock = (room: RoomClockFields, now: number): RoomClock => {
+  if (room.paused_remaining_seconds !== null) {
+    return { status: 'paused', remainingMs: room.paused_remaining_seconds * 1000 };
+  }
+  if (!room.starts_at || !room.ends_at) {
+    return { status: 'untimed', remainingMs: 0 };
+  }
+
+  const startsAt = new Date(room.starts_at).getTime();
+  const endsAt = new Date(room.ends_at).getTime();
+  if (now < startsAt) return { status: 'scheduled', remainingMs: startsAt - now };
+  if (now >= endsAt) return { status: 'expired', remainingMs: 0 };
+  return { status: 'running', remainingMs: endsAt - now };
+};
+
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+export function useRoomClock(room: RoomClockFields | null): RoomClock {
+  const [offset, setOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    getServerOffset().then((value) => {
+      if (!cancelled) setOffset(value);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!room) return { status: 'untimed', remainingMs: 0 };
+  return computeClock(room, now + offset);
+}
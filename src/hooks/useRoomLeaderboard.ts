@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchLeaderboard, type LeaderboardEntry } from '../lib/db';
+import type { ScoreBreakdown } from '../lib/grader';
+import { supabase } from '../lib/supabase';
+
+// Live standings for one room. Any passing submission in the room, or a new
+// player joining it, triggers a refetch of the room_leaderboard RPC, which
+// owns the ranking rules. onFirstSolve hears about passing submissions that
+// earned the first solve bonus on their level.
+export function useRoomLeaderboard(
+  roomId: string | undefined,
+  onFirstSolve?: (entry: LeaderboardEntry, levelId: string) => void
+) {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [error, setError] = useState('');
+  const firstSolveHandler = useRef(onFirstSolve);
+  firstSolveHandler.current = onFirstSolve;
+
+  const refresh = useCallback(async () => {
+    if (!roomId) return [];
+    try {
+      const standings = await fetchLeaderboard(roomId);
+      setEntries(standings);
+      setError('');
+      return standings;
+    } catch (err: any) {
+      setError(err.message);
+      return [];
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    refresh();
+
+    // Filtered by the server, and RLS only delivers rows from rooms the user
+    // belongs to
+    const channel = supabase
+      .channel(`leaderboard:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'submissions', filter: `room_id=eq.${roomId}` },
+        async (payload) => {
+          if (payload.new.status !== 'completed') return;
+          const standings = await refresh();
+
+          const breakdown = payload.new.score_breakdown as ScoreBreakdown | null;
+          const entry = standings.find((standing) => standing.user_id === payload.new.user_id);
+          if (entry && breakdown && breakdown.first_solve_bonus > 0) {
+            firstSolveHandler.current?.(entry, payload.new.level_id);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_participants', filter: `room_id=eq.${roomId}` },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomId, refresh]);
+
+  return { entries, error, refresh };
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { roomTopic, type PresenceStatus, type RoomPresence } from '../lib/presence';
+
+const CODING_MS = 15_000;
+const IDLE_MS = 2 * 60_000;
+const CHECK_INTERVAL_MS = 5_000;
+
+export interface PresenceChange {
+  kind: 'joined' | 'left';
+  presence: RoomPresence;
+}
+
+// Works out the player's own status from their input: keys pressed in the
+// code editor mean coding, and no input at all for a while means idle.
+function usePresenceStatus(): PresenceStatus {
+  const [status, setStatus] = useState<PresenceStatus>('online');
+  const lastInput = useRef(Date.now());
+  const lastCoding = useRef(0);
+
+  useEffect(() => {
+    const update = () => {
+      const now = Date.now();
+      if (document.hidden || now - lastInput.current > IDLE_MS) setStatus('idle');
+      else if (now - lastCoding.current < CODING_MS) setStatus('coding');
+      else setStatus('online');
+    };
+
+    const handleInput = () => {
+      lastInput.current = Date.now();
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+      lastInput.current = Date.now();
+      if (e.target instanceof Element && e.target.closest('.monaco-editor')) {
+        lastCoding.current = lastInput.current;
+      }
+      update();
+    };
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('pointerdown', handleInput);
+    window.addEventListener('pointermove', handleInput);
+    document.addEventListener('visibilitychange', update);
+    const interval = setInterval(update, CHECK_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('pointerdown', handleInput);
+      window.removeEventListener('pointermove', handleInput);
+      document.removeEventListener('visibilitychange', update);
+      clearInterval(interval);
+    };
+  }, []);
+
+  return status;
+}
+
+// Puts the player on the room's presence topic and returns everyone on it,
+// keyed by user id. onChange hears about other players arriving or leaving,
+// but not about the ones already there when the page loaded.
+export function useRoomPresence(
+  roomId: string | undefined,
+  userId: string | undefined,
+  username: string | undefined,
+  onChange: (change: PresenceChange) => void
+) {
+  const [present, setPresent] = useState<Record<string, RoomPresence>>({});
+  const status = usePresenceStatus();
+  const channel = useRef<RealtimeChannel | null>(null);
+  const latestStatus = useRef(status);
+  const changeHandler = useRef(onChange);
+  latestStatus.current = status;
+  changeHandler.current = onChange;
+
+  useEffect(() => {
+    if (!roomId || !userId || !username) return;
+
+    // The first sync follows a join event for everyone already in the room
+    let synced = false;
+    const presenceChannel = supabase
+      .channel(roomTopic(roomId), { config: { private: true, presence: { key: userId } } })
+      .on('presence', { event: 'sync' }, () => {
+        const state = presenceChannel.presenceState<RoomPresence>();
+        // A player with several tabs open shows their latest one
+        setPresent(Object.fromEntries(Object.entries(state).map(([key, metas]) => [key, metas[metas.length - 1]])));
+        synced = true;
+      })
+      .on('presence', { event: 'join' }, ({ key, currentPresences, newPresences }) => {
+        // A status update arrives as a join from a tab that was already there
+        if (!synced || key === userId || currentPresences.length > 0) return;
+        changeHandler.current({ kind: 'joined', presence: newPresences[0] as unknown as RoomPresence });
+      })
+      .on('presence', { event: 'leave' }, ({ key, currentPresences, leftPresences }) => {
+        if (key === userId || currentPresences.length > 0) return;
+        changeHandler.current({ kind: 'left', presence: leftPresences[0] as unknown as RoomPresence });
+      })
+      .subscribe((subscribeStatus) => {
+        if (subscribeStatus !== 'SUBSCRIBED') return;
+        channel.current = presenceChannel;
+        presenceChannel.track({ user_id: userId, username, status: latestStatus.current });
+      });
+
+    return () => {
+      channel.current = null;
+      presenceChannel.unsubscribe();
+      setPresent({});
+    };
+  }, [roomId, userId, username]);
+
+  useEffect(() => {
+    if (!userId || !username) return;
+    channel.current?.track({ user_id: userId, username, status });
+  }, [userId, username, status]);
+
+  return present;
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type ToastTone = 'info' | 'success';
+
+export interface Toast {
+  id: number;
+  message: string;
+  tone: ToastTone;
+}
+
+const TOAST_MS = 5_000;
+const MAX_TOASTS = 4;
+
+// Short-lived notices for ToastStack. Each one dismisses itself after a few
+// seconds, and only the newest few are kept.
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timeouts = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const push = useCallback(
+    (message: string, tone: ToastTone = 'info') => {
+      const id = nextId.current++;
+      setToasts((current) => [...current.slice(1 - MAX_TOASTS), { id, message, tone }]);
+
+      const timeout = setTimeout(() => {
+        timeouts.current.delete(timeout);
+        dismiss(id);
+      }, TOAST_MS);
+      timeouts.current.add(timeout);
+    },
+    [dismiss]
+  );
+
+  useEffect(() => {
+    const pending = timeouts.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  return { toasts, push, dismiss };
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { usernameAvailable } from '../lib/db';
+import { usernameFormatError } from '../lib/username';
+
+export type UsernameStatus = 'idle' | 'invalid' | 'checking' | 'available' | 'taken';
+
+const CHECK_DELAY_MS = 400;
+
+// Checks a username as it's typed: the format locally, then availability in
+// the database once typing pauses. `current` is treated as available so an
+// edit-profile form doesn't report the user's own name as taken.
+export function useUsernameAvailability(username: string, current?: string) {
+  const [status, setStatus] = useState<UsernameStatus>('idle');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!username) {
+      setStatus('idle');
+      setMessage('');
+      return;
+    }
+
+    const formatError = usernameFormatError(username);
+    if (formatError) {
+      setStatus('invalid');
+      setMessage(formatError);
+      return;
+    }
+
+    if (current && username.toLowerCase() === current.toLowerCase()) {
+      setStatus('available');
+      setMessage('');
+      return;
+    }
+
+    setStatus('checking');
+    setMessage('');
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const available = await usernameAvailable(username);
+        if (cancelled) return;
+        setStatus(available ? 'available' : 'taken');
+        setMessage(available ? 'Available' : 'Already taken');
+      } catch (err: any) {
+        if (cancelled) return;
+        setStatus('idle');
+        setMessage(err.message);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [username, current]);
+
+  return { status, message };
+}
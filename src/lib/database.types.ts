@@ -0,0 +1,1782 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      code_drafts: {
+        Row: {
+          code: string
+          language: string
+          level_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          code: string
+          language: string
+          level_id: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          code?: string
+          language?: string
+          level_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_drafts_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "code_drafts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hidden_test_cases: {
+        Row: {
+          created_at: string | null
+          description: string
+          expected: string
+          id: string
+          input: string
+          level_id: string
+          position: number
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string
+          expected: string
+          id?: string
+          input: string
+          level_id: string
+          position?: number
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          expected?: string
+          id?: string
+          input?: string
+          level_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_test_cases_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hint_unlocks: {
+        Row: {
+          cost: number
+          level_id: string
+          ordinal: number
+          room_id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          cost: number
+          level_id: string
+          ordinal: number
+          room_id: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          cost?: number
+          level_id?: string
+          ordinal?: number
+          room_id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hint_unlocks_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hint_unlocks_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hint_unlocks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_hints: {
+        Row: {
+          body: string
+          cost: number
+          created_at: string | null
+          id: string
+          level_id: string
+          position: number
+        }
+        Insert: {
+          body: string
+          cost?: number
+          created_at?: string | null
+          id?: string
+          level_id: string
+          position?: number
+        }
+        Update: {
+          body?: string
+          cost?: number
+          created_at?: string | null
+          id?: string
+          level_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_hints_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_progress: {
+        Row: {
+          ends_at: string | null
+          level_id: string
+          paused_remaining_seconds: number | null
+          room_id: string
+          solved_at: string | null
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          ends_at?: string | null
+          level_id: string
+          paused_remaining_seconds?: number | null
+          room_id: string
+          solved_at?: string | null
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          ends_at?: string | null
+          level_id?: string
+          paused_remaining_seconds?: number | null
+          room_id?: string
+          solved_at?: string | null
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_progress_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "level_progress_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "level_progress_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_solutions: {
+        Row: {
+          code: string
+          language: string
+          level_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          code: string
+          language?: string
+          level_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string
+          language?: string
+          level_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_solutions_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: true
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_validations: {
+        Row: {
+          input: Json
+          level_id: string
+          validated_at: string
+        }
+        Insert: {
+          input: Json
+          level_id: string
+          validated_at?: string
+        }
+        Update: {
+          input?: Json
+          level_id?: string
+          validated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_validations_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: true
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      levels: {
+        Row: {
+          activated_at: string | null
+          created_at: string | null
+          description: string
+          difficulty: string
+          entry_point: string
+          id: string
+          initial_code: string
+          languages: string[]
+          movie_reference: string
+          parameters: Json
+          position: number
+          problem_id: string | null
+          published: boolean
+          return_type: string
+          room_id: string
+          starter_code: Json
+          status: string
+          test_cases: Json
+          time_limit_seconds: number | null
+          title: string
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string | null
+          description: string
+          difficulty: string
+          entry_point: string
+          id?: string
+          initial_code: string
+          languages?: string[]
+          movie_reference: string
+          parameters?: Json
+          position: number
+          problem_id?: string | null
+          published?: boolean
+          return_type?: string
+          room_id: string
+          starter_code?: Json
+          status?: string
+          test_cases: Json
+          time_limit_seconds?: number | null
+          title: string
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string | null
+          description?: string
+          difficulty?: string
+          entry_point?: string
+          id?: string
+          initial_code?: string
+          languages?: string[]
+          movie_reference?: string
+          parameters?: Json
+          position?: number
+          problem_id?: string | null
+          published?: boolean
+          return_type?: string
+          room_id?: string
+          starter_code?: Json
+          status?: string
+          test_cases?: Json
+          time_limit_seconds?: number | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "levels_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "levels_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problem_hidden_tests: {
+        Row: {
+          description: string
+          expected: string
+          id: string
+          input: string
+          position: number
+          problem_id: string
+        }
+        Insert: {
+          description?: string
+          expected: string
+          id?: string
+          input: string
+          position?: number
+          problem_id: string
+        }
+        Update: {
+          description?: string
+          expected?: string
+          id?: string
+          input?: string
+          position?: number
+          problem_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_hidden_tests_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problem_solutions: {
+        Row: {
+          code: string
+          language: string
+          problem_id: string
+        }
+        Insert: {
+          code: string
+          language?: string
+          problem_id: string
+        }
+        Update: {
+          code?: string
+          language?: string
+          problem_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_solutions_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: true
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problems: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string
+          difficulty: string
+          entry_point: string
+          id: string
+          languages: string[]
+          movie_reference: string
+          parameters: Json
+          return_type: string
+          starter_code: Json
+          tags: string[]
+          test_cases: Json
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description: string
+          difficulty: string
+          entry_point: string
+          id?: string
+          languages?: string[]
+          movie_reference: string
+          parameters?: Json
+          return_type?: string
+          starter_code?: Json
+          tags?: string[]
+          test_cases?: Json
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          difficulty?: string
+          entry_point?: string
+          id?: string
+          languages?: string[]
+          movie_reference?: string
+          parameters?: Json
+          return_type?: string
+          starter_code?: Json
+          tags?: string[]
+          test_cases?: Json
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problems_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_announcement_reads: {
+        Row: {
+          message_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          message_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          message_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_announcement_reads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "room_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_announcement_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_bans: {
+        Row: {
+          banned_at: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          banned_at?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          banned_at?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_bans_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_bans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_join_attempts: {
+        Row: {
+          failed_count: number
+          last_failed_at: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          failed_count?: number
+          last_failed_at?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          failed_count?: number
+          last_failed_at?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_join_attempts_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_join_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_join_requests: {
+        Row: {
+          decided_at: string | null
+          requested_at: string
+          room_id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          decided_at?: string | null
+          requested_at?: string
+          room_id: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          decided_at?: string | null
+          requested_at?: string
+          room_id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_join_requests_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_join_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_messages: {
+        Row: {
+          body: string
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          is_announcement: boolean
+          room_id: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          is_announcement?: boolean
+          room_id: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          is_announcement?: boolean
+          room_id?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_messages_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_messages_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_participants: {
+        Row: {
+          chat_muted: boolean
+          id: string
+          joined_at: string | null
+          muted: boolean
+          room_id: string
+          score: number
+          user_id: string
+        }
+        Insert: {
+          chat_muted?: boolean
+          id?: string
+          joined_at?: string | null
+          muted?: boolean
+          room_id: string
+          score?: number
+          user_id: string
+        }
+        Update: {
+          chat_muted?: boolean
+          id?: string
+          joined_at?: string | null
+          muted?: boolean
+          room_id?: string
+          score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_participants_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_passwords: {
+        Row: {
+          password_hash: string
+          room_id: string
+        }
+        Insert: {
+          password_hash: string
+          room_id: string
+        }
+        Update: {
+          password_hash?: string
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_passwords_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: true
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_status_events: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: string
+          id: string
+          room_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status: string
+          id?: string
+          room_id: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string
+          id?: string
+          room_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_status_events_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_template_problems: {
+        Row: {
+          position: number
+          problem_id: string
+          template_id: string
+        }
+        Insert: {
+          position: number
+          problem_id: string
+          template_id: string
+        }
+        Update: {
+          position?: number
+          problem_id?: string
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_template_problems_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_template_problems_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "room_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_templates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rooms: {
+        Row: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+        Insert: {
+          chat_enabled?: boolean
+          code: string
+          created_at?: string | null
+          created_by: string
+          current_position?: number
+          duration_seconds?: number
+          ends_at?: string | null
+          id?: string
+          max_participants?: number | null
+          name: string
+          paused_remaining_seconds?: number | null
+          progression_mode?: string
+          requires_approval?: boolean
+          requires_password?: boolean
+          starts_at?: string | null
+          status?: string
+        }
+        Update: {
+          chat_enabled?: boolean
+          code?: string
+          created_at?: string | null
+          created_by?: string
+          current_position?: number
+          duration_seconds?: number
+          ends_at?: string | null
+          id?: string
+          max_participants?: number | null
+          name?: string
+          paused_remaining_seconds?: number | null
+          progression_mode?: string
+          requires_approval?: boolean
+          requires_password?: boolean
+          starts_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rooms_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submissions: {
+        Row: {
+          code: string
+          id: string
+          language: string
+          level_id: string
+          points: number | null
+          room_id: string | null
+          score_breakdown: Json | null
+          status: string
+          submitted_at: string | null
+          test_results: Json | null
+          tests_passed: number
+          tests_total: number
+          user_id: string
+        }
+        Insert: {
+          code: string
+          id?: string
+          language?: string
+          level_id: string
+          points?: number | null
+          room_id?: string | null
+          score_breakdown?: Json | null
+          status: string
+          submitted_at?: string | null
+          test_results?: Json | null
+          tests_passed?: number
+          tests_total?: number
+          user_id: string
+        }
+        Update: {
+          code?: string
+          id?: string
+          language?: string
+          level_id?: string
+          points?: number | null
+          room_id?: string | null
+          score_breakdown?: Json | null
+          status?: string
+          submitted_at?: string | null
+          test_results?: Json | null
+          tests_passed?: number
+          tests_total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submissions_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submissions_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          current_level: number | null
+          display_name: string | null
+          id: string
+          points: number | null
+          role: string
+          username: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          current_level?: number | null
+          display_name?: string | null
+          id: string
+          points?: number | null
+          role?: string
+          username: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          current_level?: number | null
+          display_name?: string | null
+          id?: string
+          points?: number | null
+          role?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      public_profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          points: number | null
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          display_name?: string | null
+          id?: string | null
+          points?: number | null
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          display_name?: string | null
+          id?: string | null
+          points?: number | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      advance_room_level: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+      }
+      apply_level_time_limit: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: undefined
+      }
+      apply_room_schedule: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+      }
+      approve_join_request: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      assert_room_creator: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: undefined
+      }
+      assert_room_has_space: {
+        Args: {
+          p_room: Database["public"]["Tables"]["rooms"]["Row"]
+        }
+        Returns: undefined
+      }
+      can_use_proctor_topic: {
+        Args: {
+          p_topic: string
+        }
+        Returns: boolean
+      }
+      can_use_room_topic: {
+        Args: {
+          p_topic: string
+        }
+        Returns: boolean
+      }
+      can_view_submission_code: {
+        Args: {
+          p_user_id: string
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      delete_room_message: {
+        Args: {
+          p_message_id: string
+        }
+        Returns: undefined
+      }
+      deny_join_request: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      extend_room_clock: {
+        Args: {
+          p_room_id: string
+          p_seconds: number
+        }
+        Returns: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+      }
+      has_role: {
+        Args: {
+          p_role: string
+        }
+        Returns: boolean
+      }
+      import_level_pack: {
+        Args: {
+          p_room_id: string
+          p_levels: Json
+        }
+        Returns: string[]
+      }
+      instantiate_room_template: {
+        Args: {
+          p_room_id: string
+          p_template_id: string
+        }
+        Returns: string[]
+      }
+      is_banned_from_room: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      is_level_owner: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: boolean
+      }
+      is_level_unlocked: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: boolean
+      }
+      is_room_creator: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      is_room_participant: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      join_room: {
+        Args: {
+          p_code: string
+          p_password?: string
+        }
+        Returns: {
+          room_id: string
+          status: string
+        }[]
+      }
+      kick_participant: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      level_attempts: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: {
+          id: string
+          language: string
+          code: string
+          status: string
+          points: number
+          tests_passed: number
+          tests_total: number
+          test_results: Json
+          submitted_at: string
+        }[]
+      }
+      level_grading_input: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: Json
+      }
+      next_level_position: {
+        Args: {
+          p_room_id: string
+          p_after_position: number
+        }
+        Returns: number
+      }
+      open_first_level: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: undefined
+      }
+      participant_status: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          muted: boolean
+          chat_muted: boolean
+        }[]
+      }
+      pending_join_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          room_id: string
+          room_name: string
+          user_id: string
+          username: string
+          requested_at: string
+        }[]
+      }
+      player_hints: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: {
+          ordinal: number
+          cost: number
+          body: string
+          revealed: boolean
+        }[]
+      }
+      player_profile: {
+        Args: {
+          p_username: string
+        }
+        Returns: {
+          id: string
+          username: string
+          display_name: string
+          avatar_url: string
+          points: number
+          current_level: number
+          created_at: string
+          rooms_played: number
+          levels_solved: number
+        }[]
+      }
+      player_solves: {
+        Args: {
+          p_username: string
+        }
+        Returns: {
+          level_id: string
+          level_title: string
+          difficulty: string
+          movie_reference: string
+          room_id: string
+          room_name: string
+          points: number
+          solve_seconds: number
+          solved_at: string
+        }[]
+      }
+      player_submissions: {
+        Args: {
+          p_username: string
+          p_before?: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          level_id: string
+          level_title: string
+          room_name: string
+          language: string
+          status: string
+          points: number
+          tests_passed: number
+          tests_total: number
+          submitted_at: string
+          code_visible: boolean
+        }[]
+      }
+      proctor_room: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          user_id: string
+          username: string
+          muted: boolean
+          joined_at: string
+          score: number
+          levels_solved: number
+          current_level_id: string
+          current_level_title: string
+          attempts: number
+          last_status: string
+          last_tests_passed: number
+          last_tests_total: number
+          last_submitted_at: string
+          draft_language: string
+          draft_code: string
+          draft_updated_at: string
+        }[]
+      }
+      publish_validated_level: {
+        Args: {
+          p_level_id: string
+          p_input: Json
+        }
+        Returns: boolean
+      }
+      record_submission: {
+        Args: {
+          p_user_id: string
+          p_level_id: string
+          p_code: string
+          p_language: string
+          p_tests_passed: number
+          p_tests_total: number
+          p_test_results?: Json
+        }
+        Returns: {
+          code: string
+          id: string
+          language: string
+          level_id: string
+          points: number | null
+          room_id: string | null
+          score_breakdown: Json | null
+          status: string
+          submitted_at: string | null
+          test_results: Json | null
+          tests_passed: number
+          tests_total: number
+          user_id: string
+        }
+      }
+      reorder_levels: {
+        Args: {
+          p_room_id: string
+          p_level_ids: string[]
+        }
+        Returns: undefined
+      }
+      reset_participant: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      reveal_hint: {
+        Args: {
+          p_level_id: string
+        }
+        Returns: {
+          ordinal: number
+          cost: number
+          body: string
+        }[]
+      }
+      room_accepting_submissions: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      room_join_info: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          room_id: string
+          name: string
+          status: string
+          requires_password: boolean
+          requires_approval: boolean
+          max_participants: number
+          participant_count: number
+          is_participant: boolean
+          is_banned: boolean
+          request_status: string
+        }[]
+      }
+      room_leaderboard: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          user_id: string
+          username: string
+          levels_solved: number
+          score: number
+          total_solve_seconds: number
+          last_solved_at: string
+        }[]
+      }
+      room_progress: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          level_id: string
+          position: number
+          title: string
+          state: string
+          unlocked_at: string
+          ends_at: string
+          paused_remaining_seconds: number
+        }[]
+      }
+      room_transition_allowed: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: boolean
+      }
+      save_level_to_bank: {
+        Args: {
+          p_level_id: string
+          p_tags?: string[]
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          description: string
+          difficulty: string
+          entry_point: string
+          id: string
+          languages: string[]
+          movie_reference: string
+          parameters: Json
+          return_type: string
+          starter_code: Json
+          tags: string[]
+          test_cases: Json
+          title: string
+          updated_at: string | null
+        }
+      }
+      score_level_solve: {
+        Args: {
+          p_difficulty: string
+          p_elapsed_seconds: number
+          p_window_seconds: number
+          p_failed_attempts: number
+          p_first_solve: boolean
+          p_hints_used?: number
+          p_hint_penalty?: number
+        }
+        Returns: Json
+      }
+      send_room_message: {
+        Args: {
+          p_room_id: string
+          p_body: string
+          p_announcement?: boolean
+        }
+        Returns: string
+      }
+      server_now: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      set_chat_muted: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+          p_muted: boolean
+        }
+        Returns: undefined
+      }
+      set_participant_muted: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+          p_muted: boolean
+        }
+        Returns: undefined
+      }
+      set_room_password: {
+        Args: {
+          p_room_id: string
+          p_password: string
+        }
+        Returns: undefined
+      }
+      set_template_problems: {
+        Args: {
+          p_template_id: string
+          p_problem_ids: string[]
+        }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          p_user_id: string
+          p_role: string
+        }
+        Returns: {
+          avatar_url: string | null
+          created_at: string | null
+          current_level: number | null
+          display_name: string | null
+          id: string
+          points: number | null
+          role: string
+          username: string
+        }
+      }
+      start_room_clock: {
+        Args: {
+          p_room_id: string
+          p_starts_at?: string
+        }
+        Returns: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+      }
+      submission_code: {
+        Args: {
+          p_submission_id: string
+        }
+        Returns: string
+      }
+      transition_room: {
+        Args: {
+          p_room_id: string
+          p_status: string
+        }
+        Returns: {
+          chat_enabled: boolean
+          code: string
+          created_at: string | null
+          created_by: string
+          current_position: number
+          duration_seconds: number
+          ends_at: string | null
+          id: string
+          max_participants: number | null
+          name: string
+          paused_remaining_seconds: number | null
+          progression_mode: string
+          requires_approval: boolean
+          requires_password: boolean
+          starts_at: string | null
+          status: string
+        }
+      }
+      unlock_levels: {
+        Args: {
+          p_room_id: string
+          p_up_to_position: number
+          p_user_id?: string
+        }
+        Returns: undefined
+      }
+      username_available: {
+        Args: {
+          p_username: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  PublicTableNameOrOptions extends
+    | keyof (PublicSchema["Tables"] & PublicSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+        Database[PublicTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+      Database[PublicTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : PublicTableNameOrOptions extends keyof (PublicSchema["Tables"] &
+        PublicSchema["Views"])
+    ? (PublicSchema["Tables"] &
+        PublicSchema["Views"])[PublicTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  PublicEnumNameOrOptions extends
+    | keyof PublicSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends PublicEnumNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = PublicEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : PublicEnumNameOrOptions extends keyof PublicSchema["Enums"]
+    ? PublicSchema["Enums"][PublicEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof PublicSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof PublicSchema["CompositeTypes"]
+    ? PublicSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
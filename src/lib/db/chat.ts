@@ -0,0 +1,63 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import { unwrap } from './unwrap';
+
+// A chat message or announcement. Deleted messages keep their row with an
+// empty body, so every client hears about the deletion over realtime.
+export type ChatMessage = Omit<Tables<'room_messages'>, 'deleted_by'>;
+
+const MESSAGE_COLUMNS = 'id, room_id, user_id, username, body, is_announcement, created_at, deleted_at';
+
+// The latest `limit` messages, oldest first
+export async function fetchMessages(roomId: string, limit: number): Promise<ChatMessage[]> {
+  const messages = unwrap(
+    await supabase
+      .from('room_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  );
+  return messages.reverse();
+}
+
+// Announcements are for the room's creator only; send_room_message checks
+export async function sendMessage(roomId: string, body: string, announcement = false) {
+  unwrap(await supabase.rpc('send_room_message', { p_room_id: roomId, p_body: body, p_announcement: announcement }));
+}
+
+export async function deleteMessage(messageId: string) {
+  unwrap(await supabase.rpc('delete_room_message', { p_message_id: messageId }));
+}
+
+// The ids of the announcements the signed-in user has marked as read
+export async function fetchReadAnnouncements(messageIds: string[]): Promise<string[]> {
+  const reads = unwrap(
+    await supabase.from('room_announcement_reads').select('message_id').in('message_id', messageIds)
+  );
+  return reads.map((read) => read.message_id);
+}
+
+export async function markAnnouncementRead(messageId: string, userId: string) {
+  unwrap(
+    await supabase
+      .from('room_announcement_reads')
+      .upsert({ message_id: messageId, user_id: userId }, { ignoreDuplicates: true })
+  );
+}
+
+export async function setChatEnabled(roomId: string, enabled: boolean) {
+  unwrap(await supabase.from('rooms').update({ chat_enabled: enabled }).eq('id', roomId));
+}
+
+// The players the organizer has muted in chat, for the room's creator
+export async function fetchChatMutedPlayers(roomId: string): Promise<string[]> {
+  const participants = unwrap(
+    await supabase.from('room_participants').select('user_id').eq('room_id', roomId).eq('chat_muted', true)
+  );
+  return participants.map((participant) => participant.user_id);
+}
+
+export async function setChatMuted(roomId: string, userId: string, muted: boolean) {
+  unwrap(await supabase.rpc('set_chat_muted', { p_room_id: roomId, p_user_id: userId, p_muted: muted }));
+}
@@ -0,0 +1,32 @@
+import { supabase } from '../supabase';
+import type { Language } from '../runner';
+import { unwrap } from './unwrap';
+
+export interface CodeDraft {
+  language: Language;
+  code: string;
+  updated_at: string;
+}
+
+// The player's drafts for a level, most recently edited first
+export async function fetchDrafts(levelId: string): Promise<CodeDraft[]> {
+  return unwrap(
+    await supabase
+      .from('code_drafts')
+      .select('language, code, updated_at')
+      .eq('level_id', levelId)
+      .order('updated_at', { ascending: false })
+  ) as CodeDraft[];
+}
+
+// user_id defaults to the signed-in user in the database
+export async function saveDraft(levelId: string, language: Language, code: string) {
+  unwrap(
+    await supabase
+      .from('code_drafts')
+      .upsert(
+        { level_id: levelId, language, code, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,level_id,language' }
+      )
+  );
+}
@@ -0,0 +1,70 @@
+import { supabase } from '../supabase';
+import { unwrap } from './unwrap';
+
+// A hint as the level editor writes it; its position is its index
+export interface HintDraft {
+  body: string;
+  cost: number;
+}
+
+export interface LevelHint extends HintDraft {
+  level_id: string;
+}
+
+// A hint as the player sees it. The body is null until they reveal it.
+export interface PlayerHint {
+  ordinal: number;
+  cost: number;
+  body: string | null;
+  revealed: boolean;
+}
+
+// A hint a player revealed, for the room's creator
+export interface HintUnlock {
+  user_id: string;
+  level_id: string;
+  ordinal: number;
+  cost: number;
+  unlocked_at: string;
+}
+
+// Hint bodies are only readable by the room creator; players go through
+// fetchPlayerHints and revealHint
+
+export async function fetchHints(levelIds: string[]): Promise<LevelHint[]> {
+  return unwrap(
+    await supabase.from('level_hints').select('level_id, body, cost').in('level_id', levelIds).order('position')
+  );
+}
+
+// Players' unlocks count hints by order rather than by row, so replacing them
+// keeps what everyone has revealed and paid
+export async function replaceHints(levelId: string, hints: HintDraft[]) {
+  unwrap(await supabase.from('level_hints').delete().eq('level_id', levelId));
+  if (hints.length === 0) return;
+
+  unwrap(
+    await supabase
+      .from('level_hints')
+      .insert(hints.map(({ body, cost }, position) => ({ level_id: levelId, position, body, cost })))
+  );
+}
+
+export async function fetchPlayerHints(levelId: string): Promise<PlayerHint[]> {
+  return unwrap(await supabase.rpc('player_hints', { p_level_id: levelId })) as PlayerHint[];
+}
+
+// Reveals the player's next hint on the level; its cost comes off their solve
+export async function revealHint(levelId: string) {
+  unwrap(await supabase.rpc('reveal_hint', { p_level_id: levelId }));
+}
+
+export async function fetchHintUnlocks(roomId: string): Promise<HintUnlock[]> {
+  return unwrap(
+    await supabase
+      .from('hint_unlocks')
+      .select('user_id, level_id, ordinal, cost, unlocked_at')
+      .eq('room_id', roomId)
+      .order('unlocked_at')
+  );
+}
@@ -0,0 +1,12 @@
+// The data access layer. Pages go through these functions instead of calling
+// supabase.from or supabase.rpc themselves; every one of them throws the
+// PostgrestError when a query fails.
+export * from './chat';
+export * from './drafts';
+export * from './hints';
+export * from './levels';
+export * from './participants';
+export * from './problems';
+export * from './rooms';
+export * from './submissions';
+export * from './users';
@@ -0,0 +1,191 @@
+import { supabase } from '../supabase';
+import type { Json, Tables } from '../database.types';
+import type { Difficulty, PackLevel, PackTest } from '../packs/types';
+import type { Language, ParameterSpec, ValueType } from '../runner';
+import { unwrap } from './unwrap';
+
+// levels with its jsonb and check-constrained columns narrowed
+export interface Level
+  extends Omit<
+    Tables<'levels'>,
+    'difficulty' | 'languages' | 'parameters' | 'return_type' | 'starter_code' | 'status' | 'test_cases'
+  > {
+  difficulty: Difficulty;
+  languages: Language[];
+  parameters: ParameterSpec[];
+  return_type: ValueType;
+  starter_code: Partial<Record<Language, string>>;
+  status: 'waiting' | 'active';
+  // The sample tests players see; hidden tests live in hidden_test_cases
+  test_cases: PackTest[];
+}
+
+export type LevelSummary = Pick<Level, 'id' | 'title' | 'difficulty' | 'position' | 'published'>;
+
+// The columns the level editor writes
+export type LevelFields = Pick<
+  Level,
+  | 'room_id'
+  | 'title'
+  | 'description'
+  | 'movie_reference'
+  | 'difficulty'
+  | 'entry_point'
+  | 'parameters'
+  | 'return_type'
+  | 'languages'
+  | 'starter_code'
+  | 'initial_code'
+  | 'test_cases'
+  | 'time_limit_seconds'
+  | 'published'
+>;
+
+export interface HiddenTest extends PackTest {
+  level_id: string;
+}
+
+export interface LevelSolution {
+  level_id: string;
+  language: Language;
+  code: string;
+}
+
+// A level in the room navigator. Locked levels have no id or title.
+export interface LevelProgressEntry {
+  level_id: string | null;
+  position: number;
+  title: string | null;
+  // Expired levels ran out of time before the player solved them
+  state: 'solved' | 'current' | 'expired' | 'locked';
+  // The player's clock on a timed level; both are null for untimed levels
+  unlocked_at: string | null;
+  ends_at: string | null;
+  paused_remaining_seconds: number | null;
+}
+
+// The generated types only know these jsonb columns as Json
+const toLevel = (row: Tables<'levels'>) => row as unknown as Level;
+const asJson = (value: unknown) => value as Json;
+
+// Players only get the levels unlocked for them
+export async function fetchLevel(levelId: string): Promise<Level> {
+  return toLevel(unwrap(await supabase.from('levels').select('*').eq('id', levelId).single()));
+}
+
+// A room's levels in position order. Only its creator sees unpublished ones.
+export async function fetchLevels(roomId: string): Promise<Level[]> {
+  return unwrap(await supabase.from('levels').select('*').eq('room_id', roomId).order('position')).map(toLevel);
+}
+
+export async function fetchLevelSummaries(roomId: string): Promise<LevelSummary[]> {
+  return unwrap(
+    await supabase
+      .from('levels')
+      .select('id, title, difficulty, position, published')
+      .eq('room_id', roomId)
+      .order('position')
+  ) as LevelSummary[];
+}
+
+export async function fetchLevelProgress(roomId: string): Promise<LevelProgressEntry[]> {
+  return unwrap(await supabase.rpc('room_progress', { p_room_id: roomId })) as LevelProgressEntry[];
+}
+
+// Opens the next level in a self-paced room once the player's time on this
+// one is up; the database checks the clock
+export async function applyLevelTimeLimit(levelId: string) {
+  unwrap(await supabase.rpc('apply_level_time_limit', { p_level_id: levelId }));
+}
+
+export async function createLevel(fields: LevelFields, position: number): Promise<string> {
+  const level = unwrap(
+    await supabase
+      .from('levels')
+      .insert([
+        {
+          ...fields,
+          parameters: asJson(fields.parameters),
+          starter_code: asJson(fields.starter_code),
+          test_cases: asJson(fields.test_cases),
+          position,
+        },
+      ])
+      .select('id')
+      .single()
+  );
+  return level.id;
+}
+
+export async function updateLevel(levelId: string, fields: Partial<LevelFields>) {
+  // .single() turns an update that RLS filtered out into an error
+  unwrap(
+    await supabase
+      .from('levels')
+      .update({
+        ...fields,
+        parameters: asJson(fields.parameters),
+        starter_code: asJson(fields.starter_code),
+        test_cases: asJson(fields.test_cases),
+      })
+      .eq('id', levelId)
+      .select('id')
+      .single()
+  );
+}
+
+export async function deleteLevel(levelId: string) {
+  unwrap(await supabase.from('levels').delete().eq('id', levelId));
+}
+
+export async function reorderLevels(roomId: string, levelIds: string[]) {
+  unwrap(await supabase.rpc('reorder_levels', { p_room_id: roomId, p_level_ids: levelIds }));
+}
+
+// Imports pack levels as drafts and returns their ids, in the same order
+export async function importLevelPack(roomId: string, levels: PackLevel[]): Promise<string[]> {
+  return unwrap(await supabase.rpc('import_level_pack', { p_room_id: roomId, p_levels: levels as unknown as Json }));
+}
+
+// Hidden tests and reference solutions are only readable by the room creator
+
+export async function fetchHiddenTests(levelIds: string[]): Promise<HiddenTest[]> {
+  return unwrap(
+    await supabase
+      .from('hidden_test_cases')
+      .select('level_id, input, expected, description')
+      .in('level_id', levelIds)
+      .order('position')
+  );
+}
+
+export async function replaceHiddenTests(levelId: string, tests: PackTest[]) {
+  unwrap(await supabase.from('hidden_test_cases').delete().eq('level_id', levelId));
+  if (tests.length === 0) return;
+
+  unwrap(
+    await supabase
+      .from('hidden_test_cases')
+      .insert(tests.map(({ input, expected, description }, position) => ({
+        level_id: levelId,
+        position,
+        input,
+        expected,
+        description,
+      })))
+  );
+}
+
+export async function fetchSolutions(levelIds: string[]): Promise<LevelSolution[]> {
+  return unwrap(
+    await supabase.from('level_solutions').select('level_id, language, code').in('level_id', levelIds)
+  ) as LevelSolution[];
+}
+
+export async function saveSolution(levelId: string, language: Language, code: string) {
+  unwrap(
+    await supabase
+      .from('level_solutions')
+      .upsert({ level_id: levelId, language, code, updated_at: new Date().toISOString() })
+  );
+}
@@ -0,0 +1,86 @@
+import { supabase } from '../supabase';
+import { unwrap } from './unwrap';
+
+export interface LeaderboardEntry {
+  user_id: string;
+  username: string;
+  levels_solved: number;
+  score: number;
+  total_solve_seconds: number;
+  last_solved_at: string | null;
+}
+
+// One row of the proctor grid, from proctor_room
+export interface ProctorRow {
+  user_id: string;
+  username: string;
+  muted: boolean;
+  joined_at: string;
+  score: number;
+  levels_solved: number;
+  current_level_id: string | null;
+  current_level_title: string | null;
+  attempts: number;
+  last_status: string | null;
+  last_tests_passed: number | null;
+  last_tests_total: number | null;
+  last_submitted_at: string | null;
+  draft_language: string | null;
+  draft_code: string | null;
+  draft_updated_at: string | null;
+}
+
+export interface JoinRequest {
+  room_id: string;
+  room_name: string;
+  user_id: string;
+  username: string;
+  requested_at: string;
+}
+
+export interface ParticipantStatus {
+  // Submissions are refused while set
+  muted: boolean;
+  // Chat messages are refused while set
+  chat_muted: boolean;
+}
+
+// The signed-in player's membership of a room, or null if they haven't joined
+export async function fetchParticipantStatus(roomId: string): Promise<ParticipantStatus | null> {
+  const rows = unwrap(await supabase.rpc('participant_status', { p_room_id: roomId }));
+  return rows[0] ?? null;
+}
+
+// Ranked by room_leaderboard, which owns the ranking rules
+export async function fetchLeaderboard(roomId: string): Promise<LeaderboardEntry[]> {
+  return unwrap(await supabase.rpc('room_leaderboard', { p_room_id: roomId })) as LeaderboardEntry[];
+}
+
+export async function fetchProctorRows(roomId: string): Promise<ProctorRow[]> {
+  return unwrap(await supabase.rpc('proctor_room', { p_room_id: roomId })) as ProctorRow[];
+}
+
+export async function kickParticipant(roomId: string, userId: string) {
+  unwrap(await supabase.rpc('kick_participant', { p_room_id: roomId, p_user_id: userId }));
+}
+
+export async function setParticipantMuted(roomId: string, userId: string, muted: boolean) {
+  unwrap(await supabase.rpc('set_participant_muted', { p_room_id: roomId, p_user_id: userId, p_muted: muted }));
+}
+
+export async function resetParticipant(roomId: string, userId: string) {
+  unwrap(await supabase.rpc('reset_participant', { p_room_id: roomId, p_user_id: userId }));
+}
+
+// Pending requests across all of the organizer's rooms, oldest first
+export async function fetchPendingJoinRequests(): Promise<JoinRequest[]> {
+  return unwrap(await supabase.rpc('pending_join_requests'));
+}
+
+export async function approveJoinRequest(roomId: string, userId: string) {
+  unwrap(await supabase.rpc('approve_join_request', { p_room_id: roomId, p_user_id: userId }));
+}
+
+export async function denyJoinRequest(roomId: string, userId: string) {
+  unwrap(await supabase.rpc('deny_join_request', { p_room_id: roomId, p_user_id: userId }));
+}
@@ -0,0 +1,119 @@
+import { supabase } from '../supabase';
+import type { Difficulty } from '../packs/types';
+import { unwrap } from './unwrap';
+
+export interface ProblemSummary {
+  id: string;
+  created_by: string | null;
+  title: string;
+  movie_reference: string;
+  difficulty: Difficulty;
+  tags: string[];
+}
+
+export interface ProblemFilters {
+  // Matched against titles and descriptions
+  query: string;
+  difficulty: string;
+  movie: string;
+  // Problems must have all of them
+  tags: string[];
+}
+
+export interface RoomTemplate {
+  id: string;
+  created_by: string | null;
+  name: string;
+  description: string;
+}
+
+export interface TemplateProblem {
+  position: number;
+  problem: Pick<ProblemSummary, 'id' | 'title' | 'difficulty'>;
+}
+
+// PostgREST filter strings use commas and parentheses as separators
+const sanitizeSearch = (query: string) => query.replace(/[,()%*]/g, ' ').trim();
+
+// Every tag and movie in the bank, for the filter options
+export async function fetchProblemFacets(): Promise<{ tags: string[]; movies: string[] }> {
+  const rows = unwrap(await supabase.from('problems').select('tags, movie_reference'));
+  return {
+    tags: Array.from(new Set(rows.flatMap((row) => row.tags))).sort(),
+    movies: Array.from(new Set(rows.map((row) => row.movie_reference))).sort(),
+  };
+}
+
+export async function searchProblems(filters: ProblemFilters): Promise<ProblemSummary[]> {
+  let query = supabase
+    .from('problems')
+    .select('id, created_by, title, movie_reference, difficulty, tags')
+    .order('title');
+
+  const search = sanitizeSearch(filters.query);
+  if (search) query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
+  if (filters.difficulty) query = query.eq('difficulty', filters.difficulty);
+  if (filters.movie) query = query.eq('movie_reference', filters.movie);
+  if (filters.tags.length > 0) query = query.contains('tags', filters.tags);
+
+  return unwrap(await query) as ProblemSummary[];
+}
+
+export async function updateProblemTags(problemId: string, tags: string[]) {
+  unwrap(
+    await supabase
+      .from('problems')
+      .update({ tags, updated_at: new Date().toISOString() })
+      .eq('id', problemId)
+  );
+}
+
+// Rooms that already use the problem keep their copy
+export async function deleteProblem(problemId: string) {
+  unwrap(await supabase.from('problems').delete().eq('id', problemId));
+}
+
+// Copies a room's level into the bank
+export async function saveLevelToBank(levelId: string, tags: string[]) {
+  unwrap(await supabase.rpc('save_level_to_bank', { p_level_id: levelId, p_tags: tags }));
+}
+
+export async function fetchTemplates(): Promise<RoomTemplate[]> {
+  return unwrap(
+    await supabase.from('room_templates').select('id, created_by, name, description').order('created_at')
+  );
+}
+
+export async function createTemplate(name: string, userId: string): Promise<string> {
+  const template = unwrap(
+    await supabase
+      .from('room_templates')
+      .insert([{ name, created_by: userId }])
+      .select('id')
+      .single()
+  );
+  return template.id;
+}
+
+export async function deleteTemplate(templateId: string) {
+  unwrap(await supabase.from('room_templates').delete().eq('id', templateId));
+}
+
+export async function fetchTemplateProblems(templateId: string): Promise<TemplateProblem[]> {
+  return unwrap(
+    await supabase
+      .from('room_template_problems')
+      .select('position, problem:problems(id, title, difficulty)')
+      .eq('template_id', templateId)
+      .order('position')
+  ) as TemplateProblem[];
+}
+
+export async function setTemplateProblems(templateId: string, problemIds: string[]) {
+  unwrap(await supabase.rpc('set_template_problems', { p_template_id: templateId, p_problem_ids: problemIds }));
+}
+
+// Copies the template's problems into the room as draft levels, returning their ids
+export async function instantiateTemplate(roomId: string, templateId: string): Promise<string[]> {
+  return unwrap(await supabase.rpc('instantiate_room_template', { p_room_id: roomId, p_template_id: templateId }));
+}
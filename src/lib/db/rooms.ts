@@ -0,0 +1,141 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import { OPEN_ROOM_STATUSES, type RoomStatus } from '../roomLifecycle';
+import { unwrap } from './unwrap';
+
+export type ProgressionMode = 'lockstep' | 'self_paced';
+
+// The check constraints on these columns don't reach the generated types
+export interface Room extends Omit<Tables<'rooms'>, 'status' | 'progression_mode'> {
+  status: RoomStatus;
+  progression_mode: ProgressionMode;
+}
+
+// A room on the admin dashboard
+export interface OrganizerRoom extends Room {
+  participant_count: number;
+  level_count: number;
+}
+
+export type NewRoom = Pick<
+  Room,
+  'name' | 'code' | 'created_by' | 'duration_seconds' | 'progression_mode' | 'max_participants' | 'requires_approval'
+>;
+
+export type JoinSettings = Pick<Room, 'max_participants' | 'requires_approval'>;
+
+export interface StatusEvent {
+  id: string;
+  from_status: RoomStatus;
+  to_status: RoomStatus;
+  // NULL when the room started or finished on its schedule
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'denied';
+
+// What the join page knows about a room code, from room_join_info
+export interface JoinInfo {
+  room_id: string;
+  name: string;
+  status: RoomStatus;
+  requires_password: boolean;
+  requires_approval: boolean;
+  max_participants: number | null;
+  participant_count: number;
+  is_participant: boolean;
+  is_banned: boolean;
+  request_status: JoinRequestStatus | null;
+}
+
+export interface JoinResult {
+  room_id: string;
+  // 'pending' when the room requires approval
+  status: 'joined' | 'pending';
+}
+
+export async function fetchRoom(roomId: string): Promise<Room> {
+  return unwrap(await supabase.from('rooms').select('*').eq('id', roomId).single()) as Room;
+}
+
+// Rooms players can wait or play in, for the dashboard
+export async function fetchOpenRooms(limit: number): Promise<Room[]> {
+  return unwrap(await supabase.from('rooms').select('*').in('status', OPEN_ROOM_STATUSES).limit(limit)) as Room[];
+}
+
+export async function fetchOrganizerRooms(userId: string): Promise<OrganizerRoom[]> {
+  const rooms = unwrap(
+    await supabase
+      .from('rooms')
+      .select('*, room_participants(count), levels(count)')
+      .eq('created_by', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return rooms.map(({ room_participants, levels, ...room }) => ({
+    ...(room as Room),
+    participant_count: room_participants[0].count,
+    level_count: levels[0].count,
+  }));
+}
+
+// New rooms always start as drafts
+export async function createRoom(room: NewRoom): Promise<Room> {
+  return unwrap(await supabase.from('rooms').insert([room]).select().single()) as Room;
+}
+
+export async function updateJoinSettings(roomId: string, settings: JoinSettings) {
+  unwrap(await supabase.from('rooms').update(settings).eq('id', roomId));
+}
+
+// An empty password removes it. Only the hash is stored, out of clients' reach.
+export async function setRoomPassword(roomId: string, password: string) {
+  unwrap(await supabase.rpc('set_room_password', { p_room_id: roomId, p_password: password }));
+}
+
+export async function transitionRoom(roomId: string, status: RoomStatus) {
+  unwrap(await supabase.rpc('transition_room', { p_room_id: roomId, p_status: status }));
+}
+
+// Starts or finishes the room if its schedule says so; the database checks the clock
+export async function applyRoomSchedule(roomId: string) {
+  unwrap(await supabase.rpc('apply_room_schedule', { p_room_id: roomId }));
+}
+
+export async function startRoomClock(roomId: string, startsAt: string) {
+  unwrap(await supabase.rpc('start_room_clock', { p_room_id: roomId, p_starts_at: startsAt }));
+}
+
+export async function extendRoomClock(roomId: string, seconds: number) {
+  unwrap(await supabase.rpc('extend_room_clock', { p_room_id: roomId, p_seconds: seconds }));
+}
+
+export async function advanceRoomLevel(roomId: string) {
+  unwrap(await supabase.rpc('advance_room_level', { p_room_id: roomId }));
+}
+
+// Most recent first
+export async function fetchStatusLog(roomId: string): Promise<StatusEvent[]> {
+  return unwrap(
+    await supabase
+      .from('room_status_events')
+      .select('id, from_status, to_status, changed_by, changed_at')
+      .eq('room_id', roomId)
+      .order('changed_at', { ascending: false })
+  ) as StatusEvent[];
+}
+
+// Null when no room has the code
+export async function fetchJoinInfo(code: string): Promise<JoinInfo | null> {
+  const rows = unwrap(await supabase.rpc('room_join_info', { p_code: code })) as JoinInfo[];
+  return rows[0] ?? null;
+}
+
+// join_room reports a wrong password as a status so the database can count
+// it, and the join page shows it like any other failure
+export async function joinRoom(code: string, password?: string): Promise<JoinResult> {
+  const rows = unwrap(await supabase.rpc('join_room', { p_code: code, p_password: password }));
+  if (rows[0].status === 'wrong_password') throw new Error('Wrong room password');
+  return rows[0] as JoinResult;
+}
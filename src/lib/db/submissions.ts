@@ -0,0 +1,57 @@
+import { supabase } from '../supabase';
+import type { GradeResult } from '../grader';
+import type { Language } from '../runner';
+import { unwrap } from './unwrap';
+
+// One of the player's own graded attempts at a level, as returned by level_attempts
+export interface Attempt {
+  id: string;
+  language: Language;
+  code: string;
+  status: GradeResult['status'];
+  points: number;
+  tests_passed: number;
+  tests_total: number;
+  // Null for attempts graded before per-test results were stored
+  test_results: Pick<GradeResult, 'sample_results' | 'hidden_results'> | null;
+  submitted_at: string;
+}
+
+// A submission on a player's profile. The code itself is only fetched, through
+// submission_code, when code_visible is set.
+export interface SubmissionSummary {
+  id: string;
+  level_id: string;
+  level_title: string;
+  room_name: string;
+  language: string;
+  status: string;
+  points: number;
+  tests_passed: number;
+  tests_total: number;
+  submitted_at: string;
+  code_visible: boolean;
+}
+
+export async function fetchAttempts(levelId: string): Promise<Attempt[]> {
+  return unwrap(await supabase.rpc('level_attempts', { p_level_id: levelId })) as Attempt[];
+}
+
+// Newest first, in pages of `limit` submitted before `before`
+export async function fetchPlayerSubmissions(
+  username: string,
+  before: string | null,
+  limit: number
+): Promise<SubmissionSummary[]> {
+  return unwrap(
+    await supabase.rpc('player_submissions', {
+      p_username: username,
+      p_before: before ?? undefined,
+      p_limit: limit,
+    })
+  );
+}
+
+export async function fetchSubmissionCode(submissionId: string): Promise<string | null> {
+  return unwrap(await supabase.rpc('submission_code', { p_submission_id: submissionId }));
+}
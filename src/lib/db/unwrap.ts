@@ -0,0 +1,8 @@
+import type { PostgrestSingleResponse } from '@supabase/supabase-js';
+
+// Repository functions throw the PostgrestError instead of returning it, so
+// pages handle every failure with the same try/catch and err.message.
+export function unwrap<T>(result: PostgrestSingleResponse<T>): T {
+  if (result.error) throw result.error;
+  return result.data;
+}
@@ -0,0 +1,100 @@
+import { supabase } from '../supabase';
+import type { Role } from '../roles';
+import { unwrap } from './unwrap';
+
+// The signed-in user's own row in users, or any row for superadmins
+export interface Profile {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  points: number;
+  role: Role;
+  created_at: string;
+}
+
+export type ProfileChanges = Pick<Profile, 'display_name' | 'avatar_url'>;
+
+// From the public_profiles view, which every signed-in user can read
+export interface TopPlayer {
+  username: string;
+  points: number;
+}
+
+// A public profile page, from player_profile
+export interface PlayerProfile {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  points: number;
+  current_level: number;
+  created_at: string;
+  rooms_played: number;
+  levels_solved: number;
+}
+
+export interface PlayerSolve {
+  level_id: string;
+  level_title: string;
+  difficulty: string;
+  movie_reference: string;
+  room_id: string;
+  room_name: string;
+  points: number;
+  solve_seconds: number;
+  solved_at: string;
+}
+
+const PROFILE_COLUMNS = 'id, username, display_name, avatar_url, points, role, created_at';
+
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  return unwrap(await supabase.from('users').select(PROFILE_COLUMNS).eq('id', userId).maybeSingle()) as Profile | null;
+}
+
+// Superadmins only; RLS limits everyone else to their own row
+export async function searchProfiles(query: string, limit: number): Promise<Profile[]> {
+  let request = supabase.from('users').select(PROFILE_COLUMNS).order('username').limit(limit);
+  if (query) request = request.ilike('username', `%${query}%`);
+  return unwrap(await request) as Profile[];
+}
+
+export async function updateProfile(userId: string, changes: ProfileChanges) {
+  unwrap(await supabase.from('users').update(changes).eq('id', userId));
+}
+
+// A fresh path per upload, so cached copies of the old avatar don't linger
+export async function uploadAvatar(userId: string, file: File): Promise<string> {
+  const path = `${userId}/${Date.now()}.${file.name.split('.').pop()}`;
+  const { error } = await supabase.storage.from('avatars').upload(path, file);
+  if (error) throw error;
+  return supabase.storage.from('avatars').getPublicUrl(path).data.publicUrl;
+}
+
+export async function setUserRole(userId: string, role: Role) {
+  unwrap(await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role }));
+}
+
+export async function fetchTopPlayers(limit: number): Promise<TopPlayer[]> {
+  return unwrap(
+    await supabase
+      .from('public_profiles')
+      .select('username, points')
+      .order('points', { ascending: false })
+      .limit(limit)
+  ) as TopPlayer[];
+}
+
+// Null when no player has the username
+export async function fetchPlayerProfile(username: string): Promise<PlayerProfile | null> {
+  const rows = unwrap(await supabase.rpc('player_profile', { p_username: username }));
+  return rows[0] ?? null;
+}
+
+export async function fetchPlayerSolves(username: string): Promise<PlayerSolve[]> {
+  return unwrap(await supabase.rpc('player_solves', { p_username: username }));
+}
+
+export async function usernameAvailable(username: string): Promise<boolean> {
+  return unwrap(await supabase.rpc('username_available', { p_username: username }));
+}
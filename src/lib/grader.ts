@@ -0,0 +1,96 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  LANGUAGES,
+  runTestCases,
+  type FunctionSignature,
+  type Language,
+  type TestCase,
+  type TestResult,
+  type TestStatus,
+} from './runner';
+
+// Mirrors the jsonb returned by score_level_solve in the database
+export interface ScoreBreakdown {
+  base: number;
+  speed_bonus: number;
+  first_solve_bonus: number;
+  attempt_penalty: number;
+  failed_attempts: number;
+  // Missing from solves scored before levels had hints
+  hint_penalty?: number;
+  hints_used?: number;
+  elapsed_seconds: number;
+  total: number;
+}
+
+export interface GradeResult {
+  submission_id: string;
+  status: 'completed' | 'failed';
+  points: number;
+  // Only set on the submission that first solved the level
+  score_breakdown: ScoreBreakdown | null;
+  tests_passed: number;
+  tests_total: number;
+  sample_results: TestResult[];
+  hidden_results: { status: TestStatus }[];
+}
+
+// Refusals (muted, level locked, room closed) explain themselves in the body
+async function functionError(error: Error): Promise<Error> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') return new Error(body.error);
+  }
+  return error;
+}
+
+// Submissions are graded by the grade-submission Edge Function against both
+// the sample and hidden tests; the client never writes submissions itself.
+export async function submitSolution(levelId: string, code: string, language: Language): Promise<GradeResult> {
+  const { data, error } = await supabase.functions.invoke<GradeResult>('grade-submission', {
+    body: { level_id: levelId, code, language },
+  });
+
+  if (error) throw await functionError(error);
+  if (!data) throw new Error('The grader returned no verdict');
+  return data;
+}
+
+// Runs tests without recording anything. Languages the browser can't run
+// (C++) go through the run-tests Edge Function.
+export async function runTests(
+  code: string,
+  tests: TestCase[],
+  signature: FunctionSignature,
+  language: Language
+): Promise<TestResult[]> {
+  if (LANGUAGES[language].runsOn === 'browser') {
+    return runTestCases(code, tests, signature, { language });
+  }
+
+  const { data, error } = await supabase.functions.invoke<{ results: TestResult[] }>('run-tests', {
+    body: { code, language, tests, signature },
+  });
+  if (error) throw await functionError(error);
+  if (!data) throw new Error('The test runner returned no results');
+  return data.results;
+}
+
+export interface PublishResult {
+  published: boolean;
+  // Every sample and hidden test, run against the stored reference solution
+  results: TestResult[];
+}
+
+// Levels are published by the publish-level Edge Function, which first runs
+// the stored reference solution against every test. A level that doesn't pass
+// stays a draft.
+export async function publishLevel(levelId: string): Promise<PublishResult> {
+  const { data, error } = await supabase.functions.invoke<PublishResult>('publish-level', {
+    body: { level_id: levelId },
+  });
+  if (error) throw await functionError(error);
+  if (!data) throw new Error('The publisher returned no results');
+  return data;
+}
@@ -0,0 +1,21 @@
+import type { Provider } from '@supabase/supabase-js';
+import { Github, type LucideIcon } from 'lucide-react';
+
+export interface OAuthProviderOption {
+  id: Provider;
+  label: string;
+  icon: LucideIcon;
+}
+
+// Providers the login page knows how to show. To offer another one, add it
+// here, enable it in Supabase and list it in VITE_AUTH_PROVIDERS.
+const knownProviders: OAuthProviderOption[] = [
+  { id: 'github', label: 'GitHub', icon: Github },
+];
+
+const enabled = (import.meta.env.VITE_AUTH_PROVIDERS ?? 'github')
+  .split(',')
+  .map((id: string) => id.trim())
+  .filter(Boolean);
+
+export const oauthProviders = knownProviders.filter((provider) => enabled.includes(provider.id));
@@ -0,0 +1,67 @@
+import { stringify } from 'yaml';
+import type { Language, ParameterSpec, ValueType } from '../runner';
+import { PACK_VERSION, type Difficulty, type PackFormat, type PackLevel, type PackTest, type ProblemPack } from './types';
+
+// The columns of a levels row that make up a pack level
+export interface LevelRow {
+  title: string;
+  description: string;
+  movie_reference: string;
+  difficulty: Difficulty;
+  entry_point: string;
+  parameters: ParameterSpec[];
+  return_type: ValueType;
+  starter_code: Partial<Record<Language, string>>;
+  test_cases: PackTest[];
+}
+
+export interface LevelSecrets {
+  hidden_tests: PackTest[];
+  solution: { language: Language; code: string } | null;
+}
+
+const normalizeTests = (tests: PackTest[]) =>
+  tests.map(({ input, expected, description }) => ({ input, expected, description: description ?? '' }));
+
+// Copies only the pack fields, in the documented order, so extra properties
+// such as row ids never end up in an exported file
+const packFields = (level: PackLevel): PackLevel => ({
+  title: level.title,
+  description: level.description,
+  movie_reference: level.movie_reference,
+  difficulty: level.difficulty,
+  entry_point: level.entry_point,
+  parameters: level.parameters,
+  return_type: level.return_type,
+  starter_code: level.starter_code,
+  tests: level.tests,
+  hidden_tests: level.hidden_tests,
+  ...(level.solution && { solution: level.solution }),
+});
+
+export function levelToPackLevel(level: LevelRow, secrets: LevelSecrets): PackLevel {
+  return packFields({
+    ...level,
+    tests: normalizeTests(level.test_cases),
+    hidden_tests: normalizeTests(secrets.hidden_tests),
+    ...(secrets.solution && { solution: secrets.solution }),
+  });
+}
+
+export function serializePack(name: string, levels: PackLevel[], format: PackFormat): string {
+  const pack: ProblemPack = { version: PACK_VERSION, name, levels: levels.map(packFields) };
+  // Block scalars keep multi-line descriptions and code readable
+  return format === 'json' ? `${JSON.stringify(pack, null, 2)}\n` : stringify(pack, { blockQuote: 'literal', lineWidth: 0 });
+}
+
+export function downloadPack(name: string, levels: PackLevel[], format: PackFormat) {
+  const blob = new Blob([serializePack(name, levels, format)], {
+    type: format === 'json' ? 'application/json' : 'application/yaml',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack'}.pack.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
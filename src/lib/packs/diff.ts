@@ -0,0 +1,67 @@
+import type { PackLevel } from './types';
+
+export type LevelChange = 'added' | 'updated' | 'unchanged';
+
+export interface LevelDiff {
+  title: string;
+  change: LevelChange;
+  changedFields: (keyof PackLevel)[];
+  incoming: PackLevel;
+  existingId: string | null;
+}
+
+export interface PackDiff {
+  levels: LevelDiff[];
+  // Titles of room levels the pack doesn't mention; importing leaves them alone
+  untouched: string[];
+}
+
+const FIELDS: (keyof PackLevel)[] = [
+  'description',
+  'movie_reference',
+  'difficulty',
+  'entry_point',
+  'parameters',
+  'return_type',
+  'starter_code',
+  'tests',
+  'hidden_tests',
+  'solution',
+];
+
+// JSON with sorted keys, so objects that only differ in key order compare equal
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_, inner) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+      : inner
+  ) ?? 'null';
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+// Levels are matched by title, case-insensitively
+export function diffPack(existing: (PackLevel & { id: string })[], incoming: PackLevel[]): PackDiff {
+  const byTitle = new Map(existing.map((level) => [titleKey(level.title), level]));
+
+  const levels = incoming.map((level): LevelDiff => {
+    const current = byTitle.get(titleKey(level.title));
+    if (!current) {
+      return { title: level.title, change: 'added', changedFields: [], incoming: level, existingId: null };
+    }
+
+    const changedFields = FIELDS.filter((field) => canonical(current[field]) !== canonical(level[field]));
+    return {
+      title: level.title,
+      change: changedFields.length > 0 ? 'updated' : 'unchanged',
+      changedFields,
+      incoming: level,
+      existingId: current.id,
+    };
+  });
+
+  const incomingTitles = new Set(incoming.map((level) => titleKey(level.title)));
+  return {
+    levels,
+    untouched: existing.filter((level) => !incomingTitles.has(titleKey(level.title))).map((level) => level.title),
+  };
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export { parsePack, type ParsedPack } from './validate';
+export { downloadPack, levelToPackLevel, serializePack, type LevelRow, type LevelSecrets } from './convert';
+export { diffPack, type LevelChange, type LevelDiff, type PackDiff } from './diff';
+export { fetchRoomPackLevels } from './room';
@@ -0,0 +1,23 @@
+import { fetchHiddenTests, fetchLevels, fetchSolutions } from '../db';
+import { levelToPackLevel } from './convert';
+import type { PackLevel } from './types';
+
+// A room's levels, in position order, with their hidden tests and reference
+// solutions. Only the room creator can read the latter two.
+export async function fetchRoomPackLevels(roomId: string): Promise<(PackLevel & { id: string })[]> {
+  const levels = await fetchLevels(roomId);
+
+  const levelIds = levels.map((level) => level.id);
+  const [hidden, solutions] = await Promise.all([fetchHiddenTests(levelIds), fetchSolutions(levelIds)]);
+
+  return levels.map((level) => {
+    const solution = solutions.find((row) => row.level_id === level.id);
+    return {
+      id: level.id,
+      ...levelToPackLevel(level, {
+        hidden_tests: hidden.filter((row) => row.level_id === level.id),
+        solution: solution ? { language: solution.language, code: solution.code } : null,
+      }),
+    };
+  });
+}
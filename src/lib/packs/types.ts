@@ -0,0 +1,47 @@
+import type { Language, ParameterSpec, ValueType } from '../runner';
+
+// Bump when a change would make older packs import differently, and teach
+// the validator to read (or reject) the older versions.
+export const PACK_VERSION = 1;
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface PackTest {
+  input: string;
+  expected: string;
+  description: string;
+}
+
+export interface PackLevel {
+  title: string;
+  description: string;
+  movie_reference: string;
+  difficulty: Difficulty;
+  entry_point: string;
+  parameters: ParameterSpec[];
+  return_type: ValueType;
+  // The languages a level offers are the keys of its starter code
+  starter_code: Partial<Record<Language, string>>;
+  tests: PackTest[];
+  hidden_tests: PackTest[];
+  solution?: {
+    language: Language;
+    code: string;
+  };
+}
+
+export interface ProblemPack {
+  version: typeof PACK_VERSION;
+  name: string;
+  levels: PackLevel[];
+}
+
+export type PackFormat = 'yaml' | 'json';
+
+export interface PackError {
+  // 1-based, pointing at the offending value in the source text
+  line: number;
+  column: number;
+  path: string;
+  message: string;
+}
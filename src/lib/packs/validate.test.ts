@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { parsePack } from './validate.ts';
+
+const pack = (tests: string, { parameter = 'string', returnType = 'string' } = {}) => `version: 1
+name: Heist
+levels:
+  - title: Vault
+    description: Crack it
+    movie_reference: Ocean's Eleven
+    difficulty: easy
+    entry_point: solve
+    parameters:
+      - name: code
+        type: ${parameter}
+    return_type: ${returnType}
+    starter_code:
+      javascript: "function solve(code) {}"
+    tests:
+${tests}
+`;
+
+const parseTest = (input: string, expected: string, types?: { parameter?: string; returnType?: string }) =>
+  parsePack(pack(`      - input: ${input}\n        expected: ${expected}`, types));
+
+describe('parsePack', () => {
+  it('reads a valid pack', () => {
+    const { pack: parsed, errors } = parseTest('"007"', '"bond"');
+    expect(errors).toEqual([]);
+    expect(parsed?.name).toBe('Heist');
+    expect(parsed?.levels[0]).toMatchObject({
+      title: 'Vault',
+      entry_point: 'solve',
+      parameters: [{ name: 'code', type: 'string' }],
+      starter_code: { javascript: 'function solve(code) {}' },
+      tests: [{ input: '007', expected: 'bond', description: '' }],
+      hidden_tests: [],
+    });
+  });
+
+  it('keeps bare test values as written', () => {
+    const cases: [string, string][] = [
+      ['007', '0.50'],
+      ['1e3', '0x10'],
+    ];
+    for (const [input, expected] of cases) {
+      const { pack: parsed, errors } = parseTest(input, expected);
+      expect(errors).toEqual([]);
+      expect(parsed?.levels[0].tests[0]).toMatchObject({ input, expected });
+    }
+  });
+
+  it('keeps bare booleans and numbers for typed parameters', () => {
+    const { pack: parsed, errors } = parseTest('true', '42', { parameter: 'boolean', returnType: 'number' });
+    expect(errors).toEqual([]);
+    expect(parsed?.levels[0].tests[0]).toMatchObject({ input: 'true', expected: '42' });
+  });
+
+  it('rejects test values that are not scalars', () => {
+    const { pack: parsed, errors } = parseTest('[1, 2]', 'null');
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      { line: 16, column: 16, path: 'levels[0].tests[0].input', message: 'must be a string, number or boolean' },
+      { line: 17, column: 19, path: 'levels[0].tests[0].expected', message: 'must be a string, number or boolean' },
+    ]);
+  });
+
+  it('checks tests against the signature', () => {
+    const { errors } = parseTest('"x"', 'yes', { returnType: 'boolean' });
+    expect(errors).toEqual([
+      { line: 17, column: 19, path: 'levels[0].tests[0].expected', message: '"yes" is not a boolean' },
+    ]);
+  });
+
+  it('reports YAML syntax errors', () => {
+    const { pack: parsed, errors } = parsePack('name: [unclosed');
+    expect(parsed).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(1);
+  });
+
+  it('reports missing and unknown fields', () => {
+    const { errors } = parsePack('version: 1\nlevels: []\nextra: 1\n');
+    expect(errors).toEqual([
+      { line: 1, column: 1, path: '', message: 'missing required field "name"' },
+      { line: 3, column: 1, path: 'extra', message: 'unknown field; expected one of version, name, levels' },
+    ]);
+  });
+
+  it('requires at least one level', () => {
+    const { errors } = parsePack('version: 1\nname: Heist\nlevels: []\n');
+    expect(errors).toEqual([{ line: 3, column: 9, path: 'levels', message: 'must contain at least one level' }]);
+  });
+
+  it('rejects an unsupported version', () => {
+    const { errors } = parsePack('version: 2\nname: Heist\nlevels: []\n');
+    expect(errors[0]).toMatchObject({ path: 'version', line: 1, column: 10 });
+  });
+
+  it('rejects duplicate level titles', () => {
+    const level = pack('      - input: "a"\n        expected: "b"').split('levels:\n')[1];
+    const { errors } = parsePack(`version: 1\nname: Heist\nlevels:\n${level}${level}`);
+    expect(errors).toEqual([
+      expect.objectContaining({ path: 'levels[1].title', message: 'duplicates the title of levels[0]' }),
+    ]);
+  });
+});
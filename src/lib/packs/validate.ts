@@ -0,0 +1,249 @@
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument, type Node } from 'yaml';
+import {
+  LANGUAGES,
+  isLanguage,
+  parseArguments,
+  parseValue,
+  type Language,
+  type ParameterSpec,
+  type ValueType,
+} from '../runner';
+import { PACK_VERSION, type Difficulty, type PackError, type PackLevel, type PackTest, type ProblemPack } from './types';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'json'];
+const PACK_LANGUAGES = Object.keys(LANGUAGES) as Language[];
+
+type Fields = Map<string, Node | null>;
+
+export interface ParsedPack {
+  pack: ProblemPack | null;
+  errors: PackError[];
+}
+
+// Parses a YAML or JSON problem pack (JSON is valid YAML) and checks it against
+// the v1 format. Every error points at the line and column of the value at
+// fault; the pack is only returned when there are none.
+export function parsePack(source: string): ParsedPack {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, uniqueKeys: true });
+  const errors: PackError[] = [];
+
+  for (const error of doc.errors) {
+    const start = error.linePos?.[0] ?? { line: 1, col: 1 };
+    const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    errors.push({ line: start.line, column: start.col, path: '', message });
+  }
+  if (errors.length > 0) return { pack: null, errors };
+
+  const report = (node: unknown, path: string, message: string) => {
+    const offset = isNode(node) && node.range ? node.range[0] : 0;
+    const { line, col } = lineCounter.linePos(offset);
+    errors.push({ line, column: col, path, message });
+  };
+
+  const readMap = (node: unknown, path: string, keys: { required: string[]; optional?: string[] }) => {
+    if (!isMap(node)) {
+      report(node, path, 'must be a mapping');
+      return null;
+    }
+
+    const fields: Fields = new Map();
+    const allowed = [...keys.required, ...(keys.optional ?? [])];
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : '';
+      if (!allowed.includes(key)) {
+        report(pair.key, path ? `${path}.${key}` : key, `unknown field; expected one of ${allowed.join(', ')}`);
+        continue;
+      }
+      fields.set(key, isNode(pair.value) ? pair.value : null);
+    }
+
+    for (const key of keys.required) {
+      if (!fields.has(key)) report(node, path, `missing required field "${key}"`);
+    }
+    return fields;
+  };
+
+  const childPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+  // Test inputs and outputs may be written as bare numbers or booleans. They
+  // keep the text as written, so `007` stays "007" rather than becoming "7"
+  const readString = (fields: Fields, key: string, path: string, { scalars = false } = {}) => {
+    if (!fields.has(key)) return '';
+    const node = fields.get(key);
+    const value = isScalar(node) ? node.value : undefined;
+    if (typeof value === 'string') return value;
+    if (scalars && isScalar(node) && (typeof value === 'number' || typeof value === 'boolean')) {
+      return node.source ?? String(value);
+    }
+    report(node, childPath(path, key), scalars ? 'must be a string, number or boolean' : 'must be a string');
+    return '';
+  };
+
+  const readEnum = <T extends string>(fields: Fields, key: string, path: string, options: T[], fallback: T): T => {
+    if (!fields.has(key)) return fallback;
+    const value = readString(fields, key, path);
+    if ((options as string[]).includes(value)) return value as T;
+    report(fields.get(key), childPath(path, key), `must be one of ${options.join(', ')}`);
+    return fallback;
+  };
+
+  const readSeq = (fields: Fields, key: string, path: string) => {
+    if (!fields.has(key)) return [];
+    const node = fields.get(key);
+    if (!isSeq(node)) {
+      report(node, childPath(path, key), 'must be a list');
+      return [];
+    }
+    return node.items;
+  };
+
+  const readTests = (fields: Fields, key: string, path: string): { tests: PackTest[]; nodes: Fields[] } => {
+    const tests: PackTest[] = [];
+    const nodes: Fields[] = [];
+    readSeq(fields, key, path).forEach((item, index) => {
+      const testPath = `${childPath(path, key)}[${index}]`;
+      const test = readMap(item, testPath, { required: ['input', 'expected'], optional: ['description'] });
+      if (!test) return;
+      tests.push({
+        input: readString(test, 'input', testPath, { scalars: true }),
+        expected: readString(test, 'expected', testPath, { scalars: true }),
+        description: readString(test, 'description', testPath),
+      });
+      nodes.push(test);
+    });
+    return { tests, nodes };
+  };
+
+  const readParameters = (fields: Fields, path: string): ParameterSpec[] =>
+    readSeq(fields, 'parameters', path).map((item, index) => {
+      const paramPath = `${path}.parameters[${index}]`;
+      const param = readMap(item, paramPath, { required: ['name', 'type'] });
+      if (!param) return { name: '', type: 'string' };
+
+      const name = readString(param, 'name', paramPath);
+      if (name && !IDENTIFIER.test(name)) report(param.get('name'), `${paramPath}.name`, 'must be a valid identifier');
+      return { name, type: readEnum(param, 'type', paramPath, VALUE_TYPES, 'string') };
+    });
+
+  const readLevel = (item: unknown, path: string): PackLevel | null => {
+    const fields = readMap(item, path, {
+      required: ['title', 'description', 'movie_reference', 'difficulty', 'entry_point', 'starter_code', 'tests'],
+      optional: ['parameters', 'return_type', 'hidden_tests', 'solution'],
+    });
+    if (!fields) return null;
+
+    const entryPoint = readString(fields, 'entry_point', path);
+    if (entryPoint && !IDENTIFIER.test(entryPoint)) {
+      report(fields.get('entry_point'), `${path}.entry_point`, 'must be a valid function name');
+    }
+
+    const parameters = readParameters(fields, path);
+    const returnType = readEnum(fields, 'return_type', path, VALUE_TYPES, 'string');
+
+    const starterCode: PackLevel['starter_code'] = {};
+    const starterFields = fields.has('starter_code')
+      ? readMap(fields.get('starter_code'), `${path}.starter_code`, {
+          required: [],
+          optional: PACK_LANGUAGES,
+        })
+      : null;
+    if (starterFields) {
+      for (const language of starterFields.keys()) {
+        if (isLanguage(language)) starterCode[language] = readString(starterFields, language, `${path}.starter_code`);
+      }
+      if (starterFields.size === 0) {
+        report(fields.get('starter_code'), `${path}.starter_code`, 'must provide starter code for at least one language');
+      }
+    }
+
+    const visible = readTests(fields, 'tests', path);
+    if (fields.has('tests') && visible.tests.length === 0) {
+      report(fields.get('tests'), `${path}.tests`, 'must contain at least one sample test');
+    }
+    const hidden = readTests(fields, 'hidden_tests', path);
+
+    // Check every test against the signature so a broken pack fails here
+    // rather than in front of participants
+    const checkTests = ({ tests, nodes }: { tests: PackTest[]; nodes: Fields[] }, key: string) =>
+      tests.forEach((test, index) => {
+        const testPath = `${path}.${key}[${index}]`;
+        try {
+          parseArguments(test.input, parameters);
+        } catch (err) {
+          report(nodes[index].get('input'), `${testPath}.input`, (err as Error).message);
+        }
+        try {
+          parseValue(test.expected, returnType);
+        } catch (err) {
+          report(nodes[index].get('expected'), `${testPath}.expected`, (err as Error).message);
+        }
+      });
+    checkTests(visible, 'tests');
+    checkTests(hidden, 'hidden_tests');
+
+    let solution: PackLevel['solution'];
+    if (fields.has('solution')) {
+      const solutionPath = `${path}.solution`;
+      const solutionFields = readMap(fields.get('solution'), solutionPath, { required: ['language', 'code'] });
+      if (solutionFields) {
+        solution = {
+          language: readEnum(solutionFields, 'language', solutionPath, PACK_LANGUAGES, 'javascript'),
+          code: readString(solutionFields, 'code', solutionPath),
+        };
+      }
+    }
+
+    return {
+      title: readString(fields, 'title', path),
+      description: readString(fields, 'description', path),
+      movie_reference: readString(fields, 'movie_reference', path),
+      difficulty: readEnum(fields, 'difficulty', path, DIFFICULTIES, 'easy'),
+      entry_point: entryPoint,
+      parameters,
+      return_type: returnType,
+      starter_code: starterCode,
+      tests: visible.tests,
+      hidden_tests: hidden.tests,
+      ...(solution && { solution }),
+    };
+  };
+
+  const root = readMap(doc.contents, '', { required: ['version', 'name', 'levels'] });
+  if (!root) return { pack: null, errors };
+
+  if (root.has('version')) {
+    const version = root.get('version');
+    if (!isScalar(version) || version.value !== PACK_VERSION) {
+      report(version, 'version', `unsupported pack version; this CodeChase reads version ${PACK_VERSION}`);
+    }
+  }
+
+  const name = readString(root, 'name', '');
+  const levels: PackLevel[] = [];
+  const seenTitles = new Map<string, number>();
+  readSeq(root, 'levels', '').forEach((item, index) => {
+    const level = readLevel(item, `levels[${index}]`);
+    if (!level) return;
+
+    // Imports match existing levels by title, so titles must be unique
+    const key = level.title.trim().toLowerCase();
+    if (seenTitles.has(key)) {
+      report(item, `levels[${index}].title`, `duplicates the title of levels[${seenTitles.get(key)}]`);
+    }
+    seenTitles.set(key, index);
+    levels.push(level);
+  });
+
+  if (root.has('levels') && levels.length === 0 && errors.length === 0) {
+    report(root.get('levels'), 'levels', 'must contain at least one level');
+  }
+
+  if (errors.length > 0) {
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { pack: null, errors };
+  }
+  return { pack: { version: PACK_VERSION, name, levels }, errors };
+}
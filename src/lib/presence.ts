@@ -0,0 +1,26 @@
+// Private topic every participant of a room and its creator share for
+// presence. Only they can join it (see can_use_room_topic).
+export const roomTopic = (roomId: string) => `room:${roomId}`;
+
+// coding: typed in the last few seconds. idle: nothing for a while, or the
+// tab is in the background. online: anything in between.
+export type PresenceStatus = 'online' | 'idle' | 'coding';
+
+// What each client tracks on the room topic, keyed by user id
+export interface RoomPresence {
+  user_id: string;
+  username: string;
+  status: PresenceStatus;
+}
+
+export const presenceLabels: Record<PresenceStatus, string> = {
+  online: 'Online',
+  idle: 'Idle',
+  coding: 'Coding',
+};
+
+export const presenceStyles: Record<PresenceStatus, string> = {
+  online: 'bg-green-400',
+  idle: 'bg-yellow-400',
+  coding: 'bg-purple-400 animate-pulse',
+};
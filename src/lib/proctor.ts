@@ -0,0 +1,30 @@
+import type { Language } from './runner';
+
+// Private broadcast topic shared by one participant and the room's creator.
+// Only those two can join it (see can_use_proctor_topic).
+export const proctorTopic = (roomId: string, userId: string) => `proctor:${roomId}:${userId}`;
+
+// Broadcast events on a proctor topic
+export const ProctorEvent = {
+  // Participant → organizer: what they are working on right now
+  state: 'state',
+  // Participant → organizer: a submission was graded, refetch their row
+  submitted: 'submitted',
+  // Organizer → participant: send your state now
+  sync: 'sync',
+  // Organizer → participant: a moderation action was taken
+  moderation: 'moderation',
+} as const;
+
+export interface ParticipantState {
+  level_id: string;
+  level_title: string;
+  language: Language;
+  code: string;
+}
+
+export type ModerationNotice =
+  | { action: 'kicked' }
+  | { action: 'muted'; muted: boolean }
+  | { action: 'chat_muted'; muted: boolean }
+  | { action: 'reset' };
@@ -0,0 +1,29 @@
+import type { Location } from 'react-router-dom';
+
+// Route state carried to the login page when a guarded route bounces a
+// signed-out visitor, so they can be sent back after signing in.
+export interface ReturnState {
+  from?: Location;
+}
+
+export const returnPath = (state: unknown) => {
+  const from = (state as ReturnState | null)?.from;
+  return from ? `${from.pathname}${from.search}${from.hash}` : '/dashboard';
+};
+
+// Paths from links and query strings are only followed when they stay on
+// this origin, so a crafted link can't bounce a user to another site.
+export const safePath = (path: string | null) =>
+  path && path.startsWith('/') && !/^\/[/\\]/.test(path) ? path : '/dashboard';
+
+// Where magic links and OAuth providers send the user back to
+export const authCallbackUrl = (next: string) =>
+  `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`;
+
+// GoTrue reports a failed or expired email link in the query string or the
+// hash of the URL it redirects to
+export const authErrorFromUrl = () => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  return query.get('error_description') ?? hash.get('error_description');
+};
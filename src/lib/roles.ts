@@ -0,0 +1,11 @@
+export type Role = 'player' | 'organizer' | 'superadmin';
+
+const ROLE_RANK: Record<Role, number> = {
+  player: 0,
+  organizer: 1,
+  superadmin: 2,
+};
+
+// Mirrors public.has_role: superadmins can do everything organizers can
+export const hasRole = (role: Role | null, required: Role) =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
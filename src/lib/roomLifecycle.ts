@@ -0,0 +1,50 @@
+export type RoomStatus = 'draft' | 'lobby' | 'running' | 'paused' | 'finished' | 'archived';
+
+// Mirrors public.room_transition_allowed, which has the final say
+export const ROOM_TRANSITIONS: Record<RoomStatus, RoomStatus[]> = {
+  draft: ['lobby'],
+  lobby: ['draft', 'running'],
+  running: ['paused', 'finished'],
+  paused: ['running', 'finished'],
+  finished: ['archived'],
+  archived: ['finished'],
+};
+
+// Rooms players can see on the dashboard and wait or play in
+export const OPEN_ROOM_STATUSES: RoomStatus[] = ['lobby', 'running', 'paused'];
+
+export const roomStatusLabels: Record<RoomStatus, string> = {
+  draft: 'Draft',
+  lobby: 'Lobby',
+  running: 'Running',
+  paused: 'Paused',
+  finished: 'Finished',
+  archived: 'Archived',
+};
+
+export const roomStatusStyles: Record<RoomStatus, string> = {
+  draft: 'bg-white/5 text-gray-300',
+  lobby: 'bg-blue-500/20 text-blue-300',
+  running: 'bg-green-500/20 text-green-300',
+  paused: 'bg-yellow-500/20 text-yellow-300',
+  finished: 'bg-purple-500/20 text-purple-300',
+  archived: 'bg-white/5 text-gray-500',
+};
+
+// What the organizer's button says for moving a room from one state to another
+export const transitionLabel = (from: RoomStatus, to: RoomStatus) => {
+  switch (to) {
+    case 'draft':
+      return 'Back to Draft';
+    case 'lobby':
+      return 'Open Lobby';
+    case 'running':
+      return from === 'paused' ? 'Resume' : 'Start';
+    case 'paused':
+      return 'Pause';
+    case 'finished':
+      return from === 'archived' ? 'Unarchive' : 'Finish';
+    case 'archived':
+      return 'Archive';
+  }
+};
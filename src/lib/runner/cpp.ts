@@ -0,0 +1,269 @@
+import type { FunctionSignature, TestCase, TestResult } from './types.ts';
+import { deepEqual, formatValue, parseArguments, parseValue } from './values.ts';
+
+// C++ can't be compiled in the browser or in the grader's workers. It is sent
+// to a Piston-compatible execution service (https://github.com/engineer-man/piston),
+// which compiles the player's code with a generated main() and runs it in its
+// own sandbox. One program runs every test, printing a marker line before and
+// after each so its output can be split back into per-test results. The
+// marker is random per program, so player output can't pass for a result.
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export interface CppRunOptions {
+  runnerURL: string;
+  timeoutMs: number;
+  stdoutLimit: number;
+}
+
+interface PistonStage {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+  signal: string | null;
+  // 'TO' when the run timed out, on Piston versions that report it
+  status?: string | null;
+}
+
+interface PistonResponse {
+  compile?: PistonStage;
+  run?: PistonStage;
+  message?: string;
+}
+
+// Characters outside printable ASCII are written as octal escapes, which
+// unlike hex escapes never swallow the digits after them
+const quote = (value: string) =>
+  `std::string("${Array.from(new TextEncoder().encode(value), (byte) => {
+    if (byte === 0x22) return '\\"';
+    if (byte === 0x5c) return '\\\\';
+    if (byte === 0x3f) return '\\?';
+    if (byte < 0x20 || byte >= 0x7f) return `\\${byte.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(byte);
+  }).join('')}", ${new TextEncoder().encode(value).length})`;
+
+// Turns a parsed argument into a C++ expression. Arrays become brace lists,
+// so they bind to std::vector parameters (nested arrays to nested vectors).
+export function cppLiteral(value: unknown): string {
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return `{${value.map(cppLiteral).join(', ')}}`;
+  throw new TypeError('C++ levels only take strings, numbers, booleans and arrays as arguments');
+}
+
+const HARNESS_PRELUDE = `#include <chrono>
+#include <exception>
+#include <iomanip>
+#include <iostream>
+#include <sstream>
+#include <string>
+#include <type_traits>
+#include <vector>
+`;
+
+const HARNESS_HELPERS = `
+namespace codechase {
+inline std::string json(const std::string& value) {
+  std::ostringstream out;
+  out << '"';
+  for (unsigned char c : value) {
+    if (c == '"' || c == '\\\\') out << '\\\\' << c;
+    else if (c == '\\n') out << "\\\\n";
+    else if (c < 0x20) out << "\\\\u" << std::hex << std::setw(4) << std::setfill('0') << int(c) << std::dec;
+    else out << c;
+  }
+  out << '"';
+  return out.str();
+}
+inline std::string json(const char* value) { return json(std::string(value)); }
+inline std::string json(bool value) { return value ? "true" : "false"; }
+inline std::string json(char value) { return json(std::string(1, value)); }
+template <typename T>
+typename std::enable_if<std::is_arithmetic<T>::value, std::string>::type json(T value) {
+  std::ostringstream out;
+  out << std::setprecision(17) << value;
+  return out.str();
+}
+template <typename T>
+std::string json(const std::vector<T>& values) {
+  std::string out = "[";
+  for (std::size_t i = 0; i < values.size(); ++i) {
+    if (i > 0) out += ",";
+    out += json(static_cast<T>(values[i]));
+  }
+  return out + "]";
+}
+inline long long elapsed(std::chrono::steady_clock::time_point started) {
+  return std::chrono::duration_cast<std::chrono::microseconds>(std::chrono::steady_clock::now() - started).count();
+}
+}  // namespace codechase
+`;
+
+const testBlock = (marker: string, index: number, entryPoint: string, args: string[]) => `
+  {
+    std::cout << "\\n${marker} start ${index}" << std::endl;
+    auto started = std::chrono::steady_clock::now();
+    try {
+      auto result = ${entryPoint}(${args.join(', ')});
+      std::cout << "\\n${marker} result ${index} " << codechase::elapsed(started) << " " << codechase::json(result) << std::endl;
+    } catch (const std::exception& err) {
+      std::cout << "\\n${marker} error ${index} " << codechase::elapsed(started) << " " << codechase::json(std::string(err.what())) << std::endl;
+    } catch (...) {
+      std::cout << "\\n${marker} error ${index} " << codechase::elapsed(started) << " \\"Unknown exception\\"" << std::endl;
+    }
+  }`;
+
+const errorResult = (message: string, runtimeMs = 0, stdout: string[] = []): TestResult => ({
+  status: 'error',
+  message,
+  runtimeMs,
+  stdout,
+});
+
+const serviceError = (message: string) => errorResult(`RunnerError: ${message}`);
+
+// Posts one program to the execution service
+async function execute(runnerURL: string, source: string, runTimeoutMs: number): Promise<PistonResponse> {
+  const response = await fetch(`${runnerURL.replace(/\/$/, '')}/api/v2/execute`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      language: 'c++',
+      version: '*',
+      files: [{ name: 'main.cpp', content: source }],
+      compile_timeout: 10_000,
+      run_timeout: runTimeoutMs,
+    }),
+  });
+  const body = (await response.json().catch(() => ({}))) as PistonResponse;
+  if (!response.ok) {
+    throw new Error(body.message ?? `The C++ runner answered ${response.status}`);
+  }
+  return body;
+}
+
+// Runs the tests in one program. Like a crashed worker, a program that is
+// killed ends the batch early: the results so far are returned and the caller
+// runs the rest in a new program.
+async function runBatch(
+  code: string,
+  tests: TestCase[],
+  signature: FunctionSignature,
+  { runnerURL, timeoutMs, stdoutLimit }: CppRunOptions
+): Promise<TestResult[]> {
+  // Tests whose input doesn't fit the signature fail without running
+  const prepared = tests.map((test) => {
+    try {
+      return { args: parseArguments(test.input, signature.parameters).map(cppLiteral) };
+    } catch (err) {
+      return { error: errorResult(`${(err as Error).name}: ${(err as Error).message}`) };
+    }
+  });
+
+  const marker = `@@codechase-${crypto.randomUUID()}`;
+  const blocks = prepared.flatMap((test, index) =>
+    test.args ? [testBlock(marker, index, signature.entryPoint, test.args)] : []
+  );
+  if (blocks.length === 0) return prepared.map((test) => test.error!);
+
+  // #line keeps compiler errors pointing at the player's own line numbers
+  const source = `${HARNESS_PRELUDE}#line 1 "solution.cpp"\n${code}\n#line 1 "harness.cpp"${HARNESS_HELPERS}\nint main() {${blocks.join('')}\n  return 0;\n}\n`;
+
+  let response: PistonResponse;
+  try {
+    response = await execute(runnerURL, source, timeoutMs * blocks.length);
+  } catch (err) {
+    return tests.map(() => serviceError((err as Error).message));
+  }
+
+  if (response.compile && response.compile.code !== 0) {
+    const message = `CompileError: ${(response.compile.stderr || response.compile.stdout).trim()}`;
+    return tests.map(() => errorResult(message));
+  }
+  if (!response.run) {
+    return tests.map(() => serviceError('The program did not run'));
+  }
+
+  // Splits stdout into each test's output and outcome
+  const outcomes = new Map<number, { kind: string; micros: number; payload: string }>();
+  const output = new Map<number, string[]>();
+  let current: number | null = null;
+  for (const line of response.run.stdout.split('\n')) {
+    if (line.startsWith(`${marker} `)) {
+      const [, kind, index, micros, ...payload] = line.split(' ');
+      if (kind === 'start') {
+        current = Number(index);
+        output.set(current, []);
+      } else {
+        outcomes.set(Number(index), { kind, micros: Number(micros), payload: payload.join(' ') });
+        current = null;
+      }
+      continue;
+    }
+    if (current === null || line === '') continue;
+    const lines = output.get(current)!;
+    if (lines.length < stdoutLimit) lines.push(line);
+    else if (lines.length === stdoutLimit) lines.push('… output truncated');
+  }
+
+  const results: TestResult[] = [];
+  for (const [index, test] of prepared.entries()) {
+    if (test.error) {
+      results.push(test.error);
+      continue;
+    }
+    const stdout = output.get(index) ?? [];
+    const outcome = outcomes.get(index);
+    if (!outcome) {
+      // The program was killed during this test; the rest run in a new program
+      const { signal, status, code: exitCode, stderr } = response.run;
+      if (status === 'TO' || signal === 'SIGKILL') {
+        results.push({ status: 'timeout', message: `Timed out after ${timeoutMs}ms`, runtimeMs: timeoutMs, stdout });
+      } else {
+        const reason = signal ? `The program crashed (${signal})` : `The program exited with code ${exitCode}`;
+        results.push(errorResult(stderr.trim() || reason, 0, stdout));
+      }
+      return results;
+    }
+
+    const runtimeMs = outcome.micros / 1000;
+    if (outcome.kind === 'error') {
+      results.push(errorResult(`Error: ${JSON.parse(outcome.payload)}`, runtimeMs, stdout));
+    } else if (runtimeMs > timeoutMs) {
+      results.push({ status: 'timeout', message: `Timed out after ${timeoutMs}ms`, runtimeMs, stdout });
+    } else {
+      try {
+        const actual: unknown = JSON.parse(outcome.payload);
+        const passed = deepEqual(actual, parseValue(tests[index].expected, signature.returnType));
+        results.push({
+          status: passed ? 'passed' : 'failed',
+          message: passed ? 'Test passed!' : 'Test failed',
+          output: formatValue(actual),
+          runtimeMs,
+          stdout,
+        });
+      } catch (err) {
+        results.push(errorResult(`${(err as Error).name}: ${(err as Error).message}`, runtimeMs, stdout));
+      }
+    }
+  }
+  return results;
+}
+
+export async function runCppTests(
+  code: string,
+  tests: TestCase[],
+  signature: FunctionSignature,
+  options: CppRunOptions
+): Promise<TestResult[]> {
+  if (!IDENTIFIER.test(signature.entryPoint)) {
+    return tests.map(() => errorResult(`SyntaxError: "${signature.entryPoint}" is not a valid function name`));
+  }
+
+  const results: TestResult[] = [];
+  while (results.length < tests.length) {
+    results.push(...(await runBatch(code, tests.slice(results.length), signature, options)));
+  }
+  return results;
+}
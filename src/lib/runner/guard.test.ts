@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { instrumentLoops } from './guard.ts';
+
+const guard = (source: string) => instrumentLoops(source, 'g');
+
+describe('instrumentLoops', () => {
+  it('guards braced loop bodies', () => {
+    expect(guard('for (let i = 0; i < 3; i++) { x(); }')).toBe('for (let i = 0; i < 3; i++) { g(); x(); }');
+    expect(guard('while (true) {}')).toBe('while (true) { g();}');
+    expect(guard('do { x(); } while (y);')).toBe('do { g(); x(); } while (y);');
+  });
+
+  it('ignores loop keywords in strings and comments', () => {
+    const source = '"while (a) {"; // for (;;) {\n/* do { */';
+    expect(guard(source)).toBe(source);
+  });
+
+  it('skips a regex literal holding a quote', () => {
+    expect(guard("const r = /'/; while (a) { b(); }")).toBe("const r = /'/; while (a) { g(); b(); }");
+    expect(guard('s.replace(/"/g, ""); for (;;) {}')).toBe('s.replace(/"/g, ""); for (;;) { g();}');
+  });
+
+  it('skips a regex literal inside a loop head', () => {
+    expect(guard('for (const m of s.match(/[)]/g)) { f(m); }')).toBe(
+      'for (const m of s.match(/[)]/g)) { g(); f(m); }'
+    );
+  });
+
+  it('reads a slash after a value as division', () => {
+    expect(guard("const half = n / 2; const q = '/'; while (a) {}")).toBe(
+      "const half = n / 2; const q = '/'; while (a) { g();}"
+    );
+    expect(guard('const r = (a) / (b) / 2; for (;;) {}')).toBe('const r = (a) / (b) / 2; for (;;) { g();}');
+  });
+
+  it('reads a slash after return as a regex', () => {
+    expect(guard("function f(s) { return /'/.test(s); } while (a) {}")).toBe(
+      "function f(s) { return /'/.test(s); } while (a) { g();}"
+    );
+  });
+
+  it('guards a loop after a template nested in a template expression', () => {
+    expect(guard('const s = `${`x`}`; while (a) { b(); }')).toBe('const s = `${`x`}`; while (a) { g(); b(); }');
+    expect(guard("const s = `${'`'}`; for (;;) {}")).toBe("const s = `${'`'}`; for (;;) { g();}");
+    expect(guard('const s = `a${{ b: `${c}` }.b}d`; do {} while (e);')).toBe(
+      'const s = `a${{ b: `${c}` }.b}d`; do { g();} while (e);'
+    );
+  });
+
+  it('guards loops inside template expressions but not in template text', () => {
+    expect(guard('`for (;;) {${(() => { while (a) {} })()}`')).toBe(
+      '`for (;;) {${(() => { while (a) { g();} })()}`'
+    );
+  });
+
+  it('skips a nested template inside a loop head', () => {
+    expect(guard('for (const k of f(`${`)`}`)) { h(k); }')).toBe('for (const k of f(`${`)`}`)) { g(); h(k); }');
+  });
+});
@@ -0,0 +1,221 @@
+// Inserts a call to `guardName` at the top of every braced loop body so
+// runaway loops can be stopped from inside the worker before the timeout
+// kicks in. This is a lightweight scanner rather than a parser: it skips
+// strings, template literal text, regex literals and comments (code inside
+// `${...}` is still scanned), and leaves loops without braces to the timeout.
+
+// Keywords after which a `/` starts a regex literal rather than a division
+const REGEX_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+]);
+
+export function instrumentLoops(source: string, guardName: string): string {
+  const insertions: number[] = [];
+  // Brace depth at each open `${`, so the `}` that closes a template
+  // expression isn't taken for the end of a block
+  const templates: number[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const skipLiteral = (start: number): number => {
+    const quote = source[start];
+    let j = start + 1;
+    while (j < source.length && source[j] !== quote) {
+      if (source[j] === '\\') j++;
+      j++;
+    }
+    return j + 1;
+  };
+
+  // The closing backtick of the template text starting at `start`, the `$`
+  // of its next `${`, or the end of the source
+  const templateTextEnd = (start: number): number => {
+    let j = start;
+    while (j < source.length && source[j] !== '`' && !source.startsWith('${', j)) {
+      if (source[j] === '\\') j++;
+      j++;
+    }
+    return j;
+  };
+
+  // A `/` right after a value (a name, number, string or closing bracket) is
+  // a division; anywhere else it starts a regex literal
+  const startsRegex = (start: number): boolean => {
+    let j = start - 1;
+    while (j >= 0 && /\s/.test(source[j])) j--;
+    if (j < 0) return true;
+    if (/[\w$]/.test(source[j])) {
+      let k = j;
+      while (k >= 0 && /[\w$]/.test(source[k])) k--;
+      return REGEX_KEYWORDS.has(source.slice(k + 1, j + 1));
+    }
+    return !/[)\]"'`]/.test(source[j]);
+  };
+
+  // A regex literal can't span lines, so one that doesn't close on its line
+  // wasn't a regex after all and only the `/` is skipped
+  const skipRegex = (start: number): number => {
+    let j = start + 1;
+    let inClass = false;
+    while (j < source.length && source[j] !== '\n') {
+      const char = source[j];
+      if (char === '\\') {
+        j++;
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      } else if (char === '/' && !inClass) {
+        j++;
+        while (j < source.length && /[\w$]/.test(source[j])) j++;
+        return j;
+      }
+      j++;
+    }
+    return start + 1;
+  };
+
+  const isRegexStart = (start: number) =>
+    source[start] === '/' && source[start + 1] !== '/' && source[start + 1] !== '*' && startsRegex(start);
+
+  const skipTrivia = (start: number): number => {
+    let j = start;
+    while (j < source.length) {
+      if (/\s/.test(source[j])) {
+        j++;
+      } else if (source.startsWith('//', j)) {
+        const end = source.indexOf('\n', j);
+        j = end === -1 ? source.length : end + 1;
+      } else if (source.startsWith('/*', j)) {
+        const end = source.indexOf('*/', j + 2);
+        j = end === -1 ? source.length : end + 2;
+      } else {
+        break;
+      }
+    }
+    return j;
+  };
+
+  // Skips a bracketed group, such as a loop head or a template expression,
+  // along with any strings, templates, regex literals and comments inside it
+  const skipGroup = (start: number, open: string, close: string): number => {
+    let groupDepth = 0;
+    let j = start;
+    while (j < source.length) {
+      const char = source[j];
+      if (char === '"' || char === "'") {
+        j = skipLiteral(j);
+        continue;
+      }
+      if (char === '`') {
+        j = skipTemplate(j);
+        continue;
+      }
+      if (source.startsWith('//', j) || source.startsWith('/*', j)) {
+        j = skipTrivia(j);
+        continue;
+      }
+      if (isRegexStart(j)) {
+        j = skipRegex(j);
+        continue;
+      }
+      if (char === open) groupDepth++;
+      if (char === close) {
+        groupDepth--;
+        if (groupDepth === 0) return j + 1;
+      }
+      j++;
+    }
+    return j;
+  };
+
+  const skipTemplate = (start: number): number => {
+    let j = templateTextEnd(start + 1);
+    while (source.startsWith('${', j)) j = templateTextEnd(skipGroup(j + 1, '{', '}'));
+    return j + 1;
+  };
+
+  // Continues a template literal at `start`, either to its end or into the
+  // next `${`, whose code the main loop then scans
+  const resumeTemplate = (start: number): number => {
+    const end = templateTextEnd(start);
+    if (!source.startsWith('${', end)) return end + 1;
+    templates.push(depth);
+    return end + 2;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '"' || char === "'") {
+      i = skipLiteral(i);
+      continue;
+    }
+
+    if (char === '`') {
+      i = resumeTemplate(i + 1);
+      continue;
+    }
+
+    if (char === '}' && templates[templates.length - 1] === depth) {
+      templates.pop();
+      i = resumeTemplate(i + 1);
+      continue;
+    }
+
+    if (source.startsWith('//', i) || source.startsWith('/*', i)) {
+      i = skipTrivia(i);
+      continue;
+    }
+
+    if (isRegexStart(i)) {
+      i = skipRegex(i);
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      let end = i;
+      while (end < source.length && /[\w$]/.test(source[end])) end++;
+      const word = source.slice(i, end);
+      const preceding = i > 0 ? source[i - 1] : '';
+
+      if (preceding !== '.' && (word === 'for' || word === 'while' || word === 'do')) {
+        let next = skipTrivia(end);
+        let isLoopHead = word === 'do';
+        if (!isLoopHead && source[next] === '(') {
+          next = skipTrivia(skipGroup(next, '(', ')'));
+          isLoopHead = true;
+        }
+        if (isLoopHead && source[next] === '{') {
+          insertions.push(next + 1);
+        }
+      }
+
+      i = end;
+      continue;
+    }
+
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    i++;
+  }
+
+  let result = source;
+  for (const position of insertions.reverse()) {
+    result = `${result.slice(0, position)} ${guardName}();${result.slice(position)}`;
+  }
+  return result;
+}
@@ -0,0 +1,91 @@
+import { fileURLToPath } from 'node:url';
+import { Worker as ThreadWorker } from 'node:worker_threads';
+import { buildSync } from 'esbuild';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { runTestCases, type FunctionSignature } from './index.ts';
+
+// Node has no Web Workers, so the worker script runs in a worker thread: a
+// separate realm, as in the browser and the grader. The prelude gives it the
+// `self`, `postMessage` and `onmessage` of a dedicated worker.
+const PRELUDE = `{
+  const { parentPort } = require('node:worker_threads');
+  const global = globalThis;
+  global.self = global;
+  global.postMessage = (data) => parentPort.postMessage(data);
+  parentPort.on('message', (data) => global.onmessage?.({ data }));
+}
+`;
+
+const bundles = new Map<string, string>();
+
+class NodeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  private thread: ThreadWorker;
+
+  constructor(url: URL | string) {
+    const path = fileURLToPath(url);
+    if (!bundles.has(path)) {
+      const { outputFiles } = buildSync({
+        entryPoints: [path],
+        bundle: true,
+        format: 'cjs',
+        platform: 'node',
+        write: false,
+        external: ['pyodide'],
+      });
+      bundles.set(path, outputFiles[0].text);
+    }
+    this.thread = new ThreadWorker(PRELUDE + bundles.get(path), { eval: true });
+    this.thread.on('message', (data) => this.onmessage?.({ data }));
+    this.thread.on('error', (err) => this.onerror?.({ message: err.message, preventDefault: () => {} }));
+  }
+
+  postMessage(data: unknown) {
+    this.thread.postMessage(data);
+  }
+
+  terminate() {
+    void this.thread.terminate();
+  }
+}
+
+const signature: FunctionSignature = {
+  entryPoint: 'solve',
+  parameters: [{ name: 'x', type: 'number' }],
+  returnType: 'number',
+};
+const tests = [
+  { input: '1', expected: '2', description: '' },
+  { input: '5', expected: '10', description: '' },
+];
+const run = async (code: string) => (await runTestCases(code, tests, signature)).map((result) => result.status);
+
+describe('runTestCases', () => {
+  beforeAll(() => {
+    vi.stubGlobal('Worker', NodeWorker);
+  });
+
+  it('passes a correct solution and fails a wrong one', async () => {
+    expect(await run('function solve(x) { return x * 2; }')).toEqual(['passed', 'passed']);
+    expect(await run('function solve(x) { return x; }')).toEqual(['failed', 'failed']);
+  });
+
+  it('is not fooled by a solution that overrides Object.is', async () => {
+    expect(await run('Object.is = () => true; function solve() { return 0; }')).toEqual(['failed', 'failed']);
+  });
+
+  it('is not fooled by a solution that patches the built-ins deepEqual uses', async () => {
+    const code = `
+      Array.isArray = () => true;
+      Array.prototype.every = () => true;
+      Object.keys = () => [];
+      function solve() { return {}; }
+    `;
+    expect(await run(code)).toEqual(['failed', 'failed']);
+  });
+
+  it('reports a return value that cannot be sent back as an error', async () => {
+    expect(await run('function solve() { return () => 2; }')).toEqual(['error', 'error']);
+  });
+});
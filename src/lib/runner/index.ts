@@ -0,0 +1,206 @@
+import type {
+  FunctionSignature,
+  RunnerOptions,
+  TestCase,
+  TestResult,
+  ValueType,
+  WorkerOutcome,
+  WorkerRequest,
+  WorkerResponse,
+} from './types.ts';
+import { runCppTests } from './cpp.ts';
+import { transpileTypeScript } from './typescript.ts';
+import { deepEqual, formatValue, parseValue } from './values.ts';
+
+export type {
+  FunctionSignature,
+  ParameterSpec,
+  RunnerOptions,
+  TestCase,
+  TestResult,
+  TestStatus,
+  ValueType,
+} from './types.ts';
+export { deepEqual, parseArguments, parseValue } from './values.ts';
+export { LANGUAGES, isLanguage, type Language, type LanguageInfo } from './languages.ts';
+
+export const DEFAULT_TIMEOUT_MS = 2000;
+export const DEFAULT_LOAD_TIMEOUT_MS = 30_000;
+export const DEFAULT_ITERATION_LIMIT = 10_000_000;
+export const DEFAULT_STDOUT_LIMIT = 200;
+
+// Pyodide's runtime files are copied to `<base>/pyodide/` by vite.config.ts.
+// Outside Vite (the grader) there is no env and Pyodide finds its own files.
+const defaultPyodideIndexURL = import.meta.env?.BASE_URL ? `${import.meta.env.BASE_URL}pyodide/` : undefined;
+
+// Workers get no env, net, run, write, ffi or sys access on the server (a
+// Deno-only option that browsers ignore). Python starts with read access for
+// Pyodide's runtime files and the worker revokes it before running player
+// code. Vite needs the options written out literally.
+const createWorker = (runtime: WorkerRequest['runtime']) =>
+  runtime === 'python'
+    ? new Worker(new URL('./worker.ts', import.meta.url), {
+        type: 'module',
+        deno: {
+          permissions: { env: false, ffi: false, net: false, run: false, sys: false, write: false, read: true },
+        },
+      } as WorkerOptions)
+    : new Worker(new URL('./worker.ts', import.meta.url), {
+        type: 'module',
+        deno: { permissions: 'none' },
+      } as WorkerOptions);
+
+const compileError = (err: unknown): TestResult => ({
+  status: 'error',
+  message: err instanceof Error ? `${err.name}: ${err.message}` : String(err),
+  runtimeMs: 0,
+  stdout: [],
+});
+
+// Decides a test's verdict from what the worker reported. It runs here rather
+// than in the worker, whose built-ins the player's code may have patched.
+function judge(outcome: WorkerOutcome, test: TestCase, returnType: ValueType): TestResult {
+  const stdout = Array.isArray(outcome.stdout) ? outcome.stdout.map(String) : [];
+  const runtimeMs = Number(outcome.runtimeMs) || 0;
+  if (outcome.status !== 'returned') {
+    return { status: 'error', message: String(outcome.message), runtimeMs, stdout, stack: outcome.stack };
+  }
+
+  try {
+    const passed = deepEqual(outcome.value, parseValue(test.expected, returnType));
+    return {
+      status: passed ? 'passed' : 'failed',
+      message: passed ? 'Test passed!' : 'Test failed',
+      output: formatValue(outcome.value),
+      runtimeMs,
+      stdout,
+    };
+  } catch (err) {
+    return { ...compileError(err), runtimeMs, stdout };
+  }
+}
+
+// Runs the tests in a fresh, dedicated worker, each under its own timeout.
+// The worker is terminated as soon as a test times out or crashes, so a hung
+// test can never leak into the next one; the results so far are returned and
+// the caller starts a new worker for the rest.
+// `code` must already be JavaScript or Python.
+function runInWorker(
+  request: WorkerRequest,
+  tests: TestCase[],
+  timeoutMs: number,
+  loadTimeoutMs: number
+): Promise<TestResult[]> {
+  return new Promise((resolve) => {
+    const worker = createWorker(request.runtime);
+    const results: TestResult[] = [];
+    let startedAt = performance.now();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(results);
+    };
+
+    const fail = (result: TestResult) => {
+      results.push(result);
+      finish();
+    };
+
+    const startTimer = (ms: number, message: string) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        fail({ status: 'timeout', message, runtimeMs: ms, stdout: [] });
+      }, ms);
+    };
+
+    startTimer(loadTimeoutMs, `The ${request.runtime} runtime did not start within ${loadTimeoutMs}ms`);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === 'ready') {
+        startedAt = performance.now();
+        startTimer(timeoutMs, `Timed out after ${timeoutMs}ms`);
+        return;
+      }
+      results.push(judge(event.data.outcome, tests[results.length], request.signature.returnType));
+      if (results.length === tests.length) finish();
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail({
+        status: 'error',
+        message: event.message || 'The test runner crashed (possibly out of memory)',
+        runtimeMs: performance.now() - startedAt,
+        stdout: [],
+      });
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+export async function runTestCase(
+  code: string,
+  test: TestCase,
+  signature: FunctionSignature,
+  options: RunnerOptions = {}
+): Promise<TestResult> {
+  const [result] = await runTestCases(code, [test], signature, options);
+  return result;
+}
+
+// Tests run one after another so each gets the full CPU and its own timeout.
+export async function runTestCases(
+  code: string,
+  tests: TestCase[],
+  signature: FunctionSignature,
+  options: RunnerOptions = {}
+): Promise<TestResult[]> {
+  const {
+    language = 'javascript',
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    loadTimeoutMs = DEFAULT_LOAD_TIMEOUT_MS,
+    iterationLimit = DEFAULT_ITERATION_LIMIT,
+    stdoutLimit = DEFAULT_STDOUT_LIMIT,
+    pyodideIndexURL = defaultPyodideIndexURL,
+    cppRunnerURL,
+  } = options;
+
+  if (language === 'cpp') {
+    if (!cppRunnerURL) {
+      return tests.map(() => compileError(new Error('No C++ runner is configured')));
+    }
+    return runCppTests(code, tests, signature, { runnerURL: cppRunnerURL, timeoutMs, stdoutLimit });
+  }
+
+  let source = code;
+  if (language === 'typescript') {
+    try {
+      source = await transpileTypeScript(code);
+    } catch (err) {
+      return tests.map(() => compileError(err));
+    }
+  }
+
+  const runtime = language === 'python' ? 'python' : 'javascript';
+  const results: TestResult[] = [];
+  while (results.length < tests.length) {
+    const remaining = tests.slice(results.length);
+    // Loading Pyodide takes seconds, so Python tests share one worker. A
+    // JavaScript worker starts instantly and each test gets a fresh one.
+    const batch = runtime === 'python' ? remaining : remaining.slice(0, 1);
+    const request: WorkerRequest = {
+      runtime,
+      pyodideIndexURL,
+      code: source,
+      inputs: batch.map((test) => test.input),
+      signature,
+      iterationLimit,
+      stdoutLimit,
+    };
+    results.push(...(await runInWorker(request, batch, timeoutMs, loadTimeoutMs)));
+  }
+  return results;
+}
@@ -0,0 +1,19 @@
+export type Language = 'javascript' | 'typescript' | 'python' | 'cpp';
+
+export interface LanguageInfo {
+  label: string;
+  // Monaco language id used for syntax highlighting
+  monaco: string;
+  // Whether the browser can run it, or only the server (see runner/cpp.ts)
+  runsOn: 'browser' | 'server';
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  javascript: { label: 'JavaScript', monaco: 'javascript', runsOn: 'browser' },
+  typescript: { label: 'TypeScript', monaco: 'typescript', runsOn: 'browser' },
+  python: { label: 'Python', monaco: 'python', runsOn: 'browser' },
+  cpp: { label: 'C++', monaco: 'cpp', runsOn: 'server' },
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
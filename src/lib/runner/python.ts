@@ -0,0 +1,48 @@
+import type { PyodideInterface } from 'pyodide';
+
+// Loads the Pyodide interpreter. In the browser the runtime files are served
+// from our own origin (see the pyodide plugin in vite.config.ts); on the
+// server Pyodide resolves them from its own package.
+export async function loadPython(indexURL?: string): Promise<PyodideInterface> {
+  const { loadPyodide } = await import('pyodide');
+  // The `js` module would otherwise be the worker's global object. Pyodide's
+  // event loop only needs the timers.
+  const jsglobals = { setTimeout, clearTimeout };
+  return loadPyodide({ ...(indexURL ? { indexURL } : {}), jsglobals });
+}
+
+// Executes the player's module in a fresh namespace and calls its entry
+// function with already-parsed JavaScript arguments.
+export function callPython(
+  pyodide: PyodideInterface,
+  code: string,
+  entryPoint: string,
+  args: unknown[],
+  capture: (line: string) => void
+): unknown {
+  pyodide.setStdout({ batched: capture });
+  pyodide.setStderr({ batched: capture });
+
+  const namespace = pyodide.toPy({});
+  try {
+    pyodide.runPython(code, { globals: namespace });
+
+    const entry = namespace.get(entryPoint);
+    if (typeof entry !== 'function') {
+      throw new ReferenceError(`Function ${entryPoint} is not defined`);
+    }
+
+    const pyArgs = args.map((arg) => pyodide.toPy(arg));
+    const result = entry(...pyArgs);
+    entry.destroy?.();
+
+    if (result && typeof result.toJs === 'function') {
+      const value = result.toJs({ dict_converter: Object.fromEntries, create_pyproxies: false });
+      result.destroy();
+      return value;
+    }
+    return result;
+  } finally {
+    namespace.destroy();
+  }
+}
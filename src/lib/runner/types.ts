@@ -0,0 +1,72 @@
+import type { Language } from './languages.ts';
+
+export interface TestCase {
+  input: string;
+  expected: string;
+  description: string;
+}
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface ParameterSpec {
+  name: string;
+  type: ValueType;
+}
+
+// How the runner turns a test's `input`/`expected` strings into a call to the
+// player's code: `entryPoint(...parseArguments(input))` compared against
+// `parseValue(expected, returnType)`.
+export interface FunctionSignature {
+  entryPoint: string;
+  parameters: ParameterSpec[];
+  returnType: ValueType;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'error' | 'timeout';
+
+export interface TestResult {
+  status: TestStatus;
+  message: string;
+  output?: string;
+  runtimeMs: number;
+  stdout: string[];
+  stack?: string;
+}
+
+export interface RunnerOptions {
+  language?: Language;
+  // Wall-clock budget for a single test, measured once the language runtime is ready
+  timeoutMs?: number;
+  // Budget for starting the worker and loading the language runtime
+  loadTimeoutMs?: number;
+  // Maximum loop iterations across the whole test before it is aborted (JavaScript only)
+  iterationLimit?: number;
+  // Maximum number of captured console lines per test
+  stdoutLimit?: number;
+  // Where the browser loads Pyodide's runtime files from
+  pyodideIndexURL?: string;
+  // The execution service that compiles and runs C++; only the server has one
+  cppRunnerURL?: string;
+}
+
+export interface WorkerRequest {
+  // TypeScript is transpiled before it reaches the worker
+  runtime: 'javascript' | 'python';
+  pyodideIndexURL?: string;
+  code: string;
+  // Run one after another; the worker announces each with a `ready` message.
+  // Only the inputs are sent: expected values never enter the worker.
+  inputs: string[];
+  signature: FunctionSignature;
+  iterationLimit: number;
+  stdoutLimit: number;
+}
+
+// What the worker reports for one test. The verdict is reached outside the
+// worker, so player code that patches built-ins such as Object.is can't
+// change it.
+export type WorkerOutcome =
+  | { status: 'returned'; value: unknown; runtimeMs: number; stdout: string[] }
+  | { status: 'error'; message: string; runtimeMs: number; stdout: string[]; stack?: string };
+
+export type WorkerResponse = { type: 'ready' } | { type: 'result'; outcome: WorkerOutcome };
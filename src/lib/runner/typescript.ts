@@ -0,0 +1,26 @@
+// Strips TypeScript syntax so the result can run through the JavaScript path.
+// The compiler is loaded lazily because it is only needed for TypeScript
+// levels and is by far the largest dependency of the runner.
+export async function transpileTypeScript(source: string): Promise<string> {
+  const ts = (await import('typescript')).default;
+  const { outputText, diagnostics } = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      removeComments: false,
+    },
+  });
+
+  const [first] = diagnostics ?? [];
+  if (first) {
+    const message = ts.flattenDiagnosticMessageText(first.messageText, '\n');
+    const line =
+      first.file && first.start !== undefined
+        ? first.file.getLineAndCharacterOfPosition(first.start).line + 1
+        : undefined;
+    throw new SyntaxError(line ? `Line ${line}: ${message}` : message);
+  }
+
+  return outputText;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseArguments, splitArguments } from './values.ts';
+
+describe('splitArguments', () => {
+  it('splits on top-level commas', () => {
+    expect(splitArguments('1, [2, 3], {"a": 4}')).toEqual(['1', '[2, 3]', '{"a": 4}']);
+  });
+
+  it('keeps commas inside double-quoted strings', () => {
+    expect(splitArguments('"a, b", 2')).toEqual(['"a, b"', '2']);
+  });
+
+  it('keeps escaped quotes inside strings', () => {
+    expect(splitArguments('"say \\"hi, there\\"", 2')).toEqual(['"say \\"hi, there\\""', '2']);
+  });
+
+  it('treats an apostrophe as a plain character', () => {
+    expect(splitArguments("it's, 3")).toEqual(["it's", '3']);
+    expect(splitArguments("don't, won't, 3")).toEqual(["don't", "won't", '3']);
+  });
+});
+
+describe('parseArguments', () => {
+  it('parses a string argument with an apostrophe next to a number', () => {
+    expect(
+      parseArguments("it's, 3", [
+        { name: 'text', type: 'string' },
+        { name: 'count', type: 'number' },
+      ])
+    ).toEqual(["it's", 3]);
+  });
+});
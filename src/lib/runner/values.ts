@@ -0,0 +1,125 @@
+import type { ParameterSpec, ValueType } from './types.ts';
+
+// Splits a raw test input on top-level commas, leaving commas inside JSON
+// strings, brackets and braces alone so JSON arguments survive intact. Only
+// double quotes start a string: an apostrophe in a plain string argument
+// (`it's, 3`) is just a character.
+export function splitArguments(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let current = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inString) {
+      current += char;
+      if (char === '\\') {
+        current += input[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    if (char === '[' || char === '{') depth++;
+    if (char === ']' || char === '}') depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+export function parseValue(raw: string, type: ValueType): unknown {
+  switch (type) {
+    case 'string':
+      return raw;
+    case 'number': {
+      const value = Number(raw.trim());
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new TypeError(`"${raw}" is not a number`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      const value = raw.trim();
+      if (value !== 'true' && value !== 'false') {
+        throw new TypeError(`"${raw}" is not a boolean`);
+      }
+      return value === 'true';
+    }
+    case 'json':
+      return JSON.parse(raw);
+  }
+}
+
+export function parseArguments(input: string, parameters: ParameterSpec[]): unknown[] {
+  if (parameters.length === 0) return [];
+  if (parameters.length === 1) return [parseValue(input, parameters[0].type)];
+
+  const parts = splitArguments(input);
+  if (parts.length !== parameters.length) {
+    throw new TypeError(`Expected ${parameters.length} arguments but the input has ${parts.length}`);
+  }
+  return parts.map((part, index) => parseValue(part, parameters[index].type));
+}
+
+const FLOAT_TOLERANCE = 1e-9;
+
+export function deepEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) return true;
+
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    const scale = Math.max(1, Math.abs(actual), Math.abs(expected));
+    return Math.abs(actual - expected) <= FLOAT_TOLERANCE * scale;
+  }
+
+  if (actual instanceof Date && expected instanceof Date) {
+    return actual.getTime() === expected.getTime();
+  }
+
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    if (!Array.isArray(actual) || !Array.isArray(expected)) return false;
+    if (actual.length !== expected.length) return false;
+    return actual.every((item, index) => deepEqual(item, expected[index]));
+  }
+
+  if (
+    actual === null ||
+    expected === null ||
+    typeof actual !== 'object' ||
+    typeof expected !== 'object'
+  ) {
+    return false;
+  }
+
+  const actualKeys = Object.keys(actual);
+  const expectedKeys = Object.keys(expected);
+  if (actualKeys.length !== expectedKeys.length) return false;
+
+  return expectedKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(actual, key) &&
+      deepEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key])
+  );
+}
+
+export function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
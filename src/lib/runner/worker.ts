@@ -0,0 +1,212 @@
+import { instrumentLoops } from './guard.ts';
+import { callPython, loadPython } from './python.ts';
+import type { FunctionSignature, WorkerOutcome, WorkerRequest, WorkerResponse } from './types.ts';
+import { formatValue, parseArguments } from './values.ts';
+
+const GUARD_NAME = '__codechaseLoopGuard';
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Globals that player code should never be able to reach from inside the
+// sandbox. They are shadowed as parameters of the compiled function and
+// removed from the worker scope before any player code runs.
+const BLOCKED_GLOBALS = [
+  'self',
+  'globalThis',
+  'postMessage',
+  'close',
+  'importScripts',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'BroadcastChannel',
+  'Deno',
+];
+
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+const reply = scope.postMessage.bind(scope);
+
+// Fails closed: if a global can't be hidden, no player code runs. Names are
+// also removed from the prototype chain (postMessage lives on the worker
+// scope's prototype), because player code that gets hold of the real global
+// object can walk up to it.
+const blockGlobals = () => {
+  // Held locally, as `self` and `globalThis` are themselves blocked
+  const global = self as unknown as Record<string, unknown>;
+  const targets: object[] = [global];
+  let proto = Object.getPrototypeOf(global);
+  while (proto && proto !== Object.prototype) {
+    targets.push(proto);
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  for (const name of BLOCKED_GLOBALS) {
+    for (const target of targets) {
+      if (target !== global && !Object.prototype.hasOwnProperty.call(target, name)) continue;
+      try {
+        Object.defineProperty(target, name, { value: undefined, configurable: false, writable: false });
+      } catch {
+        throw new Error(`The sandbox could not block ${name}`);
+      }
+    }
+    if (global[name] !== undefined) {
+      throw new Error(`The sandbox could not block ${name}`);
+    }
+  }
+};
+
+interface DenoNamespace {
+  permissions: { revoke: (descriptor: { name: 'read' }) => Promise<{ state: string }> };
+}
+
+// On the server the worker starts with read access so Pyodide can load its
+// runtime files; it is revoked before any player code runs. Every other
+// permission is denied when the worker is created (see runInWorker).
+const dropPermissions = async () => {
+  const { Deno: deno } = globalThis as unknown as { Deno?: DenoNamespace };
+  if (!deno) return;
+  const { state } = await deno.permissions.revoke({ name: 'read' });
+  if (state === 'granted') {
+    throw new Error('The sandbox could not revoke file access');
+  }
+};
+
+const callJavaScript = (
+  code: string,
+  signature: FunctionSignature,
+  args: unknown[],
+  sandboxConsole: Record<string, (...args: unknown[]) => void>,
+  loopGuard: () => void
+): unknown => {
+  const loadEntryPoint = new Function(
+    'console',
+    GUARD_NAME,
+    ...BLOCKED_GLOBALS,
+    // Strict mode, so `this` in a plain function call is undefined rather than
+    // the worker's global object
+    `'use strict';\n${instrumentLoops(code, GUARD_NAME)}\n;return typeof ${signature.entryPoint} === 'function' ? ${signature.entryPoint} : undefined;`
+  );
+  const entryPoint = loadEntryPoint.call(Object.create(null), sandboxConsole, loopGuard);
+  if (typeof entryPoint !== 'function') {
+    throw new ReferenceError(`Function ${signature.entryPoint} is not defined`);
+  }
+  return entryPoint.apply(Object.create(null), args);
+};
+
+const errorOutcome = (err: unknown, runtimeMs: number, stdout: string[]): WorkerOutcome => {
+  const error = err instanceof Error ? err : new Error(String(err));
+  return {
+    status: 'error',
+    message: `${error.name}: ${error.message}`,
+    runtimeMs,
+    stdout,
+    stack: error.stack,
+  };
+};
+
+// Only runs the player's code. Whether the output is right is decided by
+// runInWorker, outside the realm the player's code can tamper with.
+const runTest = (
+  python: Awaited<ReturnType<typeof loadPython>> | null,
+  { code, signature, iterationLimit, stdoutLimit }: WorkerRequest,
+  input: string
+): WorkerOutcome => {
+  const stdout: string[] = [];
+  let truncated = false;
+  let iterations = 0;
+
+  const capture = (...args: unknown[]) => {
+    if (stdout.length >= stdoutLimit) {
+      if (!truncated) {
+        stdout.push('… output truncated');
+        truncated = true;
+      }
+      return;
+    }
+    stdout.push(args.map(formatValue).join(' '));
+  };
+
+  const sandboxConsole = {
+    log: capture,
+    info: capture,
+    warn: capture,
+    error: capture,
+    debug: capture,
+  };
+
+  const loopGuard = () => {
+    iterations++;
+    if (iterations > iterationLimit) {
+      throw new RangeError(`Iteration limit of ${iterationLimit} exceeded`);
+    }
+  };
+
+  const start = performance.now();
+  try {
+    if (!IDENTIFIER.test(signature.entryPoint)) {
+      throw new SyntaxError(`"${signature.entryPoint}" is not a valid function name`);
+    }
+    const args = parseArguments(input, signature.parameters);
+
+    const value = python
+      ? callPython(python, code, signature.entryPoint, args, capture)
+      : callJavaScript(code, signature, args, sandboxConsole, loopGuard);
+    return { status: 'returned', value, runtimeMs: performance.now() - start, stdout };
+  } catch (err) {
+    return errorOutcome(err, performance.now() - start, stdout);
+  }
+};
+
+// The output goes back as a structured clone, so values that can't be cloned
+// (functions, proxies) fail the test here
+const sendOutcome = (outcome: WorkerOutcome) => {
+  try {
+    reply({ type: 'result', outcome });
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    reply({
+      type: 'result',
+      outcome: errorOutcome(new TypeError(`The return value can't be checked: ${reason}`), outcome.runtimeMs, []),
+    });
+  }
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  const failAll = (err: unknown) => {
+    for (let i = 0; i < request.inputs.length; i++) {
+      reply({ type: 'result', outcome: errorOutcome(err, 0, []) });
+    }
+  };
+
+  // The interpreter needs to read its own runtime files, so it is loaded
+  // before the sandbox is locked down.
+  let python: Awaited<ReturnType<typeof loadPython>> | null = null;
+  if (request.runtime === 'python') {
+    try {
+      python = await loadPython(request.pyodideIndexURL);
+    } catch (err) {
+      failAll(err);
+      return;
+    }
+  }
+
+  try {
+    await dropPermissions();
+    blockGlobals();
+  } catch (err) {
+    failAll(err);
+    return;
+  }
+
+  for (const input of request.inputs) {
+    reply({ type: 'ready' });
+    sendOutcome(runTest(python, request, input));
+  }
+};
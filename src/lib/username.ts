@@ -0,0 +1,11 @@
+// Keep in sync with the users_username_format constraint
+export const USERNAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{2,19}$/;
+
+// Explains what's wrong with a username, or returns null when the format is fine
+export const usernameFormatError = (username: string): string | null => {
+  if (username.length < 3) return 'At least 3 characters';
+  if (username.length > 20) return 'At most 20 characters';
+  if (!/^[A-Za-z]/.test(username)) return 'Must start with a letter';
+  if (!USERNAME_PATTERN.test(username)) return 'Only letters, digits and underscores';
+  return null;
+};
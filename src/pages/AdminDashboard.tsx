@@ -13,191 +13,241 @@ import {
   Code,
   Film,
   Zap,
+  SkipForward,
+  ListOrdered,
+  Library,
+  Shield,
+  Radio,
+  Flag,
+  Archive,
+  ArchiveRestore,
+  DoorOpen,
+  PencilLine,
+  Link2,
+  Settings2,
+  UserCheck,
+  Check,
+  X,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  advanceRoomLevel,
+  approveJoinRequest,
+  createRoom,
+  denyJoinRequest,
+  extendRoomClock,
+  fetchOrganizerRooms,
+  fetchPendingJoinRequests,
+  fetchTemplates,
+  instantiateTemplate,
+  setRoomPassword,
+  startRoomClock,
+  transitionRoom,
+  type JoinRequest,
+  type OrganizerRoom as Room,
+  type RoomTemplate,
+} from '../lib/db';
+import { publishLevel } from '../lib/grader';
 import { supabase } from '../lib/supabase';
+import {
+  ROOM_TRANSITIONS,
+  roomStatusLabels,
+  roomStatusStyles,
+  transitionLabel,
+  type RoomStatus,
+} from '../lib/roomLifecycle';
+import RoomClockBadge from '../components/RoomClockBadge';
+import JoinSettingsModal from '../components/JoinSettingsModal';
 
-interface Room {
-  id: string;
-  code: string;
-  name: string;
-  status: string;
-  created_at: string;
-  participant_count: number;
-}
-
-interface Level {
-  id: string;
-  title: string;
-  room_id: string;
-  status: string;
-}
+const transitionIcons: Record<RoomStatus, typeof Play> = {
+  draft: PencilLine,
+  lobby: DoorOpen,
+  running: Play,
+  paused: Pause,
+  finished: Flag,
+  archived: Archive,
+};
+
+const transitionStyles: Record<RoomStatus, string> = {
+  draft: 'bg-white/5 hover:bg-white/10',
+  lobby: 'bg-blue-500/20 hover:bg-blue-500/30 text-blue-300',
+  running: 'bg-green-500/20 hover:bg-green-500/30 text-green-300',
+  paused: 'bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300',
+  finished: 'bg-purple-500/20 hover:bg-purple-500/30 text-purple-300',
+  archived: 'bg-white/5 hover:bg-white/10',
+};
 
 export default function AdminDashboard() {
-  const { user, signOut } = useAuth();
+  const { user, role, signOut } = useAuth();
   const navigate = useNavigate();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [showNewRoom, setShowNewRoom] = useState(false);
   const [newRoom, setNewRoom] = useState({
     name: '',
     code: '',
+    durationMinutes: 30,
+    startsAt: '',
+    progressionMode: 'lockstep' as Room['progression_mode'],
+    templateId: '',
+    maxParticipants: '',
+    password: '',
+    requiresApproval: false,
   });
+  const [templates, setTemplates] = useState<RoomTemplate[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [settingsRoomId, setSettingsRoomId] = useState<string | null>(null);
+  const [copiedRoomId, setCopiedRoomId] = useState<string | null>(null);
   const [error, setError] = useState('');
 
   useEffect(() => {
-    if (!user) {
-      navigate('/');
-      return;
-    }
+    if (!user) return;
 
-    const fetchRooms = async () => {
-      const { data, error: roomError } = await supabase
-        .from('rooms')
-        .select('*, room_participants(count)')
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: false });
+    const loadRooms = async () => {
+      try {
+        setRooms(await fetchOrganizerRooms(user.id));
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
 
-      if (roomError) {
-        setError(roomError.message);
-        return;
+    const loadTemplates = async () => {
+      try {
+        const data = await fetchTemplates();
+        setTemplates(data);
+        // Preselect the first template so a new room isn't empty by default
+        setNewRoom((current) => (current.templateId ? current : { ...current, templateId: data[0]?.id ?? '' }));
+      } catch (err: any) {
+        setError(err.message);
       }
+    };
 
-      setRooms(
-        data.map((room) => ({
-          ...room,
-          participant_count: room.room_participants[0].count,
-        }))
-      );
+    const loadJoinRequests = async () => {
+      try {
+        setJoinRequests(await fetchPendingJoinRequests());
+      } catch (err: any) {
+        setError(err.message);
+      }
     };
 
-    fetchRooms();
+    loadRooms();
+    loadTemplates();
+    loadJoinRequests();
 
     const roomSubscription = supabase
       .channel('admin_room_updates')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms' }, fetchRooms)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms', filter: `created_by=eq.${user.id}` }, loadRooms)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'room_join_requests' }, () => {
+        loadJoinRequests();
+        loadRooms();
+      })
       .subscribe();
 
     return () => {
       roomSubscription.unsubscribe();
     };
-  }, [user, navigate]);
+  }, [user]);
 
-  const createRoom = async (e: React.FormEvent) => {
+  const handleCreateRoom = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!user) return;
     try {
-      const { data: room, error: roomError } = await supabase
-        .from('rooms')
-        .insert([
-          {
-            name: newRoom.name,
-            code: newRoom.code,
-            created_by: user?.id,
-            status: 'waiting',
-          },
-        ])
-        .select()
-        .single();
-
-      if (roomError) throw roomError;
-
-      // Create default levels for the room
-      const levels = [
-        {
-          title: "The Matrix's Digital Rain",
-          description: "Create a function that generates the iconic 'Digital Rain' effect from The Matrix. The function should transform a string into a cascading pattern of characters.",
-          initial_code: "function digitalRain(input) {\n  // Your code here\n}",
-          test_cases: [
-            {
-              input: "hello",
-              expected: "h\ne\nl\nl\no",
-              description: "Transform 'hello' into a vertical cascade"
-            },
-            {
-              input: "neo",
-              expected: "n\ne\no",
-              description: "Transform 'neo' into a vertical cascade"
-            }
-          ],
-          movie_reference: "The Matrix (1999)",
-          difficulty: "medium",
-          room_id: room.id,
-          status: 'waiting'
-        },
-        {
-          title: "Inception's Dream Levels",
-          description: "Create a function that calculates how much time passes in reality given the time spent in each dream level, where each level makes time pass 12 times slower.",
-          initial_code: "function dreamTime(levels) {\n  // Your code here\n}",
-          test_cases: [
-            {
-              input: "1",
-              expected: "12",
-              description: "1 hour in level 1 = 12 hours in reality"
-            },
-            {
-              input: "2",
-              expected: "144",
-              description: "1 hour in level 2 = 144 hours in reality"
-            }
-          ],
-          movie_reference: "Inception (2010)",
-          difficulty: "hard",
-          room_id: room.id,
-          status: 'waiting'
-        },
-        {
-          title: "Back to the Future Time Circuits",
-          description: "Create a function that calculates the exact time difference between two dates in years, months, days, hours, and minutes, just like Doc's time circuits!",
-          initial_code: "function timeDifference(date1, date2) {\n  // Your code here\n}",
-          test_cases: [
-            {
-              input: "1985-10-26,1955-11-05",
-              expected: "29 years, 11 months, 21 days",
-              description: "Calculate time difference between key dates"
-            }
-          ],
-          movie_reference: "Back to the Future (1985)",
-          difficulty: "easy",
-          room_id: room.id,
-          status: 'waiting'
+      const room = await createRoom({
+        name: newRoom.name,
+        code: newRoom.code,
+        created_by: user.id,
+        duration_seconds: newRoom.durationMinutes * 60,
+        progression_mode: newRoom.progressionMode,
+        max_participants: newRoom.maxParticipants ? Number(newRoom.maxParticipants) : null,
+        requires_approval: newRoom.requiresApproval,
+      });
+
+      if (newRoom.templateId) {
+        // Levels whose reference solution doesn't pass stay drafts, to be fixed in the level editor
+        for (const levelId of await instantiateTemplate(room.id, newRoom.templateId)) {
+          await publishLevel(levelId).catch(() => undefined);
         }
-      ];
+      }
 
-      const { error: levelsError } = await supabase
-        .from('levels')
-        .insert(levels);
+      if (newRoom.password) {
+        await setRoomPassword(room.id, newRoom.password);
+      }
 
-      if (levelsError) throw levelsError;
+      // A scheduled start puts the clock in its "starts in" countdown right away
+      if (newRoom.startsAt) {
+        await startRoomClock(room.id, new Date(newRoom.startsAt).toISOString());
+      }
 
       setShowNewRoom(false);
-      setNewRoom({ name: '', code: '' });
+      setNewRoom({
+        name: '',
+        code: '',
+        durationMinutes: 30,
+        startsAt: '',
+        progressionMode: 'lockstep',
+        templateId: newRoom.templateId,
+        maxParticipants: '',
+        password: '',
+        requiresApproval: false,
+      });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const toggleRoomStatus = async (roomId: string, currentStatus: string) => {
+  const handleTransition = async (room: Room, status: RoomStatus) => {
+    if (status === 'finished' && room.status !== 'archived') {
+      if (!window.confirm(`Finish ${room.name}? Submissions close for everyone and the results are final.`)) return;
+    }
+
+    setError('');
     try {
-      const newStatus = currentStatus === 'active' ? 'waiting' : 'active';
-      
-      if (newStatus === 'active') {
-        // Activate the first level when starting the room
-        await supabase
-          .from('levels')
-          .update({ status: 'active' })
-          .eq('room_id', roomId)
-          .eq('status', 'waiting')
-          .limit(1);
-      }
+      await transitionRoom(room.id, status);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const decideJoinRequest = async (request: JoinRequest, approve: boolean) => {
+    setError('');
+    try {
+      await (approve ? approveJoinRequest : denyJoinRequest)(request.room_id, request.user_id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
 
-      await supabase
-        .from('rooms')
-        .update({ status: newStatus })
-        .eq('id', roomId);
+  const copyInviteLink = async (room: Room) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/join/${encodeURIComponent(room.code)}`);
+      setCopiedRoomId(room.id);
+      setTimeout(() => setCopiedRoomId((current) => (current === room.id ? null : current)), 2000);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const advanceLevel = async (roomId: string) => {
+    try {
+      await advanceRoomLevel(roomId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const extendClock = async (roomId: string, seconds: number) => {
+    try {
+      await extendRoomClock(roomId, seconds);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const settingsRoom = rooms.find((room) => room.id === settingsRoomId);
+
+  const archivedCount = rooms.filter((room) => room.status === 'archived').length;
+  const visibleRooms = showArchived ? rooms : rooms.filter((room) => room.status !== 'archived');
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/');
@@ -217,6 +267,22 @@ export default function AdminDashboard() {
             <h1 className="text-2xl font-bold ml-2">CodeChase Admin</h1>
           </div>
           <div className="flex items-center space-x-4">
+            {role === 'superadmin' && (
+              <button
+                onClick={() => navigate('/admin/users')}
+                className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+              >
+                <Shield className="w-4 h-4 mr-2" />
+                Users
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/admin/problems')}
+              className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+            >
+              <Library className="w-4 h-4 mr-2" />
+              Problem Bank
+            </button>
             <button
               onClick={() => setShowNewRoom(true)}
               className="flex items-center px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 transition-colors"
@@ -253,7 +319,7 @@ export default function AdminDashboard() {
               className="bg-gray-800 rounded-lg p-6 w-full max-w-md"
             >
               <h2 className="text-xl font-bold mb-4">Create New Room</h2>
-              <form onSubmit={createRoom} className="space-y-4">
+              <form onSubmit={handleCreateRoom} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium mb-2">Room Name</label>
                   <input
@@ -274,6 +340,93 @@ export default function AdminDashboard() {
                     required
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Template</label>
+                  <select
+                    value={newRoom.templateId}
+                    onChange={(e) => setNewRoom({ ...newRoom, templateId: e.target.value })}
+                    className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                  >
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id} className="bg-gray-800">
+                        {template.name}
+                        {template.created_by === null && ' (built-in)'}
+                      </option>
+                    ))}
+                    <option value="" className="bg-gray-800">Empty room: I'll add levels myself</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Progression</label>
+                  <select
+                    value={newRoom.progressionMode}
+                    onChange={(e) =>
+                      setNewRoom({ ...newRoom, progressionMode: e.target.value as Room['progression_mode'] })
+                    }
+                    className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                  >
+                    <option value="lockstep" className="bg-gray-800">Lockstep: I advance everyone</option>
+                    <option value="self_paced" className="bg-gray-800">Self-paced: solving unlocks the next level</option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Duration (minutes)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={newRoom.durationMinutes}
+                      onChange={(e) => setNewRoom({ ...newRoom, durationMinutes: Number(e.target.value) })}
+                      className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Scheduled start</label>
+                    <input
+                      type="datetime-local"
+                      value={newRoom.startsAt}
+                      onChange={(e) => setNewRoom({ ...newRoom, startsAt: e.target.value })}
+                      className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Max players</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={newRoom.maxParticipants}
+                      onChange={(e) => setNewRoom({ ...newRoom, maxParticipants: e.target.value })}
+                      placeholder="No limit"
+                      className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Join password</label>
+                    <input
+                      type="text"
+                      value={newRoom.password}
+                      onChange={(e) => setNewRoom({ ...newRoom, password: e.target.value })}
+                      placeholder="No password"
+                      className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={newRoom.requiresApproval}
+                    onChange={(e) => setNewRoom({ ...newRoom, requiresApproval: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Approve each player before they can enter
+                </label>
+                <p className="text-sm text-gray-400">
+                  New rooms start as drafts. Open the lobby to let players in; a room with a scheduled start begins
+                  by itself once its lobby is open and the time comes.
+                </p>
                 <div className="flex justify-end space-x-3">
                   <button
                     type="button"
@@ -294,9 +447,65 @@ export default function AdminDashboard() {
           </motion.div>
         )}
 
+        {settingsRoom && <JoinSettingsModal room={settingsRoom} onClose={() => setSettingsRoomId(null)} />}
+
+        {/* Join Requests */}
+        {joinRequests.length > 0 && (
+          <div className="bg-white/5 rounded-lg p-6 mb-6">
+            <div className="flex items-center mb-4">
+              <UserCheck className="text-blue-400 w-5 h-5" />
+              <h2 className="text-lg font-semibold ml-2">Join Requests ({joinRequests.length})</h2>
+            </div>
+            <div className="space-y-2">
+              {joinRequests.map((request) => (
+                <div
+                  key={`${request.room_id}:${request.user_id}`}
+                  className="flex items-center justify-between p-3 rounded bg-white/5"
+                >
+                  <div>
+                    <span className="font-medium">{request.username}</span>
+                    <span className="text-gray-400"> wants to join {request.room_name}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {new Date(request.requested_at).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2 text-sm">
+                    <button
+                      onClick={() => decideJoinRequest(request, true)}
+                      className="flex items-center px-3 py-1 rounded bg-green-500/20 hover:bg-green-500/30 text-green-300 transition-colors"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => decideJoinRequest(request, false)}
+                      className="flex items-center px-3 py-1 rounded bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {archivedCount > 0 && (
+          <div className="flex justify-end mb-4">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="flex items-center text-sm text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              <Archive className="w-4 h-4 mr-1" />
+              {showArchived ? 'Hide archived rooms' : `Show archived rooms (${archivedCount})`}
+            </button>
+          </div>
+        )}
+
         {/* Rooms Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {rooms.map((room) => (
+          {visibleRooms.map((room) => (
             <motion.div
               key={room.id}
               initial={{ opacity: 0, scale: 0.9 }}
@@ -308,10 +517,8 @@ export default function AdminDashboard() {
                   <h3 className="text-xl font-bold">{room.name}</h3>
                   <p className="text-purple-400">#{room.code}</p>
                 </div>
-                <div className={`px-2 py-1 rounded ${
-                  room.status === 'active' ? 'bg-green-500/20 text-green-300' : 'bg-yellow-500/20 text-yellow-300'
-                }`}>
-                  {room.status}
+                <div className={`px-2 py-1 rounded ${roomStatusStyles[room.status]}`}>
+                  {roomStatusLabels[room.status]}
                 </div>
               </div>
 
@@ -322,7 +529,7 @@ export default function AdminDashboard() {
                 </div>
                 <div className="flex items-center">
                   <Code className="w-4 h-4 mr-2 text-purple-400" />
-                  <span>3 levels</span>
+                  <span>{room.level_count} levels</span>
                 </div>
                 <div className="flex items-center">
                   <Film className="w-4 h-4 mr-2 text-red-400" />
@@ -334,33 +541,100 @@ export default function AdminDashboard() {
                 </div>
               </div>
 
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-400">
+                  {room.progression_mode === 'lockstep' ? 'Lockstep' : 'Self-paced'}
+                  {room.current_position > 0 && room.progression_mode === 'lockstep' && ` · level ${room.current_position}`}
+                </span>
+                {room.progression_mode === 'lockstep' && room.current_position > 0 && (
+                  <button
+                    onClick={() => advanceLevel(room.id)}
+                    className="flex items-center px-2 py-1 rounded bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 transition-colors"
+                  >
+                    <SkipForward className="w-4 h-4 mr-1" />
+                    Next level
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-400">
+                  {[
+                    room.max_participants !== null && `Max ${room.max_participants}`,
+                    room.requires_password && 'Password',
+                    room.requires_approval && 'Approval',
+                  ]
+                    .filter(Boolean)
+                    .join(' · ') || 'Open to everyone'}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => copyInviteLink(room)}
+                    className="flex items-center px-2 py-1 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    <Link2 className="w-4 h-4 mr-1" />
+                    {copiedRoomId === room.id ? 'Copied!' : 'Invite link'}
+                  </button>
+                  <button
+                    onClick={() => setSettingsRoomId(room.id)}
+                    title="Join settings"
+                    className="p-1 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    <Settings2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <RoomClockBadge room={room} />
+                <div className="flex items-center space-x-2 text-sm">
+                  <button
+                    onClick={() => extendClock(room.id, 5 * 60)}
+                    className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    +5 min
+                  </button>
+                  <button
+                    onClick={() => extendClock(room.id, -5 * 60)}
+                    className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    −5 min
+                  </button>
+                </div>
+              </div>
+
               <div className="flex justify-between items-center pt-4 border-t border-white/10">
-                <button
-                  onClick={() => navigate(`/room/${room.id}`)}
-                  className="px-4 py-2 rounded bg-white/5 hover:bg-white/10 transition-colors"
-                >
-                  View Room
-                </button>
-                <button
-                  onClick={() => toggleRoomStatus(room.id, room.status)}
-                  className={`flex items-center px-4 py-2 rounded ${
-                    room.status === 'active'
-                      ? 'bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300'
-                      : 'bg-green-500/20 hover:bg-green-500/30 text-green-300'
-                  } transition-colors`}
-                >
-                  {room.status === 'active' ? (
-                    <>
-                      <Pause className="w-4 h-4 mr-2" />
-                      Pause Room
-                    </>
-                  ) : (
-                    <>
-                      <Play className="w-4 h-4 mr-2" />
-                      Start Room
-                    </>
-                  )}
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => navigate(`/admin/rooms/${room.id}/proctor`)}
+                    className="flex items-center px-4 py-2 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    <Radio className="w-4 h-4 mr-2" />
+                    Proctor
+                  </button>
+                  <button
+                    onClick={() => navigate(`/admin/rooms/${room.id}/levels`)}
+                    className="flex items-center px-4 py-2 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Levels
+                  </button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {ROOM_TRANSITIONS[room.status].map((next) => {
+                    const Icon = room.status === 'archived' ? ArchiveRestore : transitionIcons[next];
+                    return (
+                      <button
+                        key={next}
+                        onClick={() => handleTransition(room, next)}
+                        className={`flex items-center px-4 py-2 rounded ${transitionStyles[next]} transition-colors`}
+                      >
+                        <Icon className="w-4 h-4 mr-2" />
+                        {transitionLabel(room.status, next)}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             </motion.div>
           ))}
@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { Terminal } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { authErrorFromUrl, safePath } from '../lib/redirect';
+
+// Magic links and OAuth providers return here. Supabase reads the session
+// from the URL while the auth context restores it, so by the time this
+// renders the user is either signed in or the link didn't work.
+export default function AuthCallback() {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [linkError] = useState(authErrorFromUrl);
+
+  if (user) return <Navigate to={safePath(searchParams.get('next'))} replace />;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 p-8 rounded-lg backdrop-blur-lg w-full max-w-md text-center space-y-4"
+      >
+        <Terminal className="text-purple-500 w-12 h-12 mx-auto" />
+        <h1 className="text-2xl font-bold">Sign-in failed</h1>
+        <p className="text-gray-300">{linkError ?? 'This sign-in link is invalid or has expired.'}</p>
+        <Link to="/" className="text-purple-400 hover:text-purple-300">
+          Back to sign in
+        </Link>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,54 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Terminal, Trophy, Users, Zap, LogOut } from 'lucide-react';
+import { Terminal, Trophy, Users, Zap, LogOut, Shield, UserCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { fetchOpenRooms, fetchTopPlayers, type Room, type TopPlayer } from '../lib/db';
 import { supabase } from '../lib/supabase';
-
-interface Room {
-  id: string;
-  code: string;
-  name: string;
-  status: string;
-}
-
-interface User {
-  username: string;
-  points: number;
-}
+import { hasRole } from '../lib/roles';
+import { roomStatusLabels } from '../lib/roomLifecycle';
 
 export default function Dashboard() {
-  const { user, signOut } = useAuth();
+  const { profile, role, signOut } = useAuth();
   const navigate = useNavigate();
   const [roomCode, setRoomCode] = useState('');
-  const [error, setError] = useState('');
   const [activeRooms, setActiveRooms] = useState<Room[]>([]);
-  const [topUsers, setTopUsers] = useState<User[]>([]);
+  const [topUsers, setTopUsers] = useState<TopPlayer[]>([]);
 
   useEffect(() => {
-    if (!user) {
-      navigate('/');
-      return;
-    }
-
     const fetchData = async () => {
-      // Fetch active rooms
-      const { data: rooms } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('status', 'active')
-        .limit(5);
-
-      if (rooms) setActiveRooms(rooms);
-
-      // Fetch top users
-      const { data: users } = await supabase
-        .from('users')
-        .select('username, points')
-        .order('points', { ascending: false })
-        .limit(5);
-
-      if (users) setTopUsers(users);
+      // Fetch rooms players can wait or play in, and the top players
+      const [rooms, users] = await Promise.allSettled([fetchOpenRooms(5), fetchTopPlayers(5)]);
+      if (rooms.status === 'fulfilled') setActiveRooms(rooms.value);
+      if (users.status === 'fulfilled') setTopUsers(users.value);
     };
 
     fetchData();
@@ -64,30 +36,13 @@ export default function Dashboard() {
     return () => {
       roomSubscription.unsubscribe();
     };
-  }, [user, navigate]);
+  }, []);
 
-  const handleJoinRoom = async (e: React.FormEvent) => {
+  // Joining goes through the same page as invite links, which handles
+  // passwords, approvals and full or closed rooms
+  const handleJoinRoom = (e: React.FormEvent) => {
     e.preventDefault();
-    try {
-      const { data: room } = await supabase
-        .from('rooms')
-        .select('id')
-        .eq('code', roomCode)
-        .single();
-
-      if (!room) {
-        setError('Room not found');
-        return;
-      }
-
-      await supabase
-        .from('room_participants')
-        .insert([{ room_id: room.id, user_id: user.id }]);
-
-      navigate(`/room/${room.id}`);
-    } catch (err: any) {
-      setError(err.message);
-    }
+    navigate(`/join/${encodeURIComponent(roomCode.trim())}`);
   };
 
   const handleSignOut = async () => {
@@ -107,13 +62,33 @@ export default function Dashboard() {
             <Terminal className="text-purple-500 w-8 h-8" />
             <h1 className="text-2xl font-bold ml-2">CodeChase</h1>
           </div>
-          <button
-            onClick={handleSignOut}
-            className="flex items-center px-4 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 transition-colors"
-          >
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </button>
+          <div className="flex items-center space-x-4">
+            {profile && (
+              <button
+                onClick={() => navigate(`/u/${profile.username}`)}
+                className="flex items-center px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <UserCircle className="w-4 h-4 mr-2" />
+                Profile
+              </button>
+            )}
+            {hasRole(role, 'organizer') && (
+              <button
+                onClick={() => navigate('/admin')}
+                className="flex items-center px-4 py-2 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 transition-colors"
+              >
+                <Shield className="w-4 h-4 mr-2" />
+                Admin
+              </button>
+            )}
+            <button
+              onClick={handleSignOut}
+              className="flex items-center px-4 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 transition-colors"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -130,12 +105,6 @@ export default function Dashboard() {
             </div>
 
             <form onSubmit={handleJoinRoom} className="space-y-4">
-              {error && (
-                <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
-                  {error}
-                </div>
-              )}
-
               <div>
                 <label className="block text-sm font-medium mb-2">Room Code</label>
                 <input
@@ -174,10 +143,13 @@ export default function Dashboard() {
                 <div
                   key={room.id}
                   className="flex items-center justify-between p-3 rounded bg-white/5 hover:bg-white/10 transition-colors cursor-pointer"
-                  onClick={() => navigate(`/room/${room.id}`)}
+                  onClick={() => navigate(`/join/${encodeURIComponent(room.code)}`)}
                 >
                   <span className="font-medium">{room.name}</span>
-                  <span className="text-sm text-purple-400">#{room.code}</span>
+                  <span className="text-sm">
+                    <span className="text-gray-400 mr-2">{roomStatusLabels[room.status]}</span>
+                    <span className="text-purple-400">#{room.code}</span>
+                  </span>
                 </div>
               ))}
               {activeRooms.length === 0 && (
@@ -205,7 +177,8 @@ export default function Dashboard() {
                   initial={{ opacity: 0, scale: 0.9 }}
                   animate={{ opacity: 1, scale: 1 }}
                   transition={{ delay: 0.1 * index }}
-                  className="flex items-center p-4 rounded bg-white/5"
+                  className="flex items-center p-4 rounded bg-white/5 hover:bg-white/10 transition-colors cursor-pointer"
+                  onClick={() => navigate(`/u/${user.username}`)}
                 >
                   <div className="flex items-center justify-center w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 mr-3">
                     {index + 1}
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Save, Trash2, Upload, UserCircle } from 'lucide-react';
+import Avatar from '../components/Avatar';
+import LoadingScreen from '../components/LoadingScreen';
+import { useAuth } from '../contexts/AuthContext';
+import { updateProfile, uploadAvatar, type Profile } from '../lib/db';
+
+// Must match the avatars bucket limits in the player_profiles migration
+const MAX_AVATAR_BYTES = 1024 * 1024;
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export default function EditProfile() {
+  const { profile, profileLoading } = useAuth();
+
+  // The form's fields start from the profile, so wait for it to arrive
+  if (profileLoading || !profile) return <LoadingScreen />;
+  return <ProfileForm profile={profile} />;
+}
+
+function ProfileForm({ profile }: { profile: Profile }) {
+  const { refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const [displayName, setDisplayName] = useState(profile.display_name ?? '');
+  const [avatarUrl, setAvatarUrl] = useState(profile.avatar_url);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const profilePath = `/u/${profile.username}`;
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!AVATAR_TYPES.includes(file.type)) {
+      setError('Avatars must be PNG, JPEG, GIF or WebP images');
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      setError('Avatars can be at most 1 MB');
+      return;
+    }
+
+    setError('');
+    setAvatarFile(file);
+    setAvatarUrl(URL.createObjectURL(file));
+  };
+
+  const removeAvatar = () => {
+    setAvatarFile(null);
+    setAvatarUrl(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      let nextAvatarUrl = avatarUrl;
+
+      if (avatarFile) nextAvatarUrl = await uploadAvatar(profile.id, avatarFile);
+
+      await updateProfile(profile.id, {
+        display_name: displayName.trim() || null,
+        avatar_url: nextAvatarUrl,
+      });
+
+      await refreshProfile();
+      navigate(profilePath);
+    } catch (err: any) {
+      setError(err.message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <button
+            onClick={() => navigate(profilePath)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <UserCircle className="text-purple-500 w-8 h-8 ml-4" />
+          <h1 className="text-2xl font-bold ml-2">Edit Profile</h1>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white/10 p-6 rounded-lg backdrop-blur-lg space-y-6">
+          <div className="flex items-center space-x-4">
+            <Avatar
+              name={displayName.trim() || profile.username}
+              url={avatarUrl}
+              className="w-20 h-20 text-3xl"
+            />
+            <div className="space-y-2">
+              <label className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors cursor-pointer">
+                <Upload className="w-4 h-4 mr-2" />
+                Upload Avatar
+                <input type="file" accept={AVATAR_TYPES.join(',')} onChange={handleAvatarChange} className="hidden" />
+              </label>
+              {avatarUrl && (
+                <button
+                  type="button"
+                  onClick={removeAvatar}
+                  className="flex items-center text-sm text-red-400 hover:text-red-300"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Display Name</label>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={40}
+              placeholder={profile.username}
+              className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+            />
+            <p className="mt-1 text-sm text-gray-400">
+              Shown instead of your username. Your username stays @{profile.username}.
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full flex items-center justify-center bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const { sendPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSending(true);
+    try {
+      await sendPasswordReset(email);
+      setSent(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 p-8 rounded-lg backdrop-blur-lg w-full max-w-md"
+      >
+        <div className="flex items-center justify-center mb-8">
+          <KeyRound className="text-purple-500 w-10 h-10" />
+          <h1 className="text-2xl font-bold ml-2">Reset Password</h1>
+        </div>
+
+        {sent ? (
+          <p className="text-gray-300 text-center">
+            If an account exists for <span className="font-medium text-white">{email}</span>, we sent it a link
+            to choose a new password.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <p className="mt-4 text-center text-sm">
+          <Link to="/" className="text-purple-400 hover:text-purple-300">
+            Back to sign in
+          </Link>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import { AlertCircle, ArrowLeft, CheckCircle2, FileUp, Upload } from 'lucide-react';
+import { importLevelPack } from '../lib/db';
+import { publishLevel } from '../lib/grader';
+import { diffPack, fetchRoomPackLevels, parsePack, type LevelChange, type PackLevel } from '../lib/packs';
+
+type MonacoApi = Parameters<OnMount>[1];
+type EditorInstance = Parameters<OnMount>[0];
+
+const changeStyles: Record<LevelChange, string> = {
+  added: 'bg-green-500/20 text-green-300',
+  updated: 'bg-yellow-500/20 text-yellow-300',
+  unchanged: 'bg-white/10 text-gray-400',
+};
+
+const changeLabels: Record<LevelChange, string> = {
+  added: 'New',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+};
+
+export default function ImportPack() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [source, setSource] = useState('');
+  const [existing, setExisting] = useState<(PackLevel & { id: string })[]>([]);
+  const [publishValidated, setPublishValidated] = useState(true);
+  const [publishResults, setPublishResults] = useState<Record<string, boolean>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const editorRef = useRef<EditorInstance | null>(null);
+  const monacoRef = useRef<MonacoApi | null>(null);
+
+  const format = source.trimStart().startsWith('{') ? 'json' : 'yaml';
+  const parsed = useMemo(() => (source.trim() ? parsePack(source) : null), [source]);
+  const diff = useMemo(() => (parsed?.pack ? diffPack(existing, parsed.pack.levels) : null), [parsed, existing]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    fetchRoomPackLevels(id)
+      .then(setExisting)
+      .catch((err) => setError(err.message));
+  }, [id]);
+
+  // Mirror validation errors as editor markers
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    monaco.editor.setModelMarkers(
+      model,
+      'pack',
+      (parsed?.errors ?? []).map((packError) => ({
+        startLineNumber: packError.line,
+        startColumn: packError.column,
+        endLineNumber: packError.line,
+        endColumn: model.getLineMaxColumn(packError.line),
+        message: packError.path ? `${packError.path}: ${packError.message}` : packError.message,
+        severity: monaco.MarkerSeverity.Error,
+      }))
+    );
+  }, [parsed]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+  };
+
+  const revealError = (line: number, column: number) => {
+    editorRef.current?.revealLineInCenter(line);
+    editorRef.current?.setPosition({ lineNumber: line, column });
+    editorRef.current?.focus();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSource(await file.text());
+    setPublishResults({});
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!id || !diff) return;
+    setIsImporting(true);
+    setError('');
+
+    try {
+      // Unchanged levels are skipped so their published state stays as it is
+      const levels = diff.levels.filter((level) => level.change !== 'unchanged').map((level) => level.incoming);
+      const levelIds = await importLevelPack(id, levels);
+
+      // Levels are imported as drafts; the server publishes those whose
+      // reference solution passes every visible and hidden test
+      if (publishValidated) {
+        const results: Record<string, boolean> = {};
+        for (const [index, level] of levels.entries()) {
+          results[level.title] = Boolean(level.solution) && (await publishLevel(levelIds[index])).published;
+          setPublishResults({ ...results });
+        }
+      }
+      navigate(`/admin/rooms/${id}/levels`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const pendingChanges = diff?.levels.filter((level) => level.change !== 'unchanged').length ?? 0;
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-7xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate(`/admin/rooms/${id}/levels`)}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            <FileUp className="text-purple-500 w-8 h-8 ml-4" />
+            <h1 className="text-2xl font-bold ml-2">Import problem pack</h1>
+          </div>
+          <label className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            Open file
+            <input type="file" accept=".yaml,.yml,.json" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Source */}
+          <div className="space-y-4">
+            <div className="rounded-lg overflow-hidden border border-white/10">
+              <Editor
+                height="60vh"
+                language={format}
+                theme="vs-dark"
+                value={source}
+                onChange={(value) => {
+                  setSource(value || '');
+                  setPublishResults({});
+                }}
+                onMount={handleEditorMount}
+                options={{ minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false, automaticLayout: true }}
+              />
+            </div>
+
+            {parsed && parsed.errors.length > 0 && (
+              <div className="bg-red-500/10 border border-red-500/40 rounded-lg p-4 space-y-1 max-h-60 overflow-y-auto">
+                {parsed.errors.map((packError, index) => (
+                  <button
+                    key={index}
+                    onClick={() => revealError(packError.line, packError.column)}
+                    className="flex items-start w-full text-left text-sm text-red-200 hover:text-white"
+                  >
+                    <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>
+                      <span className="font-mono">
+                        {packError.line}:{packError.column}
+                      </span>{' '}
+                      {packError.path && <span className="font-mono text-red-300">{packError.path}</span>}{' '}
+                      {packError.message}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="bg-white/5 rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-semibold">Preview</h2>
+
+            {!parsed && (
+              <p className="text-gray-400 text-sm">
+                Paste a YAML or JSON pack, or open a file exported from another room.
+              </p>
+            )}
+
+            {diff && parsed?.pack && (
+              <>
+                <p className="text-sm text-gray-300">
+                  <span className="font-semibold">{parsed.pack.name}</span>: {parsed.pack.levels.length} levels,{' '}
+                  {pendingChanges} to write.
+                </p>
+
+                <div className="space-y-2">
+                  {diff.levels.map((level) => (
+                    <div key={level.title} className="flex items-start justify-between bg-white/5 rounded p-3">
+                      <div>
+                        <div className="font-medium">{level.title}</div>
+                        {level.changedFields.length > 0 && (
+                          <div className="text-xs text-gray-400 mt-1">
+                            Changes: {level.changedFields.join(', ').replace(/_/g, ' ')}
+                          </div>
+                        )}
+                        {level.title in publishResults && (
+                          <div
+                            className={`flex items-center text-xs mt-1 ${
+                              publishResults[level.title] ? 'text-green-400' : 'text-gray-400'
+                            }`}
+                          >
+                            {publishResults[level.title] && <CheckCircle2 className="w-3 h-3 mr-1" />}
+                            {publishResults[level.title] ? 'Published' : 'Imported as a draft'}
+                          </div>
+                        )}
+                      </div>
+                      <span className={`px-2 py-0.5 rounded text-xs ${changeStyles[level.change]}`}>
+                        {changeLabels[level.change]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {diff.untouched.length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Not in this pack, left as they are: {diff.untouched.join(', ')}
+                  </p>
+                )}
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={publishValidated}
+                    onChange={(e) => setPublishValidated(e.target.checked)}
+                  />
+                  Publish levels whose reference solution passes every test
+                </label>
+
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting || pendingChanges === 0}
+                  className="w-full flex items-center justify-center px-4 py-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
+                >
+                  <FileUp className="w-4 h-4 mr-2" />
+                  {isImporting ? 'Importing...' : `Import ${pendingChanges} levels`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Hourglass, KeyRound, Users, Zap } from 'lucide-react';
+import LoadingScreen from '../components/LoadingScreen';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchJoinInfo, joinRoom, type JoinInfo } from '../lib/db';
+import { supabase } from '../lib/supabase';
+import { roomStatusLabels, type RoomStatus } from '../lib/roomLifecycle';
+
+const closedMessages: Partial<Record<RoomStatus, string>> = {
+  draft: "The organizer hasn't opened this room's lobby yet.",
+  running: 'This room has already started, so it no longer takes new players.',
+  paused: 'This room has already started, so it no longer takes new players.',
+  finished: 'This room is over.',
+  archived: 'This room is over.',
+};
+
+// Invite links land here, and so does the dashboard's room code form. The
+// database makes every decision; this page only explains it.
+export default function JoinRoom() {
+  const { code } = useParams<{ code: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [info, setInfo] = useState<JoinInfo | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [password, setPassword] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchInfo = useCallback(async () => {
+    if (!code) return;
+    let room: JoinInfo | null;
+    try {
+      room = await fetchJoinInfo(code);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    if (!room) {
+      setNotFound(true);
+      return;
+    }
+    if (room.is_participant) {
+      navigate(`/room/${room.room_id}`, { replace: true });
+      return;
+    }
+    setInfo(room);
+  }, [code, navigate]);
+
+  useEffect(() => {
+    fetchInfo();
+  }, [fetchInfo]);
+
+  // While a request is pending, wait for the organizer's decision
+  const roomId = info?.room_id;
+  const isPending = info?.request_status === 'pending';
+
+  useEffect(() => {
+    if (!roomId || !isPending) return;
+
+    const channel = supabase
+      .channel(`join_request:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'room_join_requests', filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          if (payload.new.user_id === user?.id) fetchInfo();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomId, isPending, user, fetchInfo]);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code) return;
+    setError('');
+    setIsJoining(true);
+
+    try {
+      const result = await joinRoom(code, password || undefined);
+      if (result.status === 'joined') {
+        navigate(`/room/${result.room_id}`, { replace: true });
+        return;
+      }
+      fetchInfo();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  if (!info && !notFound && !error) return <LoadingScreen />;
+
+  const isFull = info?.max_participants != null && info.participant_count >= info.max_participants;
+  const closedMessage = info ? closedMessages[info.status] : undefined;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 p-6 rounded-lg backdrop-blur-lg w-full max-w-md space-y-4"
+      >
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <Zap className="text-yellow-500 w-6 h-6 ml-2" />
+          <h1 className="text-xl font-semibold ml-2">{info ? info.name : 'Join Room'}</h1>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {notFound && <p className="text-gray-300">No room has the code #{code}.</p>}
+
+        {info && (
+          <>
+            <div className="flex items-center justify-between text-sm text-gray-300">
+              <span className="flex items-center">
+                <Users className="w-4 h-4 mr-2" />
+                {info.participant_count}
+                {info.max_participants != null && ` / ${info.max_participants}`} players
+              </span>
+              <span className="text-purple-400">
+                #{code} · {roomStatusLabels[info.status]}
+              </span>
+            </div>
+
+            {info.is_banned ? (
+              <p className="text-gray-300">The organizer removed you from this room, so you can't join it again.</p>
+            ) : info.request_status === 'denied' ? (
+              <p className="text-gray-300">The organizer declined your request to join this room.</p>
+            ) : isPending ? (
+              <div className="flex items-center text-gray-300">
+                <Hourglass className="w-5 h-5 mr-2 text-purple-400 animate-pulse" />
+                Your request was sent. You'll enter the room as soon as the organizer approves it.
+              </div>
+            ) : closedMessage ? (
+              <p className="text-gray-300">{closedMessage}</p>
+            ) : isFull ? (
+              <p className="text-gray-300">This room is full.</p>
+            ) : (
+              <form onSubmit={handleJoin} className="space-y-4">
+                {info.requires_password && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Room Password</label>
+                    <div className="relative">
+                      <KeyRound className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+                      <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="w-full pl-9 pr-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+                {info.requires_approval && (
+                  <p className="text-sm text-gray-400">The organizer approves each player before they can enter.</p>
+                )}
+                <button
+                  type="submit"
+                  disabled={isJoining}
+                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isJoining ? 'Joining...' : info.requires_approval ? 'Request to Join' : 'Join Room'}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,26 +1,57 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate, Link } from 'react-router-dom';
-import { Terminal } from 'lucide-react';
+import { useNavigate, Link, Navigate, useLocation } from 'react-router-dom';
+import { Mail, Terminal } from 'lucide-react';
+import type { Provider } from '@supabase/supabase-js';
 import { useAuth } from '../contexts/AuthContext';
+import { oauthProviders } from '../lib/oauth';
+import { returnPath } from '../lib/redirect';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const { signIn } = useAuth();
+  // 'magic' emails a one-time sign-in link instead of checking a password
+  const [mode, setMode] = useState<'password' | 'magic'>('password');
+  const [linkSent, setLinkSent] = useState(false);
+  const { user, signIn, signInWithMagicLink, signInWithProvider } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const next = returnPath(location.state);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
     try {
+      if (mode === 'magic') {
+        await signInWithMagicLink(email, next);
+        setLinkSent(true);
+        return;
+      }
       await signIn(email, password);
-      navigate('/dashboard');
+      navigate(next, { replace: true });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleProvider = async (provider: Provider) => {
+    setError('');
+    try {
+      await signInWithProvider(provider, next);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'password' ? 'magic' : 'password');
+    setLinkSent(false);
+    setError('');
+  };
+
+  if (user) return <Navigate to={next} replace />;
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <motion.div
@@ -51,28 +82,70 @@ export default function Login() {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium mb-2">Password</label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
-              required
-            />
-          </div>
+          {mode === 'password' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium">Password</label>
+                <Link to="/forgot-password" className="text-sm text-purple-400 hover:text-purple-300">
+                  Forgot password?
+                </Link>
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                required
+              />
+            </div>
+          )}
+
+          {linkSent && (
+            <div className="bg-green-500/20 border border-green-500 text-green-200 p-3 rounded">
+              Check your inbox for a sign-in link.
+            </div>
+          )}
 
           <button
             type="submit"
             className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity"
           >
-            Sign In
+            {mode === 'password' ? 'Sign In' : linkSent ? 'Send Another Link' : 'Email Me a Link'}
+          </button>
+
+          <button
+            type="button"
+            onClick={switchMode}
+            className="w-full flex items-center justify-center text-sm text-purple-400 hover:text-purple-300"
+          >
+            <Mail className="w-4 h-4 mr-2" />
+            {mode === 'password' ? 'Sign in with an email link instead' : 'Sign in with a password instead'}
           </button>
         </form>
 
+        {oauthProviders.length > 0 && (
+          <div className="mt-6 space-y-3">
+            <div className="flex items-center text-sm text-gray-400">
+              <div className="flex-1 border-t border-white/10" />
+              <span className="px-3">or</span>
+              <div className="flex-1 border-t border-white/10" />
+            </div>
+            {oauthProviders.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => handleProvider(id)}
+                className="w-full flex items-center justify-center bg-white/5 border border-white/10 py-2 rounded-md font-medium hover:bg-white/10 transition-colors"
+              >
+                <Icon className="w-5 h-5 mr-2" />
+                Continue with {label}
+              </button>
+            ))}
+          </div>
+        )}
+
         <p className="mt-4 text-center text-sm">
           Don't have an account?{' '}
-          <Link to="/register" className="text-purple-400 hover:text-purple-300">
+          <Link to="/register" state={location.state} className="text-purple-400 hover:text-purple-300">
             Register here
           </Link>
         </p>
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Search, Shield } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { searchProfiles, setUserRole, type Profile } from '../lib/db';
+import type { Role } from '../lib/roles';
+
+const roleStyles: Record<Role, string> = {
+  player: 'bg-white/10 text-gray-300',
+  organizer: 'bg-purple-500/20 text-purple-300',
+  superadmin: 'bg-red-500/20 text-red-300',
+};
+
+export default function ManageUsers() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setUsers(await searchProfiles(query.trim(), 100));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const changeRole = async (profile: Profile, role: Role) => {
+    setError('');
+    try {
+      await setUserRole(profile.id, role);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    fetchUsers();
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-4xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <button
+            onClick={() => navigate('/admin')}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <Shield className="text-purple-500 w-8 h-8 ml-4" />
+          <h1 className="text-2xl font-bold ml-2">Users</h1>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by username"
+            className="w-full pl-9 pr-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          {users.map((profile) => (
+            <div key={profile.id} className="flex items-center justify-between bg-white/5 rounded-lg p-4">
+              <div>
+                <div className="font-medium">{profile.username}</div>
+                <div className="text-sm text-gray-400">{profile.points} points</div>
+              </div>
+              {profile.id === user?.id ? (
+                <span className={`px-2 py-1 rounded text-sm ${roleStyles[profile.role]}`}>{profile.role}</span>
+              ) : (
+                <select
+                  value={profile.role}
+                  onChange={(e) => changeRole(profile, e.target.value as Role)}
+                  className={`px-2 py-1 rounded text-sm border border-white/10 ${roleStyles[profile.role]}`}
+                >
+                  <option value="player" className="bg-gray-800">player</option>
+                  <option value="organizer" className="bg-gray-800">organizer</option>
+                  <option value="superadmin" className="bg-gray-800">superadmin</option>
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
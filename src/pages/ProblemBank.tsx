@@ -0,0 +1,441 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Film,
+  Library,
+  Plus,
+  Search,
+  Tag,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  createTemplate,
+  deleteProblem,
+  deleteTemplate,
+  fetchProblemFacets,
+  fetchTemplateProblems,
+  fetchTemplates,
+  searchProblems,
+  setTemplateProblems as saveTemplateProblems,
+  updateProblemTags,
+  type ProblemFilters,
+  type ProblemSummary as Problem,
+  type RoomTemplate,
+  type TemplateProblem,
+} from '../lib/db';
+
+const difficultyColors: Record<Problem['difficulty'], string> = {
+  easy: 'bg-green-500/20 text-green-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  hard: 'bg-red-500/20 text-red-300',
+};
+
+const inputClass =
+  'px-3 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500';
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+export default function ProblemBank() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [problems, setProblems] = useState<Problem[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [allMovies, setAllMovies] = useState<string[]>([]);
+  const [filters, setFilters] = useState<ProblemFilters>({ query: '', difficulty: '', movie: '', tags: [] });
+  const [editingTags, setEditingTags] = useState<{ problemId: string; value: string } | null>(null);
+  const [templates, setTemplates] = useState<RoomTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [templateProblems, setTemplateProblems] = useState<TemplateProblem[]>([]);
+  const [newTemplateName, setNewTemplateName] = useState('');
+  const [error, setError] = useState('');
+
+  const selectedTemplate = templates.find((template) => template.id === selectedTemplateId) ?? null;
+  const canEditTemplate = selectedTemplate !== null && selectedTemplate.created_by === user?.id;
+
+  const loadFacets = useCallback(async () => {
+    try {
+      const { tags, movies } = await fetchProblemFacets();
+      setAllTags(tags);
+      setAllMovies(movies);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const loadProblems = useCallback(async () => {
+    try {
+      setProblems(await searchProblems(filters));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [filters]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await fetchTemplates());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const loadTemplateProblems = useCallback(async () => {
+    if (!selectedTemplateId) {
+      setTemplateProblems([]);
+      return;
+    }
+
+    try {
+      setTemplateProblems(await fetchTemplateProblems(selectedTemplateId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [selectedTemplateId]);
+
+  useEffect(() => {
+    loadFacets();
+    loadTemplates();
+  }, [loadFacets, loadTemplates]);
+
+  useEffect(() => {
+    loadProblems();
+  }, [loadProblems]);
+
+  useEffect(() => {
+    loadTemplateProblems();
+  }, [loadTemplateProblems]);
+
+  const toggleTagFilter = (tag: string) =>
+    setFilters((current) => ({
+      ...current,
+      tags: current.tags.includes(tag) ? current.tags.filter((t) => t !== tag) : [...current.tags, tag],
+    }));
+
+  const saveTags = async () => {
+    if (!editingTags) return;
+    try {
+      await updateProblemTags(editingTags.problemId, parseTags(editingTags.value));
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setEditingTags(null);
+    loadProblems();
+    loadFacets();
+  };
+
+  const removeProblem = async (problem: Problem) => {
+    if (!window.confirm(`Delete "${problem.title}" from the bank? Rooms that already use it keep their copy.`)) return;
+
+    try {
+      await deleteProblem(problem.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    loadProblems();
+    loadFacets();
+    loadTemplateProblems();
+  };
+
+  const handleCreateTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    try {
+      const templateId = await createTemplate(newTemplateName, user.id);
+      setNewTemplateName('');
+      await loadTemplates();
+      setSelectedTemplateId(templateId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removeTemplate = async (template: RoomTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSelectedTemplateId(null);
+    loadTemplates();
+  };
+
+  const setTemplateOrder = async (problemIds: string[]) => {
+    if (!selectedTemplateId) return;
+    try {
+      await saveTemplateProblems(selectedTemplateId, problemIds);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    loadTemplateProblems();
+  };
+
+  const templateProblemIds = templateProblems.map((entry) => entry.problem.id);
+
+  const moveTemplateProblem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= templateProblemIds.length) return;
+    const ids = [...templateProblemIds];
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    setTemplateOrder(ids);
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-7xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <button
+            onClick={() => navigate('/admin')}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <Library className="text-purple-500 w-8 h-8 ml-4" />
+          <h1 className="text-2xl font-bold ml-2">Problem Bank</h1>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Problems */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-white/5 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap gap-3">
+                <div className="relative flex-1 min-w-[12rem]">
+                  <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+                  <input
+                    type="search"
+                    value={filters.query}
+                    onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+                    placeholder="Search titles and descriptions"
+                    className={`${inputClass} w-full pl-9`}
+                  />
+                </div>
+                <select
+                  value={filters.difficulty}
+                  onChange={(e) => setFilters({ ...filters, difficulty: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="" className="bg-gray-800">Any difficulty</option>
+                  <option value="easy" className="bg-gray-800">Easy</option>
+                  <option value="medium" className="bg-gray-800">Medium</option>
+                  <option value="hard" className="bg-gray-800">Hard</option>
+                </select>
+                <select
+                  value={filters.movie}
+                  onChange={(e) => setFilters({ ...filters, movie: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="" className="bg-gray-800">Any movie</option>
+                  {allMovies.map((movie) => (
+                    <option key={movie} value={movie} className="bg-gray-800">{movie}</option>
+                  ))}
+                </select>
+              </div>
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {allTags.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTagFilter(tag)}
+                      className={`px-2 py-1 rounded text-sm transition-colors ${
+                        filters.tags.includes(tag) ? 'bg-purple-500 text-white' : 'bg-white/5 hover:bg-white/10'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {problems.length === 0 && (
+              <p className="text-gray-400 text-center py-12">
+                No problems match. Save levels to the bank from a room's Levels page.
+              </p>
+            )}
+
+            {problems.map((problem) => {
+              const isOwn = problem.created_by === user?.id;
+              const inTemplate = templateProblemIds.includes(problem.id);
+
+              return (
+                <div key={problem.id} className="bg-white/5 rounded-lg p-4 space-y-2">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="font-semibold">{problem.title}</h3>
+                      <div className="flex items-center space-x-2 text-sm mt-1">
+                        <span className={`px-2 py-0.5 rounded ${difficultyColors[problem.difficulty]}`}>
+                          {problem.difficulty}
+                        </span>
+                        <span className="flex items-center text-gray-400">
+                          <Film className="w-4 h-4 mr-1" />
+                          {problem.movie_reference}
+                        </span>
+                        {!isOwn && <span className="text-gray-500">built-in</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {canEditTemplate && (
+                        <button
+                          onClick={() => setTemplateOrder([...templateProblemIds, problem.id])}
+                          disabled={inTemplate}
+                          className="flex items-center px-2 py-1 rounded text-sm bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 disabled:opacity-40"
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          {inTemplate ? 'In template' : 'Add to template'}
+                        </button>
+                      )}
+                      {isOwn && (
+                        <button
+                          onClick={() => removeProblem(problem)}
+                          className="p-2 rounded hover:bg-white/10 text-red-400"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {editingTags?.problemId === problem.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={editingTags.value}
+                      onChange={(e) => setEditingTags({ ...editingTags, value: e.target.value })}
+                      onBlur={saveTags}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveTags();
+                        if (e.key === 'Escape') setEditingTags(null);
+                      }}
+                      placeholder="strings, recursion, math"
+                      className={`${inputClass} w-full text-sm`}
+                    />
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      {problem.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded bg-white/10 text-gray-300">#{tag}</span>
+                      ))}
+                      {isOwn && (
+                        <button
+                          onClick={() => setEditingTags({ problemId: problem.id, value: problem.tags.join(', ') })}
+                          className="flex items-center text-purple-400 hover:text-purple-300"
+                        >
+                          <Tag className="w-4 h-4 mr-1" />
+                          Edit tags
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Templates */}
+          <div className="space-y-4">
+            <div className="bg-white/5 rounded-lg p-4 space-y-3">
+              <h2 className="text-lg font-semibold">Room templates</h2>
+              <div className="space-y-1">
+                {templates.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => setSelectedTemplateId(template.id === selectedTemplateId ? null : template.id)}
+                    className={`w-full text-left px-3 py-2 rounded transition-colors ${
+                      template.id === selectedTemplateId ? 'bg-purple-500/30' : 'hover:bg-white/10'
+                    }`}
+                  >
+                    {template.name}
+                    {template.created_by === null && <span className="text-gray-500 text-sm"> · built-in</span>}
+                  </button>
+                ))}
+              </div>
+              <form onSubmit={handleCreateTemplate} className="flex gap-2">
+                <input
+                  type="text"
+                  value={newTemplateName}
+                  onChange={(e) => setNewTemplateName(e.target.value)}
+                  placeholder="New template name"
+                  className={`${inputClass} flex-1 text-sm`}
+                  required
+                />
+                <button
+                  type="submit"
+                  className="p-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </form>
+            </div>
+
+            {selectedTemplate && (
+              <div className="bg-white/5 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{selectedTemplate.name}</h3>
+                  {canEditTemplate && (
+                    <button
+                      onClick={() => removeTemplate(selectedTemplate)}
+                      className="p-1 rounded hover:bg-white/10 text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {templateProblems.length === 0 && (
+                  <p className="text-sm text-gray-400">Add problems from the list to build this set.</p>
+                )}
+                <ol className="space-y-2">
+                  {templateProblems.map((entry, index) => (
+                    <li key={entry.problem.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {index + 1}. {entry.problem.title}
+                      </span>
+                      {canEditTemplate && (
+                        <div className="flex items-center">
+                          <button
+                            onClick={() => moveTemplateProblem(index, -1)}
+                            className="p-1 rounded hover:bg-white/10"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => moveTemplateProblem(index, 1)}
+                            className="p-1 rounded hover:bg-white/10"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setTemplateOrder(templateProblemIds.filter((id) => id !== entry.problem.id))}
+                            className="p-1 rounded hover:bg-white/10 text-red-400"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
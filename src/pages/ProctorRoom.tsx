@@ -0,0 +1,411 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import Editor from '@monaco-editor/react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { ArrowLeft, Eye, MicOff, Mic, RotateCcw, UserX, Radio, ScrollText, X, MessageSquare } from 'lucide-react';
+import RoomClockBadge from '../components/RoomClockBadge';
+import RoomChat from '../components/RoomChat';
+import RoomResults from '../components/RoomResults';
+import { useAuth } from '../contexts/AuthContext';
+import { useRoomChat } from '../hooks/useRoomChat';
+import { useRoomLeaderboard } from '../hooks/useRoomLeaderboard';
+import {
+  fetchChatMutedPlayers,
+  fetchHintUnlocks,
+  fetchLevelSummaries,
+  fetchProctorRows,
+  fetchRoom,
+  fetchStatusLog,
+  kickParticipant,
+  resetParticipant,
+  setChatEnabled,
+  setChatMuted,
+  setParticipantMuted,
+  type ChatMessage,
+  type HintUnlock,
+  type ProctorRow,
+  type Room,
+  type StatusEvent,
+} from '../lib/db';
+import { supabase } from '../lib/supabase';
+import { LANGUAGES, isLanguage } from '../lib/runner';
+import { ProctorEvent, proctorTopic, type ModerationNotice, type ParticipantState } from '../lib/proctor';
+import { roomStatusLabels, roomStatusStyles } from '../lib/roomLifecycle';
+
+// Joins are not broadcast, so the grid also refreshes on a timer
+const REFRESH_INTERVAL_MS = 15_000;
+
+export default function ProctorRoom() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [room, setRoom] = useState<Room | null>(null);
+  const [rows, setRows] = useState<ProctorRow[]>([]);
+  const [live, setLive] = useState<Record<string, ParticipantState>>({});
+  const [peekUserId, setPeekUserId] = useState<string | null>(null);
+  const [statusLog, setStatusLog] = useState<StatusEvent[]>([]);
+  const [chatMutedIds, setChatMutedIds] = useState<string[]>([]);
+  const [hintUnlocks, setHintUnlocks] = useState<HintUnlock[]>([]);
+  const [levelTitles, setLevelTitles] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const channels = useRef(new Map<string, RealtimeChannel>());
+
+  const { messages, error: chatError, send: sendChat, remove: removeMessage } = useRoomChat(id, user?.id);
+  const { entries: standings } = useRoomLeaderboard(id);
+
+  const fetchRows = useCallback(async () => {
+    if (!id) return;
+    try {
+      setRows(await fetchProctorRows(id));
+      setChatMutedIds(await fetchChatMutedPlayers(id));
+      setHintUnlocks(await fetchHintUnlocks(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadRoom = async () => {
+      try {
+        setRoom(await fetchRoom(id));
+        setStatusLog(await fetchStatusLog(id));
+        const levels = await fetchLevelSummaries(id);
+        setLevelTitles(Object.fromEntries(levels.map((level) => [level.id, level.title])));
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadRoom();
+    fetchRows();
+    const interval = setInterval(fetchRows, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [id, fetchRows]);
+
+  // One private channel per participant, as players can only join their own
+  const participantIds = rows.map((row) => row.user_id).join(',');
+
+  useEffect(() => {
+    if (!id || !participantIds) return;
+    const active = channels.current;
+    const subscribed = participantIds.split(',').map((userId) => {
+      const channel = supabase
+        .channel(proctorTopic(id, userId), { config: { private: true } })
+        .on('broadcast', { event: ProctorEvent.state }, ({ payload }) => {
+          setLive((current) => ({ ...current, [userId]: payload as ParticipantState }));
+        })
+        .on('broadcast', { event: ProctorEvent.submitted }, () => {
+          fetchRows();
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') channel.send({ type: 'broadcast', event: ProctorEvent.sync, payload: {} });
+        });
+      active.set(userId, channel);
+      return channel;
+    });
+
+    return () => {
+      active.clear();
+      subscribed.forEach((channel) => channel.unsubscribe());
+    };
+  }, [id, participantIds, fetchRows]);
+
+  const moderate = async (row: ProctorRow, notice: ModerationNotice) => {
+    if (!id) return;
+    setError('');
+    try {
+      if (notice.action === 'kicked') await kickParticipant(id, row.user_id);
+      else if (notice.action === 'muted') await setParticipantMuted(id, row.user_id, notice.muted);
+      else if (notice.action === 'chat_muted') await setChatMuted(id, row.user_id, notice.muted);
+      else await resetParticipant(id, row.user_id);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    channels.current.get(row.user_id)?.send({ type: 'broadcast', event: ProctorEvent.moderation, payload: notice });
+    if (notice.action === 'kicked' || notice.action === 'reset') {
+      setLive((current) => {
+        const next = { ...current };
+        delete next[row.user_id];
+        return next;
+      });
+      if (peekUserId === row.user_id) setPeekUserId(null);
+    }
+    fetchRows();
+  };
+
+  const kick = (row: ProctorRow) => {
+    if (!window.confirm(`Remove ${row.username} from this room? They won't be able to join again.`)) return;
+    moderate(row, { action: 'kicked' });
+  };
+
+  const reset = (row: ProctorRow) => {
+    if (!window.confirm(`Reset ${row.username}? Their submissions, drafts and points in this room are deleted.`)) return;
+    moderate(row, { action: 'reset' });
+  };
+
+  const toggleChatMute = (userId: string, chatMuted: boolean) => {
+    const row = rows.find((entry) => entry.user_id === userId);
+    if (row) moderate(row, { action: 'chat_muted', muted: chatMuted });
+  };
+
+  const deleteChatMessage = async (message: ChatMessage) => {
+    if (!window.confirm(`Delete this message from ${message.username}?`)) return;
+    setError('');
+    try {
+      await removeMessage(message.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const toggleChat = async () => {
+    if (!id || !room) return;
+    setError('');
+    try {
+      await setChatEnabled(id, !room.chat_enabled);
+      setRoom({ ...room, chat_enabled: !room.chat_enabled });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const peekRow = rows.find((row) => row.user_id === peekUserId);
+  const peekLive = peekUserId ? live[peekUserId] : undefined;
+  const peekLanguage = peekLive?.language ?? peekRow?.draft_language;
+
+  // Once the room is over the organizer gets the players' results, with the
+  // hints each of them used
+  if (room && (room.status === 'finished' || room.status === 'archived')) {
+    return (
+      <RoomResults
+        name={room.name}
+        standings={standings}
+        userId={undefined}
+        onLeave={() => navigate('/admin')}
+        onViewProfile={(username) => navigate(`/u/${username}`)}
+        hintUnlocks={hintUnlocks}
+        levelTitles={levelTitles}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-7xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate('/admin')}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            <Radio className="text-purple-500 w-8 h-8 ml-4" />
+            <div className="ml-2">
+              <h1 className="text-2xl font-bold">Proctor{room ? `: ${room.name}` : ''}</h1>
+              <p className="text-sm text-gray-400">{rows.length} participants</p>
+            </div>
+          </div>
+          {room && (
+            <div className="flex items-center space-x-2">
+              <span className={`px-2 py-1 rounded text-sm ${roomStatusStyles[room.status]}`}>
+                {roomStatusLabels[room.status]}
+              </span>
+              <RoomClockBadge room={room} />
+              <button
+                onClick={toggleChat}
+                className="flex items-center px-2 py-1 rounded text-sm bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <MessageSquare className="w-4 h-4 mr-1" />
+                {room.chat_enabled ? 'Turn chat off' : 'Turn chat on'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {statusLog.length > 0 && (
+          <details className="mb-6 bg-white/5 rounded-lg px-4 py-3 text-sm">
+            <summary className="flex items-center cursor-pointer text-gray-300">
+              <ScrollText className="w-4 h-4 mr-2" />
+              Status log ({statusLog.length})
+            </summary>
+            <ul className="mt-3 space-y-1">
+              {statusLog.map((event) => (
+                <li key={event.id} className="flex items-center justify-between text-gray-300">
+                  <span>
+                    {roomStatusLabels[event.from_status]} → {roomStatusLabels[event.to_status]}
+                    <span className="text-gray-500"> · {event.changed_by ? 'by you' : 'on schedule'}</span>
+                  </span>
+                  <span className="text-gray-400">{new Date(event.changed_at).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          <div className={`flex-1 min-w-0 grid gap-6 ${peekRow ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`}>
+            <div className={`grid gap-4 ${peekRow ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
+              {rows.map((row) => {
+                const rowLive = live[row.user_id];
+                return (
+                  <div
+                    key={row.user_id}
+                    className={`bg-white/5 rounded-lg p-4 border ${
+                      peekUserId === row.user_id ? 'border-purple-500' : 'border-white/10'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center min-w-0">
+                        <span
+                          title={rowLive ? 'Live' : 'No live updates yet'}
+                          className={`w-2 h-2 rounded-full mr-2 ${rowLive ? 'bg-green-400' : 'bg-gray-500'}`}
+                        />
+                        <span className="font-medium truncate">{row.username}</span>
+                        {row.muted && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-500/20 text-red-300">muted</span>
+                        )}
+                        {chatMutedIds.includes(row.user_id) && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-yellow-500/20 text-yellow-300">
+                            chat muted
+                          </span>
+                        )}
+                      </div>
+                      <span className="text-sm text-purple-400">{row.score} pts</span>
+                    </div>
+
+                    <div className="text-sm text-gray-300 space-y-1">
+                      <div className="truncate">
+                        <span className="text-gray-400">Level: </span>
+                        {rowLive?.level_title ?? row.current_level_title ?? '—'}
+                      </div>
+                      <div>
+                        <span className="text-gray-400">Solved: </span>
+                        {row.levels_solved} · <span className="text-gray-400">Attempts: </span>
+                        {row.attempts} · <span className="text-gray-400">Hints: </span>
+                        {hintUnlocks.filter((unlock) => unlock.user_id === row.user_id).length}
+                      </div>
+                      <div>
+                        <span className="text-gray-400">Last result: </span>
+                        {row.last_status && row.last_submitted_at ? (
+                          <span className={row.last_status === 'completed' ? 'text-green-400' : 'text-red-400'}>
+                            {row.last_tests_passed}/{row.last_tests_total} at{' '}
+                            {new Date(row.last_submitted_at).toLocaleTimeString()}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2 mt-3">
+                      <button
+                        onClick={() => setPeekUserId(peekUserId === row.user_id ? null : row.user_id)}
+                        className="flex items-center px-2 py-1 rounded text-sm bg-white/10 hover:bg-white/20 transition-colors"
+                      >
+                        <Eye className="w-4 h-4 mr-1" />
+                        Peek
+                      </button>
+                      <button
+                        onClick={() => moderate(row, { action: 'muted', muted: !row.muted })}
+                        className="flex items-center px-2 py-1 rounded text-sm bg-yellow-500/20 hover:bg-yellow-500/30 transition-colors"
+                      >
+                        {row.muted ? <Mic className="w-4 h-4 mr-1" /> : <MicOff className="w-4 h-4 mr-1" />}
+                        {row.muted ? 'Unmute' : 'Mute'}
+                      </button>
+                      <button
+                        onClick={() => reset(row)}
+                        className="flex items-center px-2 py-1 rounded text-sm bg-blue-500/20 hover:bg-blue-500/30 transition-colors"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Reset
+                      </button>
+                      <button
+                        onClick={() => kick(row)}
+                        className="flex items-center px-2 py-1 rounded text-sm bg-red-500/20 hover:bg-red-500/30 transition-colors"
+                      >
+                        <UserX className="w-4 h-4 mr-1" />
+                        Kick
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {rows.length === 0 && <p className="text-gray-400">Nobody has joined this room yet.</p>}
+            </div>
+
+            {peekRow && (
+              <div className="bg-white/5 rounded-lg overflow-hidden flex flex-col h-[36rem] lg:sticky lg:top-6">
+                <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+                  <div className="text-sm">
+                    <span className="font-semibold">{peekRow.username}</span>
+                    <span className="text-gray-400">
+                      {' '}
+                      · {peekLive?.level_title ?? peekRow.current_level_title ?? 'No level'}
+                      {peekLanguage && isLanguage(peekLanguage) && ` · ${LANGUAGES[peekLanguage].label}`}
+                      {peekLive
+                        ? ' · live'
+                        : peekRow.draft_updated_at && ` · saved ${new Date(peekRow.draft_updated_at).toLocaleTimeString()}`}
+                    </span>
+                  </div>
+                  <button onClick={() => setPeekUserId(null)} className="p-1 hover:bg-white/10 rounded transition-colors">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex-1">
+                  <Editor
+                    height="100%"
+                    language={peekLanguage && isLanguage(peekLanguage) ? LANGUAGES[peekLanguage].monaco : 'plaintext'}
+                    theme="vs-dark"
+                    value={peekLive?.code ?? peekRow.draft_code ?? ''}
+                    options={{
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      fontSize: 14,
+                      lineNumbers: 'on',
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Chat, with the organizer's moderation controls */}
+          <div className="lg:w-80 h-[36rem] bg-white/5 rounded-lg p-4 flex flex-col lg:sticky lg:top-6">
+            <div className="flex items-center mb-4">
+              <MessageSquare className="text-purple-400 w-5 h-5" />
+              <h2 className="font-semibold ml-2">Chat</h2>
+              {room && !room.chat_enabled && <span className="ml-2 text-xs text-gray-400">off for players</span>}
+            </div>
+            {chatError && <p className="mb-2 text-xs text-red-400">{chatError}</p>}
+            <RoomChat
+              messages={messages}
+              userId={user?.id}
+              disabledReason={null}
+              onSend={sendChat}
+              moderation={{ mutedUserIds: chatMutedIds, onDelete: deleteChatMessage, onToggleMute: toggleChatMute }}
+            />
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
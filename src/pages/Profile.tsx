@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import Editor from '@monaco-editor/react';
+import { ArrowLeft, Clock, Code, Film, Lock, Pencil, Trophy } from 'lucide-react';
+import Avatar from '../components/Avatar';
+import { useAuth } from '../contexts/AuthContext';
+import { formatClock } from '../hooks/useRoomClock';
+import {
+  fetchPlayerProfile,
+  fetchPlayerSolves,
+  fetchPlayerSubmissions,
+  fetchSubmissionCode,
+  type PlayerProfile,
+  type PlayerSolve,
+  type SubmissionSummary,
+} from '../lib/db';
+import { LANGUAGES, isLanguage } from '../lib/runner';
+
+const PAGE_SIZE = 20;
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+const difficultyStyles: Record<string, string> = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-red-500',
+};
+
+export default function Profile() {
+  const { username } = useParams<{ username: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [solves, setSolves] = useState<PlayerSolve[]>([]);
+  const [submissions, setSubmissions] = useState<SubmissionSummary[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [selected, setSelected] = useState<SubmissionSummary | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchSubmissions = useCallback(
+    async (before: string | null) => {
+      if (!username) return;
+      let page: SubmissionSummary[];
+      try {
+        page = await fetchPlayerSubmissions(username, before, PAGE_SIZE);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+      setSubmissions((current) => (before ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    },
+    [username]
+  );
+
+  useEffect(() => {
+    if (!username) return;
+
+    const loadProfile = async () => {
+      setSelected(null);
+      setCode(null);
+
+      try {
+        const [found, playerSolves] = await Promise.all([
+          fetchPlayerProfile(username),
+          fetchPlayerSolves(username),
+        ]);
+        setNotFound(!found);
+        setProfile(found);
+        setSolves(playerSolves);
+        if (found) fetchSubmissions(null);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadProfile();
+  }, [username, fetchSubmissions]);
+
+  const openSubmission = async (submission: SubmissionSummary) => {
+    setSelected(submission);
+    setCode(null);
+    if (!submission.code_visible) return;
+
+    try {
+      setCode(await fetchSubmissionCode(submission.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const byDifficulty = useMemo(
+    () => DIFFICULTIES.map((difficulty) => ({
+      difficulty,
+      count: solves.filter((solve) => solve.difficulty === difficulty).length,
+    })),
+    [solves]
+  );
+
+  const byMovie = useMemo(() => {
+    const counts = new Map<string, number>();
+    solves.forEach((solve) => counts.set(solve.movie_reference, (counts.get(solve.movie_reference) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [solves]);
+
+  const slowestSolve = Math.max(1, ...solves.map((solve) => solve.solve_seconds));
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen p-6 flex flex-col items-center justify-center space-y-4">
+        <p className="text-gray-300">No player called {username}.</p>
+        <button onClick={() => navigate('/dashboard')} className="text-purple-400 hover:text-purple-300">
+          Back to dashboard
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-6xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            {profile && (
+              <>
+                <Avatar
+                  name={profile.display_name ?? profile.username}
+                  url={profile.avatar_url}
+                  className="w-14 h-14 text-2xl ml-4"
+                />
+                <div className="ml-4">
+                  <h1 className="text-2xl font-bold">{profile.display_name ?? profile.username}</h1>
+                  <p className="text-sm text-gray-400">
+                    @{profile.username} · joined {new Date(profile.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+          {profile && profile.id === user?.id && (
+            <button
+              onClick={() => navigate('/profile/edit')}
+              className="flex items-center px-4 py-2 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 transition-colors"
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit Profile
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {profile && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Stats */}
+            <div className="bg-white/10 p-6 rounded-lg backdrop-blur-lg">
+              <div className="flex items-center mb-4">
+                <Trophy className="text-yellow-500 w-6 h-6" />
+                <h2 className="text-xl font-semibold ml-2">Stats</h2>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center mb-6">
+                <div className="p-3 rounded bg-white/5">
+                  <div className="text-2xl font-bold text-purple-400">{profile.points}</div>
+                  <div className="text-xs text-gray-400">points</div>
+                </div>
+                <div className="p-3 rounded bg-white/5">
+                  <div className="text-2xl font-bold">{profile.rooms_played}</div>
+                  <div className="text-xs text-gray-400">rooms</div>
+                </div>
+                <div className="p-3 rounded bg-white/5">
+                  <div className="text-2xl font-bold">{profile.levels_solved}</div>
+                  <div className="text-xs text-gray-400">solved</div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {byDifficulty.map(({ difficulty, count }) => (
+                  <div key={difficulty} className="flex items-center text-sm">
+                    <span className="w-16 capitalize text-gray-300">{difficulty}</span>
+                    <div className="flex-1 h-2 rounded bg-white/5 mx-2">
+                      <div
+                        className={`h-2 rounded ${difficultyStyles[difficulty]}`}
+                        style={{ width: `${solves.length ? (count / solves.length) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Movies */}
+            <div className="bg-white/10 p-6 rounded-lg backdrop-blur-lg">
+              <div className="flex items-center mb-4">
+                <Film className="text-blue-500 w-6 h-6" />
+                <h2 className="text-xl font-semibold ml-2">By Movie</h2>
+              </div>
+              <div className="space-y-2 max-h-56 overflow-y-auto">
+                {byMovie.map(([movie, count]) => (
+                  <div key={movie} className="flex items-center justify-between p-2 rounded bg-white/5 text-sm">
+                    <span>{movie}</span>
+                    <span className="text-purple-400">{count}</span>
+                  </div>
+                ))}
+                {byMovie.length === 0 && <p className="text-center text-gray-400">No levels solved yet</p>}
+              </div>
+            </div>
+
+            {/* Solve times */}
+            <div className="bg-white/10 p-6 rounded-lg backdrop-blur-lg">
+              <div className="flex items-center mb-4">
+                <Clock className="text-green-500 w-6 h-6" />
+                <h2 className="text-xl font-semibold ml-2">Solve Times</h2>
+              </div>
+              {solves.length > 0 ? (
+                <div className="flex items-end h-40 gap-1">
+                  {solves.map((solve) => (
+                    <div
+                      key={solve.level_id}
+                      title={`${solve.level_title} (${solve.room_name}): ${formatClock(solve.solve_seconds * 1000)}`}
+                      className={`flex-1 min-w-[4px] rounded-t ${difficultyStyles[solve.difficulty] ?? 'bg-purple-500'}`}
+                      style={{ height: `${Math.max(4, (solve.solve_seconds / slowestSolve) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center text-gray-400">No levels solved yet</p>
+              )}
+            </div>
+
+            {/* Submissions */}
+            <div className="md:col-span-3 grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white/10 p-6 rounded-lg backdrop-blur-lg">
+                <div className="flex items-center mb-4">
+                  <Code className="text-purple-500 w-6 h-6" />
+                  <h2 className="text-xl font-semibold ml-2">Submissions</h2>
+                </div>
+                <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+                  {submissions.map((submission) => (
+                    <button
+                      key={submission.id}
+                      onClick={() => openSubmission(submission)}
+                      className={`w-full text-left p-3 rounded transition-colors ${
+                        selected?.id === submission.id ? 'bg-purple-500/20' : 'bg-white/5 hover:bg-white/10'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{submission.level_title}</span>
+                        <span
+                          className={`text-sm ${submission.status === 'completed' ? 'text-green-400' : 'text-red-400'}`}
+                        >
+                          {submission.tests_passed}/{submission.tests_total}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm text-gray-400">
+                        <span>
+                          {submission.room_name} ·{' '}
+                          {isLanguage(submission.language) ? LANGUAGES[submission.language].label : submission.language}
+                        </span>
+                        <span>{new Date(submission.submitted_at).toLocaleString()}</span>
+                      </div>
+                    </button>
+                  ))}
+                  {submissions.length === 0 && <p className="text-center text-gray-400">No submissions yet</p>}
+                  {hasMore && (
+                    <button
+                      onClick={() => fetchSubmissions(submissions[submissions.length - 1].submitted_at)}
+                      className="w-full py-2 text-sm text-purple-400 hover:text-purple-300"
+                    >
+                      Load more
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white/10 rounded-lg backdrop-blur-lg overflow-hidden min-h-[28rem] flex flex-col">
+                {!selected && (
+                  <div className="flex-1 flex items-center justify-center text-gray-400">
+                    Pick a submission to see its code
+                  </div>
+                )}
+                {selected && !selected.code_visible && (
+                  <div className="flex-1 flex flex-col items-center justify-center text-gray-400 space-y-2">
+                    <Lock className="w-8 h-8" />
+                    <p>This code is hidden until the room ends.</p>
+                  </div>
+                )}
+                {selected && selected.code_visible && (
+                  <Editor
+                    height="28rem"
+                    language={isLanguage(selected.language) ? LANGUAGES[selected.language].monaco : 'plaintext'}
+                    theme="vs-dark"
+                    value={code ?? ''}
+                    options={{
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      fontSize: 14,
+                      lineNumbers: 'on',
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true,
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
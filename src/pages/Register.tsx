@@ -1,27 +1,92 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate, Link } from 'react-router-dom';
-import { Terminal } from 'lucide-react';
+import { useNavigate, Link, useLocation } from 'react-router-dom';
+import { MailCheck, Terminal } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useUsernameAvailability, type UsernameStatus } from '../hooks/useUsernameAvailability';
+import { returnPath } from '../lib/redirect';
+
+const usernameStatusColors: Record<UsernameStatus, string> = {
+  idle: 'text-gray-400',
+  invalid: 'text-red-400',
+  checking: 'text-gray-400',
+  available: 'text-green-400',
+  taken: 'text-red-400',
+};
 
 export default function Register() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
   const [error, setError] = useState('');
-  const { signUp } = useAuth();
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [resent, setResent] = useState(false);
+  const { signUp, resendConfirmation } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const availability = useUsernameAvailability(username);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
+    try {
+      const { session } = await signUp(email, password, username);
+      if (!session) {
+        setPendingEmail(email);
+        return;
+      }
+      navigate(returnPath(location.state), { replace: true });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!pendingEmail) return;
     try {
-      await signUp(email, password, username);
-      navigate('/dashboard');
+      await resendConfirmation(pendingEmail);
+      setResent(true);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  if (pendingEmail) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/10 p-8 rounded-lg backdrop-blur-lg w-full max-w-md text-center space-y-4"
+        >
+          <MailCheck className="text-purple-500 w-12 h-12 mx-auto" />
+          <h1 className="text-2xl font-bold">Check your inbox</h1>
+          <p className="text-gray-300">
+            We sent a confirmation link to <span className="font-medium text-white">{pendingEmail}</span>.
+            Follow it to finish creating your account.
+          </p>
+          {error && (
+            <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
+              {error}
+            </div>
+          )}
+          <button
+            onClick={handleResend}
+            disabled={resent}
+            className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-400"
+          >
+            {resent ? 'Sent again' : "Didn't get it? Send it again"}
+          </button>
+          <p className="text-sm">
+            <Link to="/" state={location.state} className="text-purple-400 hover:text-purple-300">
+              Back to sign in
+            </Link>
+          </p>
+        </motion.div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <motion.div
@@ -46,10 +111,16 @@ export default function Register() {
             <input
               type="text"
               value={username}
-              onChange={(e) => setUsername(e.target.value)}
+              onChange={(e) => setUsername(e.target.value.trim())}
               className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+              autoComplete="username"
               required
             />
+            {availability.status !== 'idle' && (
+              <p className={`mt-1 text-sm ${usernameStatusColors[availability.status]}`}>
+                {availability.status === 'checking' ? 'Checking...' : availability.message}
+              </p>
+            )}
           </div>
 
           <div>
@@ -76,7 +147,8 @@ export default function Register() {
 
           <button
             type="submit"
-            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity"
+            disabled={availability.status !== 'available'}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
           >
             Sign Up
           </button>
@@ -84,7 +156,7 @@ export default function Register() {
 
         <p className="mt-4 text-center text-sm">
           Already have an account?{' '}
-          <Link to="/" className="text-purple-400 hover:text-purple-300">
+          <Link to="/" state={location.state} className="text-purple-400 hover:text-purple-300">
             Sign in here
           </Link>
         </p>
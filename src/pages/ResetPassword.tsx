@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { authErrorFromUrl } from '../lib/redirect';
+
+// The reset email links here. Supabase turns the link's token into a
+// recovery session before this renders, so an expired or reused link shows
+// up as no user.
+export default function ResetPassword() {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [linkError] = useState(authErrorFromUrl);
+  const { user, updatePassword } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    try {
+      await updatePassword(password);
+      navigate('/dashboard', { replace: true });
+    } catch (err: any) {
+      setError(err.message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 p-8 rounded-lg backdrop-blur-lg w-full max-w-md"
+      >
+        <div className="flex items-center justify-center mb-8">
+          <KeyRound className="text-purple-500 w-10 h-10" />
+          <h1 className="text-2xl font-bold ml-2">Choose a New Password</h1>
+        </div>
+
+        {!user ? (
+          <div className="space-y-4 text-center">
+            <p className="text-gray-300">{linkError ?? 'This reset link is invalid or has expired.'}</p>
+            <Link to="/forgot-password" className="text-purple-400 hover:text-purple-300">
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-red-500/20 border border-red-500 text-red-200 p-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">New Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                autoComplete="new-password"
+                minLength={6}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Confirm Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-2 rounded bg-white/5 border border-white/10 focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                autoComplete="new-password"
+                minLength={6}
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 py-2 rounded-md font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Update Password'}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,81 +1,211 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Terminal, Play, Users, Trophy, Timer, ArrowLeft } from 'lucide-react';
+import { Terminal, Play, Send, Users, Trophy, Timer, ArrowLeft, History, MessageSquare } from 'lucide-react';
 import Editor from '@monaco-editor/react';
+import ReactMarkdown from 'react-markdown';
 import { useAuth } from '../contexts/AuthContext';
+import { formatClock, useRoomClock, type ClockStatus } from '../hooks/useRoomClock';
+import { useRoomLeaderboard } from '../hooks/useRoomLeaderboard';
+import { useDraftAutosave, type DraftStatus } from '../hooks/useDraftAutosave';
+import { useProctorFeed } from '../hooks/useProctorFeed';
+import { useRoomPresence, type PresenceChange } from '../hooks/useRoomPresence';
+import { useRoomChat } from '../hooks/useRoomChat';
+import { useToasts } from '../hooks/useToasts';
+import LevelNavigator from '../components/LevelNavigator';
+import AttemptHistory from '../components/AttemptHistory';
+import AttemptDiff from '../components/AttemptDiff';
+import AnnouncementBanner from '../components/AnnouncementBanner';
+import LevelHints from '../components/LevelHints';
+import RoomChat from '../components/RoomChat';
+import RoomLobby from '../components/RoomLobby';
+import RoomResults from '../components/RoomResults';
+import ToastStack from '../components/ToastStack';
 import { supabase } from '../lib/supabase';
+import {
+  applyLevelTimeLimit,
+  applyRoomSchedule,
+  fetchAttempts,
+  fetchDrafts,
+  fetchLevel,
+  fetchLevelProgress,
+  fetchParticipantStatus,
+  fetchPlayerHints,
+  fetchRoom,
+  revealHint,
+  type Attempt,
+  type Level,
+  type LeaderboardEntry,
+  type LevelProgressEntry,
+  type PlayerHint,
+  type Room as RoomRow,
+} from '../lib/db';
+import { runTests as runLevelTests, submitSolution, type GradeResult } from '../lib/grader';
+import type { ModerationNotice } from '../lib/proctor';
+import { presenceLabels, presenceStyles } from '../lib/presence';
+import {
+  LANGUAGES,
+  type Language,
+  type TestResult,
+} from '../lib/runner';
 
-interface Level {
-  id: string;
-  title: string;
-  description: string;
-  initial_code: string;
-  test_cases: {
-    input: string;
-    expected: string;
-    description: string;
-  }[];
-  movie_reference: string;
-  difficulty: string;
-}
-
-interface TestResult {
-  passed: boolean;
-  message: string;
-  output?: string;
-}
+const clockLabels: Record<ClockStatus, string> = {
+  untimed: 'No time limit',
+  scheduled: 'Starts in',
+  running: 'Time left:',
+  paused: 'Paused —',
+  expired: "Time's up",
+};
+
+const starterCodeFor = (level: Level, language: Language) =>
+  level.starter_code[language] ?? (language === 'javascript' ? level.initial_code : '');
+
+const draftLabels: Record<DraftStatus, string> = {
+  idle: '',
+  saving: 'Saving draft…',
+  saved: 'Draft saved',
+  error: 'Draft not saved',
+};
+
+const statusColors: Record<TestResult['status'], string> = {
+  passed: 'text-green-400',
+  failed: 'text-red-400',
+  error: 'text-red-400',
+  timeout: 'text-yellow-400',
+};
 
 export default function Room() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [room, setRoom] = useState<any>(null);
+  const { user, profile } = useAuth();
+  const [room, setRoom] = useState<RoomRow | null>(null);
+  const [progress, setProgress] = useState<LevelProgressEntry[]>([]);
+  const [selectedLevelId, setSelectedLevelId] = useState<string | null>(null);
   const [currentLevel, setCurrentLevel] = useState<Level | null>(null);
   const [code, setCode] = useState('');
+  const [language, setLanguage] = useState<Language>('javascript');
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [isRunning, setIsRunning] = useState(false);
-  const [participants, setParticipants] = useState<any[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [verdict, setVerdict] = useState<GradeResult | null>(null);
+  // Run and submit failures, shown next to the editor; the page-level error
+  // replaces the whole room
+  const [editorError, setEditorError] = useState('');
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [hints, setHints] = useState<PlayerHint[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [diffAttempt, setDiffAttempt] = useState<Attempt | null>(null);
+  // The code the editor was loaded with, which autosave skips
+  const [draftBaseline, setDraftBaseline] = useState('');
+  const [muted, setMuted] = useState(false);
+  const [chatMuted, setChatMuted] = useState(false);
+  const [sidebarTab, setSidebarTab] = useState<'leaderboard' | 'chat'>('leaderboard');
+  // Messages after this count as unread while the leaderboard is showing
+  const [chatSeenAt, setChatSeenAt] = useState(() => Date.now());
+  // Bumped when the organizer resets this participant, to reload the level
+  const [resetCount, setResetCount] = useState(0);
   const [error, setError] = useState('');
+  const clock = useRoomClock(room);
+  const { status: draftStatus, flush: flushDraft } = useDraftAutosave(currentLevel?.id, language, code, draftBaseline);
+  const { toasts, push: pushToast, dismiss: dismissToast } = useToasts();
 
-  useEffect(() => {
-    if (!user) {
-      navigate('/');
+  const handleFirstSolve = (entry: LeaderboardEntry, levelId: string) => {
+    if (entry.user_id === user?.id) return;
+    // Levels still locked for this player have no title here
+    const title = progress.find((level) => level.level_id === levelId)?.title;
+    pushToast(`${entry.username} was the first to solve ${title ?? 'a level'}`, 'success');
+  };
+
+  const handlePresenceChange = ({ kind, presence }: PresenceChange) => {
+    pushToast(`${presence.username} ${kind === 'joined' ? 'joined' : 'left'} the room`);
+  };
+
+  const { entries: standings } = useRoomLeaderboard(id, handleFirstSolve);
+  const present = useRoomPresence(id, user?.id, profile?.username, handlePresenceChange);
+  const onlineCount = Object.keys(present).length;
+  const { messages, unreadAnnouncements, error: chatError, send: sendChat, markRead } = useRoomChat(id, user?.id);
+  const unreadCount = messages.filter(
+    (message) => message.user_id !== user?.id && new Date(message.created_at).getTime() > chatSeenAt
+  ).length;
+  const levelEntry = progress.find((entry) => entry.level_id === currentLevel?.id);
+  // The player's own clock on a timed level, which starts when it opens for them
+  const levelClock = useRoomClock(
+    levelEntry?.ends_at || levelEntry?.paused_remaining_seconds != null
+      ? {
+          starts_at: levelEntry.unlocked_at,
+          ends_at: levelEntry.ends_at,
+          paused_remaining_seconds: levelEntry.paused_remaining_seconds,
+        }
+      : null
+  );
+  const levelTimeUp =
+    levelEntry?.state === 'expired' || (levelEntry?.state === 'current' && levelClock.status === 'expired');
+  const isLocked =
+    room?.status !== 'running' || clock.status === 'scheduled' || clock.status === 'expired' || levelTimeUp;
+  // A lobby whose scheduled start has passed, or a running room out of time
+  const scheduleDue =
+    (room?.status === 'lobby' && room.starts_at !== null && clock.status !== 'scheduled') ||
+    (room?.status === 'running' && clock.status === 'expired');
+
+  const proctorState = useMemo(
+    () => (currentLevel ? { level_id: currentLevel.id, level_title: currentLevel.title, language, code } : null),
+    [currentLevel, language, code]
+  );
+
+  const handleModeration = (notice: ModerationNotice) => {
+    if (notice.action === 'kicked') {
+      window.alert('The organizer removed you from this room.');
+      navigate('/dashboard', { replace: true });
+    } else if (notice.action === 'muted') {
+      setMuted(notice.muted);
+    } else if (notice.action === 'chat_muted') {
+      setChatMuted(notice.muted);
+    } else {
+      setResetCount((count) => count + 1);
+      fetchProgress();
+    }
+  };
+
+  const { notifySubmitted } = useProctorFeed(id, user?.id, proctorState, handleModeration);
+
+  const fetchProgress = useCallback(async () => {
+    if (!id) return;
+    let data: LevelProgressEntry[];
+    try {
+      data = await fetchLevelProgress(id);
+    } catch (err: any) {
+      setError(err.message);
       return;
     }
+    setProgress(data);
+    // Stay on the selected level if it is still open, otherwise jump to the
+    // first unsolved level (or the last solved one once everything is done).
+    setSelectedLevelId((selected) => {
+      const open = data.filter((entry) => entry.level_id);
+      if (selected && open.some((entry) => entry.level_id === selected)) return selected;
+      const next = open.find((entry) => entry.state === 'current') ?? open[open.length - 1];
+      return next?.level_id ?? null;
+    });
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
 
     const fetchRoomData = async () => {
       try {
         // Fetch room details
-        const { data: roomData, error: roomError } = await supabase
-          .from('rooms')
-          .select('*')
-          .eq('id', id)
-          .single();
-
-        if (roomError) throw roomError;
+        const roomData = await fetchRoom(id);
         setRoom(roomData);
 
-        // Fetch current level
-        const { data: levelData, error: levelError } = await supabase
-          .from('levels')
-          .select('*')
-          .eq('room_id', id)
-          .eq('status', 'active')
-          .single();
-
-        if (levelError) throw levelError;
-        setCurrentLevel(levelData);
-        setCode(levelData.initial_code);
-
-        // Fetch participants
-        const { data: participantData, error: participantError } = await supabase
-          .from('room_participants')
-          .select('user_id, users:users(username, points)')
-          .eq('room_id', id);
-
-        if (participantError) throw participantError;
-        setParticipants(participantData);
+        const status = await fetchParticipantStatus(id);
+        // Players who haven't joined go through the join page first
+        if (!status) {
+          navigate(`/join/${encodeURIComponent(roomData.code)}`, { replace: true });
+          return;
+        }
+        setMuted(status.muted);
+        setChatMuted(status.chat_muted);
+        await fetchProgress();
       } catch (err: any) {
         setError(err.message);
       }
@@ -83,68 +213,157 @@ export default function Room() {
 
     fetchRoomData();
 
-    // Subscribe to room updates
+    // Subscribe to this room's updates. Clock changes (pause, extend) arrive
+    // here, so only the room row is replaced to keep the player's code intact.
+    // When the organizer opens the next level in lockstep mode, or the room
+    // starts, the navigator refreshes.
     const roomSubscription = supabase
-      .channel(`room:${id}`)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms' }, fetchRoomData)
+      .channel(`room_updates:${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rooms', filter: `id=eq.${id}` },
+        (payload) => {
+          setRoom(payload.new as RoomRow);
+          if (
+            payload.new.current_position !== payload.old.current_position ||
+            payload.new.status !== payload.old.status
+          ) {
+            fetchProgress();
+          }
+        }
+      )
       .subscribe();
 
     return () => {
       roomSubscription.unsubscribe();
     };
-  }, [id, user, navigate]);
+  }, [id, fetchProgress, navigate]);
+
+  useEffect(() => {
+    if (sidebarTab === 'chat') setChatSeenAt(Date.now());
+  }, [sidebarTab, messages]);
+
+  // Whoever notices first moves the room along; the database checks the clock
+  useEffect(() => {
+    if (!id || !scheduleDue) return;
+    applyRoomSchedule(id).catch((err) => setError(err.message));
+  }, [id, scheduleDue]);
+
+  // In self-paced rooms this opens the next level; the database checks the clock
+  useEffect(() => {
+    if (!currentLevel || levelEntry?.state !== 'current' || levelClock.status !== 'expired') return;
+    applyLevelTimeLimit(currentLevel.id)
+      .then(fetchProgress)
+      .catch((err) => setError(err.message));
+  }, [currentLevel, levelEntry?.state, levelClock.status, fetchProgress]);
+
+  useEffect(() => {
+    if (!selectedLevelId) return;
+
+    const loadLevel = async () => {
+      try {
+        const levelData = await fetchLevel(selectedLevelId);
+        const [drafts, levelAttempts, levelHints] = await Promise.all([
+          fetchDrafts(levelData.id),
+          fetchAttempts(levelData.id),
+          fetchPlayerHints(levelData.id),
+        ]);
+
+        // Reopen the most recently edited draft, in a language the level still accepts
+        const draft = drafts.find((entry) => levelData.languages.includes(entry.language));
+        const initialLanguage = draft?.language ?? levelData.languages[0] ?? 'javascript';
+        const initialCode = draft?.code ?? starterCodeFor(levelData, initialLanguage);
+        setCurrentLevel(levelData);
+        setLanguage(initialLanguage);
+        setCode(initialCode);
+        setDraftBaseline(initialCode);
+        setAttempts(levelAttempts);
+        setHints(levelHints);
+        setDiffAttempt(null);
+        setTestResults([]);
+        setVerdict(null);
+        setEditorError('');
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadLevel();
+  }, [selectedLevelId, resetCount]);
+
+  const handleRevealHint = async () => {
+    if (!currentLevel) return;
+    await revealHint(currentLevel.id);
+    setHints(await fetchPlayerHints(currentLevel.id));
+  };
 
   const runTests = async () => {
     setIsRunning(true);
     setTestResults([]);
+    setEditorError('');
 
     try {
-      // In a real implementation, you'd want to run these tests in a secure environment
-      // For now, we'll simulate test execution
-      const results = currentLevel?.test_cases.map((test) => {
-        try {
-          // This is a simplified example. In production, you'd want to:
-          // 1. Send the code to a secure backend
-          // 2. Run tests in a sandboxed environment
-          // 3. Handle timeouts and security concerns
-          const testFunction = new Function('input', code);
-          const output = testFunction(test.input);
-          const passed = output.toString() === test.expected;
-
-          return {
-            passed,
-            message: passed ? 'Test passed!' : 'Test failed',
-            output: output.toString(),
-          };
-        } catch (err: any) {
-          return {
-            passed: false,
-            message: err.message,
-          };
-        }
-      });
-
-      setTestResults(results || []);
-
-      // If all tests pass, submit the solution
-      if (results?.every((r) => r.passed)) {
-        await supabase.from('submissions').insert([
-          {
-            user_id: user.id,
-            level_id: currentLevel?.id,
-            code,
-            status: 'completed',
-            points: 100, // Calculate points based on time, difficulty, etc.
-          },
-        ]);
-      }
+      const results = currentLevel
+        ? await runLevelTests(code, currentLevel.test_cases, {
+            entryPoint: currentLevel.entry_point,
+            parameters: currentLevel.parameters,
+            returnType: currentLevel.return_type,
+          }, language)
+        : [];
+      setTestResults(results);
     } catch (err: any) {
-      setError(err.message);
+      setEditorError(err.message);
     } finally {
       setIsRunning(false);
     }
   };
 
+  // Drafts are kept per language, so switching back restores the earlier code
+  const changeLanguage = async (next: Language) => {
+    if (!currentLevel || next === language) return;
+    try {
+      await flushDraft();
+      const drafts = await fetchDrafts(currentLevel.id);
+      const nextCode = drafts.find((draft) => draft.language === next)?.code ?? starterCodeFor(currentLevel, next);
+      setLanguage(next);
+      setCode(nextCode);
+      setDraftBaseline(nextCode);
+      setTestResults([]);
+      setVerdict(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const restoreAttempt = (attempt: Attempt) => {
+    if (code !== attempt.code && !window.confirm('Replace the code in the editor with this attempt?')) return;
+    setLanguage(attempt.language);
+    setCode(attempt.code);
+    setDiffAttempt(null);
+    setTestResults(attempt.test_results?.sample_results ?? []);
+    setVerdict(null);
+  };
+
+  const submitCode = async () => {
+    if (!currentLevel) return;
+    setIsSubmitting(true);
+    setVerdict(null);
+    setEditorError('');
+
+    try {
+      const result = await submitSolution(currentLevel.id, code, language);
+      setVerdict(result);
+      setTestResults(result.sample_results);
+      setAttempts(await fetchAttempts(currentLevel.id));
+      notifySubmitted();
+      if (result.status === 'completed') await fetchProgress();
+    } catch (err: any) {
+      setEditorError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -155,6 +374,45 @@ export default function Room() {
     );
   }
 
+  if (room && (room.status === 'draft' || room.status === 'lobby')) {
+    return (
+      <>
+        <RoomLobby
+          name={room.name}
+          isDraft={room.status === 'draft'}
+          clock={clock}
+          participantCount={standings.length}
+          onLeave={() => navigate('/dashboard')}
+        />
+        <ToastStack toasts={toasts} onDismiss={dismissToast} />
+      </>
+    );
+  }
+
+  if (room && (room.status === 'finished' || room.status === 'archived')) {
+    return (
+      <RoomResults
+        name={room.name}
+        standings={standings}
+        userId={user?.id}
+        onLeave={() => navigate('/dashboard')}
+        onViewProfile={(username) => navigate(`/u/${username}`)}
+      />
+    );
+  }
+
+  if (room && !selectedLevelId && progress.every((entry) => entry.state === 'locked')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="bg-white/5 rounded-lg p-8 text-center space-y-2">
+          <Terminal className="w-8 h-8 mx-auto text-purple-500" />
+          <h2 className="text-xl font-bold">{room.name}</h2>
+          <p className="text-gray-400">Waiting for the organizer to open the first level…</p>
+        </div>
+      </div>
+    );
+  }
+
   if (!room || !currentLevel) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -185,16 +443,39 @@ export default function Room() {
           <div className="flex items-center space-x-4">
             <div className="flex items-center">
               <Users className="w-5 h-5 mr-2" />
-              <span>{participants.length} participants</span>
+              <span>
+                {standings.length} participants · {onlineCount} online
+              </span>
             </div>
             <div className="flex items-center">
-              <Timer className="w-5 h-5 mr-2" />
-              <span>Time left: 30:00</span>
+              <Timer className={`w-5 h-5 mr-2 ${clock.status === 'running' && clock.remainingMs < 60_000 ? 'text-red-400 animate-pulse' : ''}`} />
+              <span className={clock.status === 'expired' ? 'text-red-400' : undefined}>
+                {clockLabels[clock.status]}
+                {(clock.status === 'scheduled' || clock.status === 'running' || clock.status === 'paused') &&
+                  ` ${formatClock(clock.remainingMs)}`}
+              </span>
             </div>
           </div>
         </div>
       </div>
 
+      <AnnouncementBanner
+        announcements={unreadAnnouncements}
+        onRead={(message) => markRead(message.id).catch((err) => setError(err.message))}
+      />
+
+      {progress.length > 1 && (
+        <div className="border-b border-white/10 px-4 py-2">
+          <div className="max-w-7xl mx-auto">
+            <LevelNavigator
+              progress={progress}
+              selectedLevelId={selectedLevelId}
+              onSelect={setSelectedLevelId}
+            />
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-4 p-4 max-w-7xl mx-auto w-full">
         {/* Left Panel - Problem Description */}
         <motion.div
@@ -210,15 +491,44 @@ export default function Room() {
               </span>
               <span className="text-gray-400">•</span>
               <span className="text-gray-400">{currentLevel.movie_reference}</span>
+              {levelEntry?.state !== 'solved' && (levelClock.status !== 'untimed' || levelTimeUp) && (
+                <>
+                  <span className="text-gray-400">•</span>
+                  <span
+                    className={`flex items-center ${
+                      levelTimeUp || (levelClock.status === 'running' && levelClock.remainingMs < 60_000)
+                        ? 'text-red-400'
+                        : 'text-gray-300'
+                    }`}
+                  >
+                    <Timer className="w-4 h-4 mr-1" />
+                    {levelTimeUp ? "Time's up" : `Level time: ${formatClock(levelClock.remainingMs)}`}
+                  </span>
+                </>
+              )}
             </div>
           </div>
 
           <div className="prose prose-invert">
-            <p>{currentLevel.description}</p>
+            <ReactMarkdown>{currentLevel.description}</ReactMarkdown>
           </div>
 
+          <LevelHints
+            hints={hints}
+            disabledReason={
+              isLocked
+                ? 'Hints open while the level is running'
+                : muted
+                  ? 'The organizer has muted you, so hints are paused'
+                  : progress.some((entry) => entry.level_id === currentLevel.id && entry.state === 'solved')
+                    ? 'You already solved this level'
+                    : null
+            }
+            onReveal={handleRevealHint}
+          />
+
           <div>
-            <h3 className="text-lg font-semibold mb-3">Test Cases</h3>
+            <h3 className="text-lg font-semibold mb-3">Sample Tests</h3>
             <div className="space-y-3">
               {currentLevel.test_cases.map((test, index) => (
                 <div
@@ -235,13 +545,29 @@ export default function Room() {
                     </div>
                   </div>
                   {testResults[index] && (
-                    <div className={`mt-2 text-sm ${testResults[index].passed ? 'text-green-400' : 'text-red-400'}`}>
-                      {testResults[index].message}
-                      {testResults[index].output && (
+                    <div className={`mt-2 text-sm ${statusColors[testResults[index].status]}`}>
+                      <div className="flex items-center justify-between">
+                        <span>{testResults[index].message}</span>
+                        <span className="text-xs text-gray-500">
+                          {testResults[index].runtimeMs.toFixed(1)}ms
+                        </span>
+                      </div>
+                      {testResults[index].output !== undefined && (
                         <div className="text-gray-400">
                           Output: {testResults[index].output}
                         </div>
                       )}
+                      {testResults[index].stdout.length > 0 && (
+                        <pre className="mt-2 p-2 rounded bg-black/30 text-xs text-gray-300 whitespace-pre-wrap max-h-32 overflow-auto">
+                          {testResults[index].stdout.join('\n')}
+                        </pre>
+                      )}
+                      {testResults[index].stack && (
+                        <details className="mt-2 text-xs text-gray-400">
+                          <summary className="cursor-pointer">Stack trace</summary>
+                          <pre className="whitespace-pre-wrap">{testResults[index].stack}</pre>
+                        </details>
+                      )}
                     </div>
                   )}
                 </div>
@@ -257,32 +583,164 @@ export default function Room() {
           className="lg:col-span-2 bg-white/5 rounded-lg overflow-hidden flex flex-col"
         >
           <div className="p-4 border-b border-white/10 flex items-center justify-between">
-            <h3 className="font-semibold">Solution</h3>
-            <button
-              onClick={runTests}
-              disabled={isRunning}
-              className="flex items-center px-4 py-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
-            >
-              <Play className="w-4 h-4 mr-2" />
-              {isRunning ? 'Running...' : 'Run Tests'}
-            </button>
+            <div className="flex items-center space-x-3">
+              <h3 className="font-semibold">Solution</h3>
+              {currentLevel.languages.length > 1 ? (
+                <select
+                  value={language}
+                  onChange={(e) => changeLanguage(e.target.value as Language)}
+                  disabled={isLocked}
+                  className="px-2 py-1 rounded bg-white/5 border border-white/10 text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                >
+                  {currentLevel.languages.map((option) => (
+                    <option key={option} value={option} className="bg-gray-800">
+                      {LANGUAGES[option].label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="px-2 py-1 rounded bg-white/5 text-sm text-gray-300">
+                  {LANGUAGES[language].label}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {draftStatus !== 'idle' && (
+                <span className={`text-xs ${draftStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                  {draftLabels[draftStatus]}
+                </span>
+              )}
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center px-4 py-2 rounded transition-colors ${
+                  showHistory ? 'bg-purple-500/30' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                <History className="w-4 h-4 mr-2" />
+                History ({attempts.length})
+              </button>
+              <button
+                onClick={runTests}
+                disabled={isRunning || isSubmitting || isLocked}
+                className="flex items-center px-4 py-2 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                {isRunning ? 'Running...' : 'Run Samples'}
+              </button>
+              <button
+                onClick={submitCode}
+                disabled={isRunning || isSubmitting || isLocked || muted}
+                className="flex items-center px-4 py-2 rounded bg-purple-500 hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {isSubmitting ? 'Grading...' : 'Submit'}
+              </button>
+            </div>
           </div>
-          <div className="flex-1">
-            <Editor
-              height="100%"
-              defaultLanguage="javascript"
-              theme="vs-dark"
-              value={code}
-              onChange={(value) => setCode(value || '')}
-              options={{
-                minimap: { enabled: false },
-                fontSize: 14,
-                lineNumbers: 'on',
-                roundedSelection: false,
-                scrollBeyondLastLine: false,
-                automaticLayout: true,
-              }}
-            />
+          {isLocked && (
+            <div className="px-4 py-3 border-b border-white/10 text-sm bg-yellow-500/10 text-yellow-300">
+              {room.status === 'paused' && 'The organizer has paused the room. The editor is locked until it resumes.'}
+              {room.status === 'running' &&
+                clock.status === 'scheduled' &&
+                'The chase has not started yet. The editor unlocks when the clock starts.'}
+              {room.status === 'running' && clock.status === 'expired' && "Time's up! Submissions are closed for this room."}
+              {room.status === 'running' &&
+                clock.status !== 'expired' &&
+                clock.status !== 'scheduled' &&
+                levelTimeUp &&
+                "Time's up for this level. Submissions to it are closed."}
+            </div>
+          )}
+          {muted && (
+            <div className="px-4 py-3 border-b border-white/10 text-sm bg-red-500/10 text-red-300">
+              The organizer has muted you. You can keep coding, but submissions are paused until they unmute you.
+            </div>
+          )}
+          {editorError && (
+            <div className="px-4 py-3 border-b border-white/10 text-sm bg-red-500/10 text-red-300">
+              {editorError}
+            </div>
+          )}
+          {verdict && (
+            <div
+              className={`px-4 py-3 border-b border-white/10 text-sm flex items-center justify-between ${
+                verdict.status === 'completed' ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'
+              }`}
+            >
+              <span>
+                {verdict.status === 'completed' ? 'Accepted' : 'Not quite'}: {verdict.tests_passed}/
+                {verdict.tests_total} tests passed
+                {verdict.hidden_results.length > 0 &&
+                  ` (${verdict.hidden_results.filter((r) => r.status === 'passed').length}/${verdict.hidden_results.length} hidden)`}
+              </span>
+              <span className="font-semibold">+{verdict.points} points</span>
+            </div>
+          )}
+          {verdict?.score_breakdown && (
+            <div className="px-4 py-2 border-b border-white/10 text-xs text-gray-400 flex flex-wrap gap-x-4">
+              <span>Base {verdict.score_breakdown.base}</span>
+              <span className="text-green-400">Speed +{verdict.score_breakdown.speed_bonus}</span>
+              {verdict.score_breakdown.first_solve_bonus > 0 && (
+                <span className="text-yellow-400">First solve +{verdict.score_breakdown.first_solve_bonus}</span>
+              )}
+              {verdict.score_breakdown.attempt_penalty > 0 && (
+                <span className="text-red-400">
+                  {verdict.score_breakdown.failed_attempts} failed attempts −{verdict.score_breakdown.attempt_penalty}
+                </span>
+              )}
+              {!!verdict.score_breakdown.hint_penalty && (
+                <span className="text-red-400">
+                  {verdict.score_breakdown.hints_used} hints −{verdict.score_breakdown.hint_penalty}
+                </span>
+              )}
+            </div>
+          )}
+          {verdict?.status === 'completed' && !verdict.score_breakdown && (
+            <div className="px-4 py-2 border-b border-white/10 text-xs text-gray-400">
+              You already solved this level, so this submission doesn't change your score.
+            </div>
+          )}
+          <div className="flex-1 flex min-h-0">
+            <div className="flex-1 min-w-0">
+              {diffAttempt ? (
+                <AttemptDiff
+                  key={diffAttempt.id}
+                  original={diffAttempt}
+                  attempts={attempts}
+                  currentCode={code}
+                  currentLanguage={language}
+                  onClose={() => setDiffAttempt(null)}
+                />
+              ) : (
+                <Editor
+                  height="100%"
+                  language={LANGUAGES[language].monaco}
+                  theme="vs-dark"
+                  value={code}
+                  onChange={(value) => setCode(value || '')}
+                  options={{
+                    readOnly: isLocked,
+                    minimap: { enabled: false },
+                    fontSize: 14,
+                    lineNumbers: 'on',
+                    roundedSelection: false,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                  }}
+                />
+              )}
+            </div>
+            {showHistory && (
+              <div className="w-64 border-l border-white/10 overflow-y-auto">
+                <AttemptHistory
+                  attempts={attempts}
+                  comparingId={diffAttempt?.id ?? null}
+                  canRestore={(attempt) => !isLocked && currentLevel.languages.includes(attempt.language)}
+                  onRestore={restoreAttempt}
+                  onCompare={setDiffAttempt}
+                />
+              </div>
+            )}
           </div>
         </motion.div>
       </div>
@@ -291,33 +749,87 @@ export default function Room() {
       <motion.div
         initial={{ opacity: 0, x: 20 }}
         animate={{ opacity: 1, x: 0 }}
-        className="fixed right-4 top-24 bottom-4 w-64 bg-white/5 rounded-lg p-4"
+        className="fixed right-4 top-24 bottom-4 w-64 bg-white/5 rounded-lg p-4 flex flex-col"
       >
-        <div className="flex items-center mb-4">
-          <Trophy className="text-yellow-500 w-5 h-5" />
-          <h3 className="text-lg font-semibold ml-2">Leaderboard</h3>
+        <div className="flex items-center mb-4 space-x-1">
+          <button
+            onClick={() => setSidebarTab('leaderboard')}
+            className={`flex items-center px-2 py-1 rounded transition-colors ${
+              sidebarTab === 'leaderboard' ? 'bg-white/10' : 'hover:bg-white/5 text-gray-400'
+            }`}
+          >
+            <Trophy className="text-yellow-500 w-5 h-5" />
+            <span className="font-semibold ml-2">Leaderboard</span>
+          </button>
+          <button
+            onClick={() => setSidebarTab('chat')}
+            className={`flex items-center px-2 py-1 rounded transition-colors ${
+              sidebarTab === 'chat' ? 'bg-white/10' : 'hover:bg-white/5 text-gray-400'
+            }`}
+          >
+            <MessageSquare className="text-purple-400 w-5 h-5" />
+            <span className="font-semibold ml-2">Chat</span>
+            {sidebarTab !== 'chat' && unreadCount > 0 && (
+              <span className="ml-2 px-1.5 rounded-full text-xs bg-purple-500">{unreadCount}</span>
+            )}
+          </button>
         </div>
-        <div className="space-y-2">
-          {participants
-            .sort((a, b) => b.users.points - a.users.points)
-            .map((participant, index) => (
-              <div
-                key={participant.user_id}
-                className="flex items-center p-2 rounded bg-white/5"
-              >
-                <div className="w-6 h-6 flex items-center justify-center rounded-full bg-gradient-to-br from-purple-500 to-blue-500 mr-2 text-sm">
-                  {index + 1}
-                </div>
-                <div>
-                  <p className="font-medium">{participant.users.username}</p>
-                  <p className="text-sm text-purple-400">
-                    {participant.users.points} points
-                  </p>
+        {sidebarTab === 'chat' ? (
+          <>
+            {chatError && <p className="mb-2 text-xs text-red-400">{chatError}</p>}
+            <RoomChat
+              messages={messages}
+              userId={user?.id}
+              disabledReason={
+                !room.chat_enabled
+                  ? 'The organizer has switched chat off.'
+                  : chatMuted
+                    ? 'The organizer has muted you in chat.'
+                    : null
+              }
+              onSend={(body) => sendChat(body)}
+            />
+          </>
+        ) : (
+          <div className="space-y-2 overflow-y-auto">
+            {standings.map((entry, index) => {
+              const presence = present[entry.user_id];
+              return (
+                <div
+                  key={entry.user_id}
+                  className={`flex items-center p-2 rounded ${
+                    entry.user_id === user?.id ? 'bg-purple-500/20 border border-purple-500/40' : 'bg-white/5'
+                  }`}
+                >
+                  <div className="w-6 h-6 flex items-center justify-center rounded-full bg-gradient-to-br from-purple-500 to-blue-500 mr-2 text-sm">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="flex items-center font-medium">
+                      <span
+                        title={presence ? presenceLabels[presence.status] : 'Offline'}
+                        className={`w-2 h-2 rounded-full mr-2 shrink-0 ${
+                          presence ? presenceStyles[presence.status] : 'bg-gray-600'
+                        }`}
+                      />
+                      <span className="truncate">{entry.username}</span>
+                    </p>
+                    <p className="text-sm text-purple-400">
+                      {entry.score} points
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {entry.levels_solved} solved
+                      {entry.levels_solved > 0 && ` · ${formatClock(entry.total_solve_seconds * 1000)}`}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
-        </div>
+              );
+            })}
+          </div>
+        )}
       </motion.div>
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }
\ No newline at end of file
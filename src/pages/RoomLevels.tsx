@@ -0,0 +1,328 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Download,
+  Eye,
+  EyeOff,
+  FileUp,
+  Library,
+  Pencil,
+  Plus,
+  Terminal,
+  Trash2,
+} from 'lucide-react';
+import {
+  deleteLevel,
+  fetchHiddenTests,
+  fetchHints,
+  fetchLevel,
+  fetchLevelSummaries,
+  fetchRoom,
+  fetchSolutions,
+  reorderLevels,
+  saveLevelToBank,
+  updateLevel,
+  type LevelSummary,
+} from '../lib/db';
+import LevelEditor, { type LevelDraft } from '../components/LevelEditor';
+import { downloadPack, fetchRoomPackLevels, type PackFormat } from '../lib/packs';
+
+const emptyLevelDraft = (): LevelDraft => ({
+  title: '',
+  description: '',
+  movie_reference: '',
+  difficulty: 'easy',
+  time_limit_seconds: null,
+  entry_point: 'solve',
+  parameters: [{ name: 'input', type: 'string' }],
+  return_type: 'string',
+  languages: ['javascript'],
+  starter_code: { javascript: 'function solve(input) {\n  // Your code here\n}' },
+  tests: [{ input: '', expected: '', description: '', hidden: false }],
+  hints: [],
+  solution_language: 'javascript',
+  solution_code: '',
+  published: false,
+});
+
+const difficultyColors: Record<string, string> = {
+  easy: 'bg-green-500/20 text-green-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  hard: 'bg-red-500/20 text-red-300',
+};
+
+export default function RoomLevels() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [roomName, setRoomName] = useState('');
+  const [levels, setLevels] = useState<LevelSummary[]>([]);
+  const [editing, setEditing] = useState<LevelDraft | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchLevels = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLevels(await fetchLevelSummaries(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadRoomName = async () => {
+      try {
+        setRoomName((await fetchRoom(id)).name);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadRoomName();
+    fetchLevels();
+  }, [id, fetchLevels]);
+
+  const openLevel = async (levelId: string) => {
+    setError('');
+    try {
+      const [level, hidden, hints, [solution]] = await Promise.all([
+        fetchLevel(levelId),
+        fetchHiddenTests([levelId]),
+        fetchHints([levelId]),
+        fetchSolutions([levelId]),
+      ]);
+
+      setEditing({
+        id: level.id,
+        title: level.title,
+        description: level.description,
+        movie_reference: level.movie_reference,
+        difficulty: level.difficulty,
+        time_limit_seconds: level.time_limit_seconds,
+        entry_point: level.entry_point,
+        parameters: level.parameters,
+        return_type: level.return_type,
+        languages: level.languages,
+        starter_code: level.starter_code,
+        tests: [
+          ...level.test_cases.map((test) => ({ ...test, hidden: false })),
+          ...hidden.map(({ input, expected, description }) => ({ input, expected, description, hidden: true })),
+        ],
+        hints: hints.map(({ body, cost }) => ({ body, cost })),
+        solution_language: solution?.language ?? 'javascript',
+        solution_code: solution?.code ?? '',
+        published: level.published,
+      });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const moveLevel = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= levels.length) return;
+    const reordered = [...levels];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setLevels(reordered);
+
+    try {
+      if (id) await reorderLevels(id, reordered.map((level) => level.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+    fetchLevels();
+  };
+
+  const togglePublished = async (level: LevelSummary) => {
+    // Publishing goes through the editor so the reference solution is checked first
+    if (!level.published) {
+      openLevel(level.id);
+      return;
+    }
+
+    try {
+      await updateLevel(level.id, { published: false });
+    } catch (err: any) {
+      setError(err.message);
+    }
+    fetchLevels();
+  };
+
+  const saveToBank = async (level: LevelSummary) => {
+    const tags = window.prompt(`Tags for "${level.title}" (comma-separated)`, '');
+    if (tags === null) return;
+
+    try {
+      await saveLevelToBank(level.id, tags.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removeLevel = async (level: LevelSummary) => {
+    if (!window.confirm(`Delete "${level.title}"? Submissions for it will be lost.`)) return;
+
+    try {
+      await deleteLevel(level.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    fetchLevels();
+  };
+
+  const exportLevels = async (format: PackFormat) => {
+    if (!id) return;
+    try {
+      downloadPack(roomName, await fetchRoomPackLevels(id), format);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const nextPosition = levels.reduce((max, level) => Math.max(max, level.position), 0) + 1;
+
+  return (
+    <div className="min-h-screen p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-5xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => (editing ? setEditing(null) : navigate('/admin'))}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            <Terminal className="text-purple-500 w-8 h-8 ml-4" />
+            <h1 className="text-2xl font-bold ml-2">
+              {roomName} · {editing ? (editing.id ? 'Edit level' : 'New level') : 'Levels'}
+            </h1>
+          </div>
+          {!editing && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => exportLevels('yaml')}
+                className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                YAML
+              </button>
+              <button
+                onClick={() => exportLevels('json')}
+                className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                JSON
+              </button>
+              <button
+                onClick={() => navigate(`/admin/rooms/${id}/import`)}
+                className="flex items-center px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+              >
+                <FileUp className="w-4 h-4 mr-2" />
+                Import
+              </button>
+              <button
+                onClick={() => setEditing(emptyLevelDraft())}
+                className="flex items-center px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Level
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 p-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {editing && id ? (
+          <div className="bg-white/5 rounded-lg p-6">
+            <LevelEditor
+              key={editing.id ?? 'new'}
+              roomId={id}
+              initial={editing}
+              nextPosition={nextPosition}
+              onSaved={() => {
+                setEditing(null);
+                fetchLevels();
+              }}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {levels.length === 0 && (
+              <p className="text-gray-400 text-center py-12">No levels yet. Create the first one.</p>
+            )}
+            {levels.map((level, index) => (
+              <div key={level.id} className="flex items-center justify-between bg-white/5 rounded-lg p-4">
+                <div className="flex items-center space-x-4">
+                  <span className="text-gray-400 w-6 text-right">{level.position}</span>
+                  <div>
+                    <h3 className="font-semibold">{level.title}</h3>
+                    <div className="flex items-center space-x-2 text-sm mt-1">
+                      <span className={`px-2 py-0.5 rounded ${difficultyColors[level.difficulty] ?? 'bg-white/10'}`}>
+                        {level.difficulty}
+                      </span>
+                      <span className={level.published ? 'text-green-400' : 'text-gray-400'}>
+                        {level.published ? 'Published' : 'Draft'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => moveLevel(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 rounded hover:bg-white/10 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveLevel(index, 1)}
+                    disabled={index === levels.length - 1}
+                    className="p-2 rounded hover:bg-white/10 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => togglePublished(level)}
+                    title={level.published ? 'Unpublish' : 'Publish'}
+                    className="p-2 rounded hover:bg-white/10"
+                  >
+                    {level.published ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => saveToBank(level)}
+                    title="Save to problem bank"
+                    className="p-2 rounded hover:bg-white/10"
+                  >
+                    <Library className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => openLevel(level.id)} className="p-2 rounded hover:bg-white/10">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => removeLevel(level)} className="p-2 rounded hover:bg-white/10 text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
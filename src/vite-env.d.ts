@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // Comma-separated OAuth providers to offer on the login page, e.g. "github"
+  readonly VITE_AUTH_PROVIDERS?: string;
+}
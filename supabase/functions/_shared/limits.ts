@@ -0,0 +1,6 @@
+// Limits on what the Edge Functions will run, so nobody can make the server
+// compile or execute arbitrarily large inputs
+export const MAX_TESTS = 50;
+export const MAX_CODE_LENGTH = 64 * 1024;
+
+export const limitsMessage = `Runs are limited to ${MAX_TESTS} tests and ${MAX_CODE_LENGTH} characters of code`;
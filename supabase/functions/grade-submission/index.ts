@@ -0,0 +1,142 @@
+// Trusted grader for level submissions. Runs the player's code against the
+// level's sample and hidden tests in the same sandboxed worker the Room uses
+// (created without env, net or file access, so player code can't reach the
+// service role key), then records the verdict through record_submission with the service role.
+// Clients never see hidden test inputs or expectations, only pass/fail counts.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { isLanguage, runTestCases, type TestCase } from '../../../src/lib/runner/index.ts';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { MAX_CODE_LENGTH, MAX_TESTS, limitsMessage } from '../_shared/limits.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Piston-compatible service that compiles and runs C++ submissions
+const cppRunnerURL = Deno.env.get('CPP_RUNNER_URL');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: userError } = await userClient.auth.getUser();
+  if (userError || !user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const { level_id: levelId, code, language = 'javascript' } = await req.json();
+  if (typeof levelId !== 'string' || typeof code !== 'string') {
+    return json({ error: 'level_id and code are required' }, 400);
+  }
+  if (!isLanguage(language)) {
+    return json({ error: `Unsupported language: ${language}` }, 400);
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    return json({ error: limitsMessage }, 413);
+  }
+
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: level, error: levelError } = await admin
+    .from('levels')
+    .select('id, room_id, entry_point, parameters, return_type, test_cases, languages')
+    .eq('id', levelId)
+    .single();
+  if (levelError || !level) {
+    return json({ error: 'Level not found' }, 404);
+  }
+
+  if (!level.languages.includes(language)) {
+    return json({ error: `This level cannot be solved in ${language}` }, 400);
+  }
+  if (language === 'cpp' && !cppRunnerURL) {
+    return json({ error: 'C++ is not set up on this server' }, 503);
+  }
+
+  const { data: participant } = await admin
+    .from('room_participants')
+    .select('id, muted')
+    .eq('room_id', level.room_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!participant) {
+    return json({ error: 'You are not a participant in this room' }, 403);
+  }
+  if (participant.muted) {
+    return json({ error: 'The organizer has muted you, so your submissions are paused' }, 403);
+  }
+
+  // Anything but a clear yes, including a failed check, keeps the tests from running
+  const { data: accepting, error: acceptingError } = await admin.rpc('room_accepting_submissions', {
+    p_room_id: level.room_id,
+  });
+  if (acceptingError || accepting !== true) {
+    return json({ error: 'This room is not accepting submissions right now' }, 409);
+  }
+
+  const { data: hiddenTests, error: hiddenError } = await admin
+    .from('hidden_test_cases')
+    .select('input, expected, description')
+    .eq('level_id', levelId)
+    .order('position');
+  if (hiddenError) {
+    return json({ error: hiddenError.message }, 500);
+  }
+
+  const signature = {
+    entryPoint: level.entry_point,
+    parameters: level.parameters,
+    returnType: level.return_type,
+  };
+  // One run for both, so Python loads once and C++ compiles once
+  const sampleTests = level.test_cases as TestCase[];
+  if (sampleTests.length + hiddenTests.length > MAX_TESTS) {
+    return json({ error: limitsMessage }, 413);
+  }
+  const allResults = await runTestCases(code, [...sampleTests, ...(hiddenTests as TestCase[])], signature, {
+    language,
+    cppRunnerURL,
+  });
+  const sampleResults = allResults.slice(0, sampleTests.length);
+  const hiddenResults = allResults.slice(sampleTests.length);
+
+  const testsPassed = allResults.filter((result) => result.status === 'passed').length;
+  // Stored with the submission too, so the Room's history can show them later
+  const testResults = {
+    sample_results: sampleResults,
+    hidden_results: hiddenResults.map((result) => ({ status: result.status })),
+  };
+
+  const { data: submission, error: submissionError } = await admin.rpc('record_submission', {
+    p_user_id: user.id,
+    p_level_id: levelId,
+    p_code: code,
+    p_language: language,
+    p_tests_passed: testsPassed,
+    p_tests_total: allResults.length,
+    p_test_results: testResults,
+  });
+  if (submissionError) {
+    // record_submission raises 42501 for locked levels and P0001 once the clock stops the room
+    const status = submissionError.code === '42501' ? 403 : submissionError.code === 'P0001' ? 409 : 500;
+    return json({ error: submissionError.message }, status);
+  }
+
+  return json({
+    submission_id: submission.id,
+    status: submission.status,
+    points: submission.points,
+    score_breakdown: submission.score_breakdown,
+    tests_passed: testsPassed,
+    tests_total: allResults.length,
+    ...testResults,
+  });
+});
@@ -0,0 +1,108 @@
+// Publishes a level once its stored reference solution passes every sample
+// and hidden test. Tests run in the same sandboxed workers as the grader, and
+// the database only accepts the publish if the level still matches what was
+// run (see publish_validated_level), so a client can't publish a level whose
+// solution was never checked.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { isLanguage, runTestCases, type ParameterSpec, type TestCase, type ValueType } from '../../../src/lib/runner/index.ts';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { MAX_CODE_LENGTH, MAX_TESTS, limitsMessage } from '../_shared/limits.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const cppRunnerURL = Deno.env.get('CPP_RUNNER_URL');
+
+// Mirrors level_grading_input in the database
+interface GradingInput {
+  entry_point: string;
+  parameters: ParameterSpec[];
+  return_type: ValueType;
+  tests: Omit<TestCase, 'description'>[];
+  hidden_tests: Omit<TestCase, 'description'>[];
+  solution: { language: string; code: string } | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: userError } = await userClient.auth.getUser();
+  if (userError || !user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const { level_id: levelId } = await req.json();
+  if (typeof levelId !== 'string') {
+    return json({ error: 'level_id is required' }, 400);
+  }
+
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: level } = await admin
+    .from('levels')
+    .select('id, rooms!inner(created_by)')
+    .eq('id', levelId)
+    .maybeSingle();
+  if (!level || (level.rooms as unknown as { created_by: string }).created_by !== user.id) {
+    return json({ error: 'Only the room creator can publish its levels' }, 403);
+  }
+
+  const { data, error: inputError } = await admin.rpc('level_grading_input', { p_level_id: levelId });
+  if (inputError) {
+    return json({ error: inputError.message }, 500);
+  }
+  const input = data as GradingInput;
+  if (!input.solution) {
+    return json({ error: 'Add a reference solution before publishing' }, 409);
+  }
+  const { language, code } = input.solution;
+  if (!isLanguage(language)) {
+    return json({ error: `Unsupported language: ${language}` }, 400);
+  }
+  if (language === 'cpp' && !cppRunnerURL) {
+    return json({ error: 'C++ is not set up on this server' }, 503);
+  }
+
+  const tests = [...input.tests, ...input.hidden_tests].map((test) => ({ ...test, description: '' }));
+  if (tests.length === 0) {
+    return json({ error: 'Add at least one test before publishing' }, 409);
+  }
+  // The grader refuses levels over the limits, so they can't be published
+  if (tests.length > MAX_TESTS || code.length > MAX_CODE_LENGTH) {
+    return json({ error: limitsMessage }, 413);
+  }
+
+  const results = await runTestCases(
+    code,
+    tests,
+    { entryPoint: input.entry_point, parameters: input.parameters, returnType: input.return_type },
+    { language, cppRunnerURL }
+  );
+  // Results come back in full: the room creator can read the hidden tests anyway
+  if (results.some((result) => result.status !== 'passed')) {
+    return json({ published: false, results });
+  }
+
+  const { data: published, error: publishError } = await admin.rpc('publish_validated_level', {
+    p_level_id: levelId,
+    p_input: input,
+  });
+  if (publishError) {
+    return json({ error: publishError.message }, 500);
+  }
+  if (!published) {
+    return json({ error: 'The level changed while its tests were running. Try publishing again.' }, 409);
+  }
+
+  return json({ published: true, results });
+});
@@ -0,0 +1,47 @@
+// Runs tests for languages the browser can't run itself (C++), for the Room's
+// "Run Samples" and the level editor's validation. Nothing is recorded; the
+// caller sends the tests, so this never sees a level's hidden tests.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { LANGUAGES, isLanguage, runTestCases } from '../../../src/lib/runner/index.ts';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { MAX_CODE_LENGTH, MAX_TESTS, limitsMessage } from '../_shared/limits.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const cppRunnerURL = Deno.env.get('CPP_RUNNER_URL');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: userError } = await userClient.auth.getUser();
+  if (userError || !user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const { code, language, tests, signature } = await req.json();
+  if (typeof code !== 'string' || !Array.isArray(tests) || typeof signature?.entryPoint !== 'string') {
+    return json({ error: 'code, tests and signature are required' }, 400);
+  }
+  if (!isLanguage(language) || LANGUAGES[language].runsOn !== 'server') {
+    return json({ error: `${language} runs in the browser` }, 400);
+  }
+  if (code.length > MAX_CODE_LENGTH || tests.length > MAX_TESTS) {
+    return json({ error: limitsMessage }, 413);
+  }
+  if (!cppRunnerURL) {
+    return json({ error: 'C++ is not set up on this server' }, 503);
+  }
+
+  const results = await runTestCases(code, tests, signature, { language, cppRunnerURL });
+  return json({ results });
+});
@@ -0,0 +1,44 @@
+/*
+  # Level entry points and argument specs
+
+  1. Changes
+    - levels
+      - entry_point (text): name of the function declared in initial_code that the runner calls
+      - parameters (jsonb): ordered list of { name, type } used to parse a test's input into arguments
+      - return_type (text): type used to parse a test's expected value before the deep-equality check
+
+  2. Data
+    - Backfill entry_point from the function declared in each level's initial_code
+    - Backfill parameters and return_type for the default movie levels
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN entry_point text,
+  ADD COLUMN parameters jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN return_type text NOT NULL DEFAULT 'string'
+    CHECK (return_type IN ('string', 'number', 'boolean', 'json'));
+
+UPDATE public.levels
+SET entry_point = substring(initial_code FROM 'function\s+([A-Za-z_$][A-Za-z0-9_$]*)');
+
+UPDATE public.levels
+SET parameters = '[{"name": "input", "type": "string"}]'::jsonb,
+    return_type = 'string'
+WHERE entry_point = 'digitalRain';
+
+UPDATE public.levels
+SET parameters = '[{"name": "levels", "type": "number"}]'::jsonb,
+    return_type = 'number'
+WHERE entry_point = 'dreamTime';
+
+UPDATE public.levels
+SET parameters = '[{"name": "date1", "type": "string"}, {"name": "date2", "type": "string"}]'::jsonb,
+    return_type = 'string'
+WHERE entry_point = 'timeDifference';
+
+UPDATE public.levels
+SET entry_point = 'solution'
+WHERE entry_point IS NULL;
+
+ALTER TABLE public.levels
+  ALTER COLUMN entry_point SET NOT NULL;
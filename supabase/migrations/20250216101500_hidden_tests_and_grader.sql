@@ -0,0 +1,105 @@
+/*
+  # Hidden test cases and server-side grading
+
+  1. New Tables
+    - hidden_test_cases
+      - id (uuid, primary key)
+      - level_id (uuid, references levels)
+      - position (integer)
+      - input (text)
+      - expected (text)
+      - description (text)
+
+  2. Changes
+    - levels.test_cases now only holds the visible sample tests
+    - submissions
+      - tests_passed (integer)
+      - tests_total (integer)
+
+  3. Functions
+    - record_submission: writes a graded submission; only callable by the
+      grade-submission Edge Function through the service role
+
+  4. Security
+    - Enable RLS on hidden_test_cases; only the room's creator can read or
+      manage them, participants have no access at all
+    - Drop the client INSERT policy on submissions so verdicts and points can
+      only come from the grader
+*/
+
+CREATE TABLE public.hidden_test_cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  level_id uuid REFERENCES public.levels ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  input text NOT NULL,
+  expected text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX hidden_test_cases_level_id_idx ON public.hidden_test_cases (level_id, position);
+
+ALTER TABLE public.submissions
+  ADD COLUMN tests_passed integer NOT NULL DEFAULT 0,
+  ADD COLUMN tests_total integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.hidden_test_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room creators can manage hidden tests"
+  ON public.hidden_test_cases
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.levels
+    JOIN public.rooms ON rooms.id = levels.room_id
+    WHERE levels.id = hidden_test_cases.level_id
+    AND rooms.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.levels
+    JOIN public.rooms ON rooms.id = levels.room_id
+    WHERE levels.id = hidden_test_cases.level_id
+    AND rooms.created_by = auth.uid()
+  ));
+
+DROP POLICY "Users can submit solutions" ON public.submissions;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_submission public.submissions;
+BEGIN
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  INSERT INTO public.submissions (user_id, level_id, code, status, points, tests_passed, tests_total)
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    v_status,
+    CASE WHEN v_status = 'completed' THEN 100 ELSE 0 END,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_submission(uuid, uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_submission(uuid, uuid, text, integer, integer) TO service_role;
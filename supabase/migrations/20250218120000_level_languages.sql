@@ -0,0 +1,69 @@
+/*
+  # Per-level languages
+
+  1. Changes
+    - levels
+      - languages (text[]): languages a level can be solved in
+      - starter_code (jsonb): starter code keyed by language; initial_code stays as the JavaScript default
+    - submissions
+      - language (text): language the submission was graded in
+
+  2. Functions
+    - record_submission now takes the submission language
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN languages text[] NOT NULL DEFAULT ARRAY['javascript']
+    CHECK (languages <@ ARRAY['javascript', 'typescript', 'python', 'cpp'] AND cardinality(languages) > 0),
+  ADD COLUMN starter_code jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE public.levels
+SET starter_code = jsonb_build_object('javascript', initial_code);
+
+ALTER TABLE public.submissions
+  ADD COLUMN language text NOT NULL DEFAULT 'javascript'
+    CHECK (language IN ('javascript', 'typescript', 'python', 'cpp'));
+
+DROP FUNCTION public.record_submission(uuid, uuid, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_submission public.submissions;
+BEGIN
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  INSERT INTO public.submissions (user_id, level_id, code, language, status, points, tests_passed, tests_total)
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    CASE WHEN v_status = 'completed' THEN 100 ELSE 0 END,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_submission(uuid, uuid, text, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_submission(uuid, uuid, text, text, integer, integer) TO service_role;
@@ -0,0 +1,226 @@
+/*
+  # Room countdown clock
+
+  1. Changes
+    - rooms
+      - duration_seconds (integer): length of the chase, set by the organizer
+      - starts_at (timestamptz): when the clock started (or is scheduled to start)
+      - ends_at (timestamptz): when time runs out; NULL while paused or not started
+      - paused_remaining_seconds (integer): seconds left on the clock while paused
+
+  2. Functions
+    - server_now: the database clock, so clients can correct for their own skew
+    - room_accepting_submissions: whether a room's clock currently allows submissions
+    - start_room_clock / pause_room_clock / resume_room_clock / extend_room_clock:
+      organizer controls, restricted to the room's creator
+    - record_submission refuses submissions once the room's time is up or while it is paused
+
+  3. Security
+    - Room creators can update their own rooms (status changes from the admin dashboard)
+*/
+
+ALTER TABLE public.rooms
+  ADD COLUMN duration_seconds integer NOT NULL DEFAULT 1800 CHECK (duration_seconds > 0),
+  ADD COLUMN starts_at timestamptz,
+  ADD COLUMN ends_at timestamptz,
+  ADD COLUMN paused_remaining_seconds integer CHECK (paused_remaining_seconds >= 0);
+
+CREATE POLICY "Room creators can update their rooms"
+  ON public.rooms
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE OR REPLACE FUNCTION public.server_now()
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT now();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.server_now() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.room_accepting_submissions(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    -- No clock configured yet: the room is untimed
+    WHEN starts_at IS NULL THEN true
+    WHEN paused_remaining_seconds IS NOT NULL THEN false
+    ELSE now() >= starts_at AND now() < ends_at
+  END
+  FROM public.rooms
+  WHERE id = p_room_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_room_creator(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room creator can change its clock' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_room_clock(p_room_id uuid, p_starts_at timestamptz DEFAULT now())
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  PERFORM public.assert_room_creator(p_room_id);
+
+  UPDATE public.rooms
+  SET starts_at = p_starts_at,
+      ends_at = p_starts_at + make_interval(secs => duration_seconds),
+      paused_remaining_seconds = NULL
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pause_room_clock(p_room_id uuid)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  PERFORM public.assert_room_creator(p_room_id);
+
+  UPDATE public.rooms
+  SET paused_remaining_seconds = greatest(0, ceil(extract(epoch FROM ends_at - greatest(now(), starts_at))))::integer,
+      ends_at = NULL
+  WHERE id = p_room_id
+  AND ends_at IS NOT NULL
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resume_room_clock(p_room_id uuid)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  PERFORM public.assert_room_creator(p_room_id);
+
+  UPDATE public.rooms
+  SET ends_at = now() + make_interval(secs => paused_remaining_seconds),
+      starts_at = least(starts_at, now()),
+      paused_remaining_seconds = NULL
+  WHERE id = p_room_id
+  AND paused_remaining_seconds IS NOT NULL
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.extend_room_clock(p_room_id uuid, p_seconds integer)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  PERFORM public.assert_room_creator(p_room_id);
+
+  UPDATE public.rooms
+  SET duration_seconds = greatest(1, duration_seconds + p_seconds),
+      -- An expired clock is extended from now rather than from when it ran out
+      ends_at = CASE
+        WHEN ends_at IS NULL THEN NULL
+        ELSE greatest(ends_at, now()) + make_interval(secs => p_seconds)
+      END,
+      paused_remaining_seconds = CASE
+        WHEN paused_remaining_seconds IS NULL THEN NULL
+        ELSE greatest(0, paused_remaining_seconds + p_seconds)
+      END
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assert_room_creator(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.room_accepting_submissions(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.start_room_clock(uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pause_room_clock(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resume_room_clock(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.extend_room_clock(uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_room_id uuid;
+  v_submission public.submissions;
+BEGIN
+  SELECT room_id INTO v_room_id FROM public.levels WHERE id = p_level_id;
+
+  IF NOT public.room_accepting_submissions(v_room_id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  INSERT INTO public.submissions (user_id, level_id, code, language, status, points, tests_passed, tests_total)
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    CASE WHEN v_status = 'completed' THEN 100 ELSE 0 END,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
@@ -0,0 +1,225 @@
+/*
+  # Scoring engine
+
+  1. Changes
+    - levels
+      - status (text): waiting / active; filtered on by the Room and AdminDashboard
+      - activated_at (timestamptz): when the level went active, the start of its scoring window
+    - room_participants
+      - score (integer): the participant's standing in this room
+    - submissions
+      - score_breakdown (jsonb): how the awarded points were computed
+
+  2. Functions
+    - score_level_solve: pure scoring formula
+        base        easy 100, medium 200, hard 300
+        speed bonus up to half the base, decaying linearly to 0 over the room's duration
+        first solve +50 for the first participant to solve the level
+        penalty     10% of the base per failed attempt before the solve, capped at half the base
+        floor       a solve is always worth at least 10% of the base
+    - record_submission awards points only for a participant's first passing
+      submission of a level, and updates submissions, room_participants.score and
+      users.points in one transaction
+
+  3. Security
+    - Room creators can update their rooms' levels (activating a level)
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'waiting',
+  ADD COLUMN activated_at timestamptz;
+
+ALTER TABLE public.room_participants
+  ADD COLUMN score integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.submissions
+  ADD COLUMN score_breakdown jsonb;
+
+CREATE INDEX submissions_user_level_idx ON public.submissions (user_id, level_id, submitted_at);
+
+CREATE OR REPLACE FUNCTION public.set_level_activated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'active' AND NEW.activated_at IS NULL THEN
+    NEW.activated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER levels_set_activated_at
+  BEFORE INSERT OR UPDATE OF status ON public.levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_level_activated_at();
+
+CREATE POLICY "Room creators can update levels"
+  ON public.levels
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE rooms.id = levels.room_id
+    AND rooms.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE rooms.id = levels.room_id
+    AND rooms.created_by = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION public.score_level_solve(
+  p_difficulty text,
+  p_elapsed_seconds integer,
+  p_window_seconds integer,
+  p_failed_attempts integer,
+  p_first_solve boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_base integer;
+  v_speed integer;
+  v_first integer;
+  v_penalty integer;
+  v_total integer;
+BEGIN
+  v_base := CASE lower(p_difficulty)
+    WHEN 'easy' THEN 100
+    WHEN 'medium' THEN 200
+    WHEN 'hard' THEN 300
+    ELSE 100
+  END;
+
+  v_speed := round(
+    v_base * 0.5 * greatest(0, 1 - greatest(p_elapsed_seconds, 0)::numeric / greatest(p_window_seconds, 1))
+  );
+  v_first := CASE WHEN p_first_solve THEN 50 ELSE 0 END;
+  v_penalty := least(round(v_base * 0.1 * greatest(p_failed_attempts, 0)), round(v_base * 0.5));
+  v_total := greatest(round(v_base * 0.1), v_base + v_speed + v_first - v_penalty);
+
+  RETURN jsonb_build_object(
+    'base', v_base,
+    'speed_bonus', v_speed,
+    'first_solve_bonus', v_first,
+    'attempt_penalty', v_penalty,
+    'failed_attempts', greatest(p_failed_attempts, 0),
+    'elapsed_seconds', greatest(p_elapsed_seconds, 0),
+    'total', v_total
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status = 'completed'
+  ) INTO v_already_solved;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - coalesce(v_level.activated_at, v_room.starts_at, now()))::integer,
+      v_room.duration_seconds,
+      v_failed_attempts,
+      v_first_solve
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
@@ -0,0 +1,121 @@
+/*
+  # Per-room leaderboard
+
+  1. Functions
+    - is_room_participant: SECURITY DEFINER membership check that policies can
+      call without re-entering room_participants' own RLS
+    - room_leaderboard: standings for one room computed from submissions joined
+      to levels.room_id
+        levels_solved        distinct levels with a passing submission
+        score                points awarded in this room
+        total_solve_seconds  sum of each solve's time since its level went active
+        last_solved_at       tiebreaker: whoever got there first ranks higher
+
+  2. Security
+    - Participants can see submission rows of their room mates so leaderboard
+      updates arrive over realtime; the code column is no longer selectable by
+      clients at all
+    - submissions is added to the supabase_realtime publication
+*/
+
+CREATE OR REPLACE FUNCTION public.is_room_participant(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.room_participants
+    WHERE room_id = p_room_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_room_participant(uuid) TO authenticated;
+
+CREATE POLICY "Participants can view submissions in their rooms"
+  ON public.submissions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.levels
+    WHERE levels.id = submissions.level_id
+    AND public.is_room_participant(levels.room_id)
+  ));
+
+REVOKE SELECT ON public.submissions FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  user_id,
+  level_id,
+  language,
+  status,
+  points,
+  score_breakdown,
+  tests_passed,
+  tests_total,
+  submitted_at
+) ON public.submissions TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.submissions;
+
+CREATE OR REPLACE FUNCTION public.room_leaderboard(p_room_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  levels_solved integer,
+  score integer,
+  total_solve_seconds integer,
+  last_solved_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.is_room_participant(p_room_id) AND NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH solves AS (
+    SELECT DISTINCT ON (s.user_id, s.level_id)
+      s.user_id,
+      s.level_id,
+      s.points,
+      s.submitted_at,
+      coalesce(
+        (s.score_breakdown ->> 'elapsed_seconds')::integer,
+        extract(epoch FROM s.submitted_at - coalesce(l.activated_at, r.starts_at, s.submitted_at))::integer
+      ) AS solve_seconds
+    FROM public.submissions s
+    JOIN public.levels l ON l.id = s.level_id
+    JOIN public.rooms r ON r.id = l.room_id
+    WHERE l.room_id = p_room_id
+    AND s.status = 'completed'
+    ORDER BY s.user_id, s.level_id, s.submitted_at
+  )
+  SELECT
+    p.user_id,
+    u.username,
+    count(solves.level_id)::integer AS levels_solved,
+    coalesce(sum(solves.points), 0)::integer AS score,
+    coalesce(sum(solves.solve_seconds), 0)::integer AS total_solve_seconds,
+    max(solves.submitted_at) AS last_solved_at
+  FROM public.room_participants p
+  JOIN public.users u ON u.id = p.user_id
+  LEFT JOIN solves ON solves.user_id = p.user_id
+  WHERE p.room_id = p_room_id
+  GROUP BY p.user_id, u.username
+  ORDER BY score DESC, levels_solved DESC, total_solve_seconds ASC, last_solved_at ASC NULLS LAST, u.username;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.room_leaderboard(uuid) TO authenticated;
@@ -0,0 +1,344 @@
+/*
+  # Multi-level progression
+
+  1. Changes
+    - levels
+      - position (integer): 1-based order of the level within its room
+    - rooms
+      - progression_mode (text): 'lockstep' (the organizer advances everyone) or
+        'self_paced' (solving a level unlocks the next one for that participant)
+      - current_position (integer): highest level opened by the organizer; 0 until the room starts
+
+  2. New Tables
+    - level_progress
+      - user_id (uuid, references users)
+      - level_id (uuid, references levels)
+      - room_id (uuid, references rooms)
+      - unlocked_at (timestamptz): start of this participant's scoring window for the level
+      - solved_at (timestamptz)
+
+  3. Functions
+    - unlock_levels: opens every level up to a position for the room's participants
+    - advance_room_level: organizer control; opens the first level when a room starts
+      and, in lockstep rooms, moves everyone to the next level
+    - room_progress: the level navigator for the calling participant
+    - record_submission refuses locked levels, marks solves, unlocks the next level in
+      self-paced rooms and measures speed from the participant's unlock time
+    - New participants get every level the room has already opened
+
+  4. Security
+    - Participants can only read levels that are unlocked for them
+    - Participants can read their own progress
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN position integer;
+
+UPDATE public.levels
+SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY room_id ORDER BY created_at, id) AS position
+  FROM public.levels
+) AS ordered
+WHERE levels.id = ordered.id;
+
+ALTER TABLE public.levels
+  ALTER COLUMN position SET NOT NULL,
+  ADD CONSTRAINT levels_position_positive CHECK (position > 0),
+  ADD CONSTRAINT levels_room_position_key UNIQUE (room_id, position) DEFERRABLE INITIALLY DEFERRED;
+
+ALTER TABLE public.rooms
+  ADD COLUMN progression_mode text NOT NULL DEFAULT 'lockstep'
+    CHECK (progression_mode IN ('lockstep', 'self_paced')),
+  ADD COLUMN current_position integer NOT NULL DEFAULT 0 CHECK (current_position >= 0);
+
+CREATE TABLE public.level_progress (
+  user_id uuid REFERENCES public.users NOT NULL,
+  level_id uuid REFERENCES public.levels ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES public.rooms NOT NULL,
+  unlocked_at timestamptz NOT NULL DEFAULT now(),
+  solved_at timestamptz,
+  PRIMARY KEY (user_id, level_id)
+);
+
+CREATE INDEX level_progress_room_id_idx ON public.level_progress (room_id, user_id);
+
+ALTER TABLE public.level_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own progress"
+  ON public.level_progress
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY "Participants can view levels" ON public.levels;
+
+CREATE POLICY "Participants can view unlocked levels"
+  ON public.levels
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.level_progress
+    WHERE level_progress.level_id = levels.id
+    AND level_progress.user_id = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION public.unlock_levels(p_room_id uuid, p_up_to_position integer, p_user_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.level_progress (user_id, level_id, room_id)
+  SELECT p.user_id, l.id, l.room_id
+  FROM public.room_participants p
+  JOIN public.levels l ON l.room_id = p.room_id
+  WHERE p.room_id = p_room_id
+  AND l.position <= p_up_to_position
+  AND (p_user_id IS NULL OR p.user_id = p_user_id)
+  ON CONFLICT (user_id, level_id) DO NOTHING;
+$$;
+
+REVOKE ALL ON FUNCTION public.unlock_levels(uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Backfill rooms that were already running with a single active level
+UPDATE public.rooms
+SET current_position = active.position
+FROM (
+  SELECT room_id, min(position) AS position
+  FROM public.levels
+  WHERE status = 'active'
+  GROUP BY room_id
+) AS active
+WHERE rooms.id = active.room_id;
+
+SELECT public.unlock_levels(id, current_position)
+FROM public.rooms
+WHERE current_position > 0;
+
+CREATE OR REPLACE FUNCTION public.advance_room_level(p_room_id uuid)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+  v_level_count integer;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can advance levels' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_room.progression_mode = 'self_paced' AND v_room.current_position > 0 THEN
+    RAISE EXCEPTION 'Self-paced rooms advance as participants solve levels';
+  END IF;
+
+  SELECT count(*) INTO v_level_count FROM public.levels WHERE room_id = p_room_id;
+  IF v_room.current_position >= v_level_count THEN
+    RAISE EXCEPTION 'This room is already on its last level';
+  END IF;
+
+  UPDATE public.rooms
+  SET current_position = current_position + 1
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  UPDATE public.levels
+  SET status = CASE WHEN position = v_room.current_position THEN 'active' ELSE 'waiting' END
+  WHERE room_id = p_room_id
+  AND (position = v_room.current_position OR status = 'active');
+
+  PERFORM public.unlock_levels(p_room_id, v_room.current_position);
+
+  RETURN v_room;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.advance_room_level(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.unlock_levels_for_new_participant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = NEW.room_id;
+
+  IF v_room.current_position > 0 THEN
+    PERFORM public.unlock_levels(
+      NEW.room_id,
+      CASE WHEN v_room.progression_mode = 'self_paced' THEN 1 ELSE v_room.current_position END,
+      NEW.user_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER room_participants_unlock_levels
+  AFTER INSERT ON public.room_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unlock_levels_for_new_participant();
+
+CREATE OR REPLACE FUNCTION public.room_progress(p_room_id uuid)
+RETURNS TABLE (
+  level_id uuid,
+  position integer,
+  title text,
+  state text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Locked levels only reveal their position, never their title or id
+  SELECT
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.id END,
+    l.position,
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.title END,
+    CASE
+      WHEN lp.solved_at IS NOT NULL THEN 'solved'
+      WHEN lp.level_id IS NOT NULL THEN 'current'
+      ELSE 'locked'
+    END
+  FROM public.levels l
+  LEFT JOIN public.level_progress lp ON lp.level_id = l.id AND lp.user_id = auth.uid()
+  WHERE l.room_id = p_room_id
+  AND public.is_room_participant(p_room_id)
+  ORDER BY l.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.room_progress(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_progress public.level_progress;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = p_user_id
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  v_already_solved := v_progress.solved_at IS NOT NULL;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - greatest(v_progress.unlocked_at, coalesce(v_room.starts_at, v_progress.unlocked_at)))::integer,
+      v_room.duration_seconds,
+      v_failed_attempts,
+      v_first_solve
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.level_progress
+    SET solved_at = now()
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    IF v_room.progression_mode = 'self_paced' THEN
+      PERFORM public.unlock_levels(v_room.id, v_level.position + 1, p_user_id);
+    END IF;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
@@ -0,0 +1,490 @@
+/*
+  # Level authoring
+
+  1. Changes
+    - levels
+      - published (boolean): drafts are invisible to participants and skipped by progression
+
+  2. New Tables
+    - level_solutions
+      - level_id (uuid, references levels, primary key)
+      - language (text)
+      - code (text): the organizer's reference solution, validated against every test before publishing
+    - level_validations: written only by the publish-level Edge Function
+      - level_id (uuid, references levels, primary key)
+      - input (jsonb): the signature, tests and reference solution that passed
+      - validated_at (timestamptz)
+
+  3. Functions
+    - next_level_position: the next published level after a position
+    - unlock_levels, room_progress, advance_room_level and the new-participant trigger
+      only consider published levels
+    - record_submission unlocks the next published level in self-paced rooms
+    - reorder_levels: renumbers a room's levels in one transaction
+    - level_grading_input: what a level's reference solution is validated against
+    - check_level_validated: triggers on levels, hidden_test_cases and
+      level_solutions refuse to publish a level, or to change a published
+      level's tests or reference solution, unless its last validation ran on
+      exactly what is stored now. Writes without a signed-in user (the service
+      role, migrations) are trusted.
+    - publish_validated_level: records a validation and publishes the level, for
+      the publish-level Edge Function once the reference solution has passed
+
+  4. Security
+    - Room creators can read, create, update and delete their rooms' levels
+    - Only room creators can access reference solutions
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN published boolean NOT NULL DEFAULT false;
+
+-- Every level that exists so far was created by the old hardcoded seed
+UPDATE public.levels SET published = true;
+
+CREATE TABLE public.level_solutions (
+  level_id uuid PRIMARY KEY REFERENCES public.levels ON DELETE CASCADE,
+  language text NOT NULL DEFAULT 'javascript' CHECK (language IN ('javascript', 'typescript', 'python', 'cpp')),
+  code text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.level_solutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room creators can manage reference solutions"
+  ON public.level_solutions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.levels
+    JOIN public.rooms ON rooms.id = levels.room_id
+    WHERE levels.id = level_solutions.level_id
+    AND rooms.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.levels
+    JOIN public.rooms ON rooms.id = levels.room_id
+    WHERE levels.id = level_solutions.level_id
+    AND rooms.created_by = auth.uid()
+  ));
+
+CREATE TABLE public.level_validations (
+  level_id uuid PRIMARY KEY REFERENCES public.levels ON DELETE CASCADE,
+  input jsonb NOT NULL,
+  validated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- No policies: only the service role can read or write validations
+ALTER TABLE public.level_validations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY "Room creators can update levels" ON public.levels;
+
+CREATE POLICY "Room creators can manage levels"
+  ON public.levels
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE rooms.id = levels.room_id
+    AND rooms.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE rooms.id = levels.room_id
+    AND rooms.created_by = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION public.next_level_position(p_room_id uuid, p_after_position integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT min(position)
+  FROM public.levels
+  WHERE room_id = p_room_id
+  AND published
+  AND position > p_after_position;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unlock_levels(p_room_id uuid, p_up_to_position integer, p_user_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.level_progress (user_id, level_id, room_id)
+  SELECT p.user_id, l.id, l.room_id
+  FROM public.room_participants p
+  JOIN public.levels l ON l.room_id = p.room_id
+  WHERE p.room_id = p_room_id
+  AND l.published
+  AND l.position <= p_up_to_position
+  AND (p_user_id IS NULL OR p.user_id = p_user_id)
+  ON CONFLICT (user_id, level_id) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION public.advance_room_level(p_room_id uuid)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+  v_next_position integer;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can advance levels' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_room.progression_mode = 'self_paced' AND v_room.current_position > 0 THEN
+    RAISE EXCEPTION 'Self-paced rooms advance as participants solve levels';
+  END IF;
+
+  v_next_position := public.next_level_position(p_room_id, v_room.current_position);
+  IF v_next_position IS NULL THEN
+    RAISE EXCEPTION 'There is no published level after this one';
+  END IF;
+
+  UPDATE public.rooms
+  SET current_position = v_next_position
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  UPDATE public.levels
+  SET status = CASE WHEN position = v_room.current_position THEN 'active' ELSE 'waiting' END
+  WHERE room_id = p_room_id
+  AND (position = v_room.current_position OR status = 'active');
+
+  PERFORM public.unlock_levels(p_room_id, v_room.current_position);
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unlock_levels_for_new_participant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = NEW.room_id;
+
+  IF v_room.current_position > 0 THEN
+    PERFORM public.unlock_levels(
+      NEW.room_id,
+      CASE
+        WHEN v_room.progression_mode = 'self_paced' THEN coalesce(public.next_level_position(NEW.room_id, 0), 0)
+        ELSE v_room.current_position
+      END,
+      NEW.user_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.room_progress(p_room_id uuid)
+RETURNS TABLE (
+  level_id uuid,
+  position integer,
+  title text,
+  state text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Locked levels only reveal their position, never their title or id
+  SELECT
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.id END,
+    l.position,
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.title END,
+    CASE
+      WHEN lp.solved_at IS NOT NULL THEN 'solved'
+      WHEN lp.level_id IS NOT NULL THEN 'current'
+      ELSE 'locked'
+    END
+  FROM public.levels l
+  LEFT JOIN public.level_progress lp ON lp.level_id = l.id AND lp.user_id = auth.uid()
+  WHERE l.room_id = p_room_id
+  AND l.published
+  AND public.is_room_participant(p_room_id)
+  ORDER BY l.position;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_progress public.level_progress;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = p_user_id
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  v_already_solved := v_progress.solved_at IS NOT NULL;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - greatest(v_progress.unlocked_at, coalesce(v_room.starts_at, v_progress.unlocked_at)))::integer,
+      v_room.duration_seconds,
+      v_failed_attempts,
+      v_first_solve
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.level_progress
+    SET solved_at = now()
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    IF v_room.progression_mode = 'self_paced' THEN
+      PERFORM public.unlock_levels(
+        v_room.id,
+        coalesce(public.next_level_position(v_room.id, v_level.position), v_level.position),
+        p_user_id
+      );
+    END IF;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_levels(p_room_id uuid, p_level_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room creator can reorder levels' USING ERRCODE = '42501';
+  END IF;
+
+  -- levels_room_position_key is deferred, so positions may collide mid-statement
+  UPDATE public.levels
+  SET position = ordered.position
+  FROM unnest(p_level_ids) WITH ORDINALITY AS ordered(level_id, position)
+  WHERE levels.id = ordered.level_id
+  AND levels.room_id = p_room_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reorder_levels(uuid, uuid[]) TO authenticated;
+
+-- Sample test descriptions don't affect grading, so they are left out
+CREATE OR REPLACE FUNCTION public.level_grading_input(p_level_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'entry_point', l.entry_point,
+    'parameters', l.parameters,
+    'return_type', l.return_type,
+    'tests', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('input', test ->> 'input', 'expected', test ->> 'expected') ORDER BY ordinality)
+      FROM jsonb_array_elements(l.test_cases) WITH ORDINALITY AS sample(test, ordinality)
+    ), '[]'::jsonb),
+    'hidden_tests', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('input', h.input, 'expected', h.expected) ORDER BY h.position, h.id)
+      FROM public.hidden_test_cases h
+      WHERE h.level_id = l.id
+    ), '[]'::jsonb),
+    'solution', (
+      SELECT jsonb_build_object('language', s.language, 'code', s.code)
+      FROM public.level_solutions s
+      WHERE s.level_id = l.id
+    )
+  )
+  FROM public.levels l
+  WHERE l.id = p_level_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.level_grading_input(uuid) FROM PUBLIC, anon, authenticated;
+
+-- p_input is the level_grading_input the solution passed on. Returns false,
+-- without publishing, if the level changed while the tests were running.
+CREATE OR REPLACE FUNCTION public.publish_validated_level(p_level_id uuid, p_input jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+  IF public.level_grading_input(p_level_id) IS DISTINCT FROM p_input THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.level_validations (level_id, input)
+  VALUES (p_level_id, p_input)
+  ON CONFLICT (level_id) DO UPDATE
+  SET input = EXCLUDED.input,
+      validated_at = now();
+
+  UPDATE public.levels SET published = true WHERE id = p_level_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_validated_level(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- AFTER triggers, so the check sees the rows as written
+CREATE OR REPLACE FUNCTION public.check_level_validated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'levels' THEN
+    v_level_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_level_id := OLD.level_id;
+  ELSE
+    v_level_id := NEW.level_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.levels WHERE id = v_level_id AND published)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.level_validations
+      WHERE level_id = v_level_id
+      AND input = public.level_grading_input(v_level_id)
+    ) THEN
+    RAISE EXCEPTION 'A level can only be published once its reference solution passes every test. Unpublish it to change its tests or solution.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Only columns that publish a level or change how it is graded, so moving
+-- or activating a level published before validation existed still works
+CREATE TRIGGER levels_check_validated
+  AFTER INSERT OR UPDATE OF published, entry_point, parameters, return_type, test_cases ON public.levels
+  FOR EACH ROW
+  WHEN (NEW.published)
+  EXECUTE FUNCTION public.check_level_validated();
+
+CREATE TRIGGER hidden_test_cases_check_validated
+  AFTER INSERT OR UPDATE OR DELETE ON public.hidden_test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_level_validated();
+
+CREATE TRIGGER level_solutions_check_validated
+  AFTER INSERT OR UPDATE OR DELETE ON public.level_solutions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_level_validated();
@@ -0,0 +1,418 @@
+/*
+  # Problem bank and room templates
+
+  1. New Tables
+    - problems: reusable puzzles that are not tied to a room
+      - id (uuid, primary key)
+      - created_by (uuid, references users): NULL for the built-in problems
+      - title, description, movie_reference, difficulty
+      - entry_point, parameters, return_type, languages, starter_code
+      - test_cases (jsonb): visible sample tests
+      - tags (text[]): topics such as "strings" or "math"
+    - problem_hidden_tests
+      - problem_id (uuid, references problems)
+      - position, input, expected, description
+    - problem_solutions
+      - problem_id (uuid, references problems, primary key)
+      - language, code
+    - room_templates: a named, ordered problem set
+      - id (uuid, primary key)
+      - created_by (uuid, references users): NULL for built-in templates
+      - name, description
+    - room_template_problems
+      - template_id (uuid, references room_templates)
+      - problem_id (uuid, references problems)
+      - position (integer)
+
+  2. Changes
+    - levels.problem_id records which bank problem a level was copied from
+
+  3. Functions
+    - save_level_to_bank: copies a room level, its hidden tests and reference solution into the bank
+    - set_template_problems: replaces a template's ordered problem list
+    - instantiate_room_template: copies a template's problems into a room as draft levels
+      and returns their ids, for the client to publish through publish-level
+
+  4. Security
+    - Organizers manage their own problems and templates; built-in ones are read-only
+    - Hidden tests and reference solutions are only visible to the problem's owner
+
+  5. Data
+    - The three movie puzzles that used to be hardcoded in the admin dashboard
+      become built-in problems, bundled as the "Movie Classics" template
+*/
+
+CREATE TABLE public.problems (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES public.users,
+  title text NOT NULL,
+  description text NOT NULL,
+  movie_reference text NOT NULL,
+  difficulty text NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  entry_point text NOT NULL,
+  parameters jsonb NOT NULL DEFAULT '[]'::jsonb,
+  return_type text NOT NULL DEFAULT 'string',
+  languages text[] NOT NULL DEFAULT ARRAY['javascript'],
+  starter_code jsonb NOT NULL DEFAULT '{}'::jsonb,
+  test_cases jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX problems_tags_idx ON public.problems USING gin (tags);
+
+CREATE TABLE public.problem_hidden_tests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  problem_id uuid REFERENCES public.problems ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  input text NOT NULL,
+  expected text NOT NULL,
+  description text NOT NULL DEFAULT ''
+);
+
+CREATE TABLE public.problem_solutions (
+  problem_id uuid PRIMARY KEY REFERENCES public.problems ON DELETE CASCADE,
+  language text NOT NULL DEFAULT 'javascript' CHECK (language IN ('javascript', 'typescript', 'python', 'cpp')),
+  code text NOT NULL
+);
+
+CREATE TABLE public.room_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES public.users,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE public.room_template_problems (
+  template_id uuid REFERENCES public.room_templates ON DELETE CASCADE NOT NULL,
+  problem_id uuid REFERENCES public.problems ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  PRIMARY KEY (template_id, position)
+);
+
+ALTER TABLE public.levels
+  ADD COLUMN problem_id uuid REFERENCES public.problems ON DELETE SET NULL;
+
+ALTER TABLE public.problems ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.problem_hidden_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.problem_solutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_template_problems ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view built-in and own problems"
+  ON public.problems
+  FOR SELECT
+  TO authenticated
+  USING (created_by IS NULL OR created_by = auth.uid());
+
+CREATE POLICY "Users can manage own problems"
+  ON public.problems
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Problem owners can manage hidden tests"
+  ON public.problem_hidden_tests
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.problems
+    WHERE problems.id = problem_hidden_tests.problem_id
+    AND problems.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.problems
+    WHERE problems.id = problem_hidden_tests.problem_id
+    AND problems.created_by = auth.uid()
+  ));
+
+CREATE POLICY "Problem owners can manage reference solutions"
+  ON public.problem_solutions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.problems
+    WHERE problems.id = problem_solutions.problem_id
+    AND problems.created_by = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.problems
+    WHERE problems.id = problem_solutions.problem_id
+    AND problems.created_by = auth.uid()
+  ));
+
+CREATE POLICY "Anyone can view built-in and own templates"
+  ON public.room_templates
+  FOR SELECT
+  TO authenticated
+  USING (created_by IS NULL OR created_by = auth.uid());
+
+CREATE POLICY "Users can manage own templates"
+  ON public.room_templates
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+-- Writes go through set_template_problems
+CREATE POLICY "Template viewers can view template problems"
+  ON public.room_template_problems
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.room_templates
+    WHERE room_templates.id = room_template_problems.template_id
+    AND (room_templates.created_by IS NULL OR room_templates.created_by = auth.uid())
+  ));
+
+CREATE OR REPLACE FUNCTION public.save_level_to_bank(p_level_id uuid, p_tags text[] DEFAULT '{}')
+RETURNS public.problems
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level public.levels;
+  v_problem public.problems;
+BEGIN
+  SELECT levels.* INTO v_level
+  FROM public.levels
+  JOIN public.rooms ON rooms.id = levels.room_id
+  WHERE levels.id = p_level_id
+  AND rooms.created_by = auth.uid();
+
+  IF v_level.id IS NULL THEN
+    RAISE EXCEPTION 'Only the room creator can save its levels to the bank' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.problems (
+    created_by, title, description, movie_reference, difficulty, entry_point,
+    parameters, return_type, languages, starter_code, test_cases, tags
+  )
+  VALUES (
+    auth.uid(),
+    v_level.title,
+    v_level.description,
+    v_level.movie_reference,
+    v_level.difficulty,
+    v_level.entry_point,
+    v_level.parameters,
+    v_level.return_type,
+    v_level.languages,
+    v_level.starter_code,
+    v_level.test_cases,
+    p_tags
+  )
+  RETURNING * INTO v_problem;
+
+  INSERT INTO public.problem_hidden_tests (problem_id, position, input, expected, description)
+  SELECT v_problem.id, position, input, expected, description
+  FROM public.hidden_test_cases
+  WHERE level_id = p_level_id;
+
+  INSERT INTO public.problem_solutions (problem_id, language, code)
+  SELECT v_problem.id, language, code
+  FROM public.level_solutions
+  WHERE level_id = p_level_id;
+
+  UPDATE public.levels SET problem_id = v_problem.id WHERE id = p_level_id;
+
+  RETURN v_problem;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_template_problems(p_template_id uuid, p_problem_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.room_templates
+    WHERE id = p_template_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the template owner can change its problems' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.room_template_problems WHERE template_id = p_template_id;
+
+  -- Only problems the owner can see may be bundled
+  INSERT INTO public.room_template_problems (template_id, problem_id, position)
+  SELECT p_template_id, ordered.problem_id, ordered.position
+  FROM unnest(p_problem_ids) WITH ORDINALITY AS ordered(problem_id, position)
+  JOIN public.problems ON problems.id = ordered.problem_id
+  WHERE problems.created_by IS NULL OR problems.created_by = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.instantiate_room_template(p_room_id uuid, p_template_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_first_position integer;
+  v_source record;
+  v_level_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room creator can add levels' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.room_templates
+    WHERE id = p_template_id
+    AND (created_by IS NULL OR created_by = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  -- Template levels are appended after any the room already has
+  SELECT coalesce(max(position), 0) INTO v_first_position
+  FROM public.levels
+  WHERE room_id = p_room_id;
+
+  FOR v_source IN
+    SELECT problems.*, room_template_problems.position AS template_position
+    FROM public.room_template_problems
+    JOIN public.problems ON problems.id = room_template_problems.problem_id
+    WHERE room_template_problems.template_id = p_template_id
+    ORDER BY room_template_problems.position
+  LOOP
+    v_count := v_count + 1;
+
+    INSERT INTO public.levels (
+      room_id, problem_id, position, published, status, title, description, movie_reference,
+      difficulty, entry_point, parameters, return_type, languages, starter_code,
+      initial_code, test_cases
+    )
+    VALUES (
+      p_room_id,
+      v_source.id,
+      v_first_position + v_count,
+      false,
+      'waiting',
+      v_source.title,
+      v_source.description,
+      v_source.movie_reference,
+      v_source.difficulty,
+      v_source.entry_point,
+      v_source.parameters,
+      v_source.return_type,
+      v_source.languages,
+      v_source.starter_code,
+      coalesce(v_source.starter_code ->> v_source.languages[1], ''),
+      v_source.test_cases
+    )
+    RETURNING id INTO v_level_id;
+
+    INSERT INTO public.hidden_test_cases (level_id, position, input, expected, description)
+    SELECT v_level_id, position, input, expected, description
+    FROM public.problem_hidden_tests
+    WHERE problem_id = v_source.id;
+
+    INSERT INTO public.level_solutions (level_id, language, code)
+    SELECT v_level_id, language, code
+    FROM public.problem_solutions
+    WHERE problem_id = v_source.id;
+
+    RETURN NEXT v_level_id;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_level_to_bank(uuid, text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_template_problems(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.instantiate_room_template(uuid, uuid) TO authenticated;
+
+-- Built-in problems
+INSERT INTO public.problems (
+  title, description, movie_reference, difficulty, entry_point, parameters,
+  return_type, languages, starter_code, test_cases, tags
+)
+VALUES
+  (
+    'The Matrix''s Digital Rain',
+    'Create a function that generates the iconic ''Digital Rain'' effect from The Matrix. The function should transform a string into a cascading pattern of characters.',
+    'The Matrix (1999)',
+    'medium',
+    'digitalRain',
+    '[{"name": "input", "type": "string"}]',
+    'string',
+    ARRAY['javascript', 'typescript', 'python'],
+    jsonb_build_object(
+      'javascript', E'function digitalRain(input) {\n  // Your code here\n}',
+      'typescript', E'function digitalRain(input: string): string {\n  // Your code here\n}',
+      'python', E'def digitalRain(input):\n    # Your code here\n    pass'
+    ),
+    jsonb_build_array(
+      jsonb_build_object('input', 'hello', 'expected', E'h\ne\nl\nl\no', 'description', 'Transform ''hello'' into a vertical cascade'),
+      jsonb_build_object('input', 'neo', 'expected', E'n\ne\no', 'description', 'Transform ''neo'' into a vertical cascade')
+    ),
+    ARRAY['strings']
+  ),
+  (
+    'Inception''s Dream Levels',
+    'Create a function that calculates how much time passes in reality given the time spent in each dream level, where each level makes time pass 12 times slower.',
+    'Inception (2010)',
+    'hard',
+    'dreamTime',
+    '[{"name": "levels", "type": "number"}]',
+    'number',
+    ARRAY['javascript', 'typescript', 'python'],
+    jsonb_build_object(
+      'javascript', E'function dreamTime(levels) {\n  // Your code here\n}',
+      'typescript', E'function dreamTime(levels: number): number {\n  // Your code here\n}',
+      'python', E'def dreamTime(levels):\n    # Your code here\n    pass'
+    ),
+    jsonb_build_array(
+      jsonb_build_object('input', '1', 'expected', '12', 'description', '1 hour in level 1 = 12 hours in reality'),
+      jsonb_build_object('input', '2', 'expected', '144', 'description', '1 hour in level 2 = 144 hours in reality')
+    ),
+    ARRAY['math']
+  ),
+  (
+    'Back to the Future Time Circuits',
+    'Create a function that calculates the exact time difference between two dates in years, months, days, hours, and minutes, just like Doc''s time circuits!',
+    'Back to the Future (1985)',
+    'easy',
+    'timeDifference',
+    '[{"name": "date1", "type": "string"}, {"name": "date2", "type": "string"}]',
+    'string',
+    ARRAY['javascript', 'typescript', 'python'],
+    jsonb_build_object(
+      'javascript', E'function timeDifference(date1, date2) {\n  // Your code here\n}',
+      'typescript', E'function timeDifference(date1: string, date2: string): string {\n  // Your code here\n}',
+      'python', E'def timeDifference(date1, date2):\n    # Your code here\n    pass'
+    ),
+    jsonb_build_array(
+      jsonb_build_object('input', '1985-10-26,1955-11-05', 'expected', '29 years, 11 months, 21 days', 'description', 'Calculate time difference between key dates')
+    ),
+    ARRAY['dates']
+  );
+
+INSERT INTO public.room_templates (name, description)
+VALUES ('Movie Classics', 'The original three CodeChase puzzles.');
+
+INSERT INTO public.room_template_problems (template_id, problem_id, position)
+SELECT room_templates.id, problems.id, ordered.position
+FROM public.room_templates
+CROSS JOIN unnest(ARRAY[
+  'The Matrix''s Digital Rain',
+  'Inception''s Dream Levels',
+  'Back to the Future Time Circuits'
+]) WITH ORDINALITY AS ordered(title, position)
+JOIN public.problems ON problems.title = ordered.title AND problems.created_by IS NULL
+WHERE room_templates.name = 'Movie Classics'
+AND room_templates.created_by IS NULL;
@@ -0,0 +1,119 @@
+/*
+  # Problem pack import
+
+  1. Functions
+    - import_level_pack: writes the levels of a validated problem pack into a room in
+      one transaction. Levels are matched to the room's existing levels by title
+      (case-insensitive); matches are updated in place, the rest are appended after
+      the last position. Hidden tests are replaced and the reference solution is
+      upserted. Room levels the pack doesn't mention are left alone.
+      Every imported level is saved as a draft, and the ids are returned in
+      the pack's order so the client can publish them through publish-level.
+
+  2. Security
+    - Only the room creator can import into a room
+*/
+
+CREATE OR REPLACE FUNCTION public.import_level_pack(p_room_id uuid, p_levels jsonb)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level jsonb;
+  v_level_id uuid;
+  v_languages text[];
+  v_next_position integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room creator can import levels' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(max(position), 0) INTO v_next_position
+  FROM public.levels
+  WHERE room_id = p_room_id;
+
+  FOR v_level IN SELECT * FROM jsonb_array_elements(p_levels)
+  LOOP
+    SELECT array_agg(language ORDER BY language <> 'javascript', language) INTO v_languages
+    FROM jsonb_object_keys(v_level -> 'starter_code') AS language;
+
+    SELECT id INTO v_level_id
+    FROM public.levels
+    WHERE room_id = p_room_id
+    AND lower(trim(title)) = lower(trim(v_level ->> 'title'));
+
+    IF v_level_id IS NULL THEN
+      v_next_position := v_next_position + 1;
+
+      INSERT INTO public.levels (
+        room_id, position, status, title, description, movie_reference, difficulty,
+        entry_point, parameters, return_type, languages, starter_code, initial_code,
+        test_cases, published
+      )
+      VALUES (
+        p_room_id,
+        v_next_position,
+        'waiting',
+        v_level ->> 'title',
+        v_level ->> 'description',
+        v_level ->> 'movie_reference',
+        v_level ->> 'difficulty',
+        v_level ->> 'entry_point',
+        coalesce(v_level -> 'parameters', '[]'::jsonb),
+        coalesce(v_level ->> 'return_type', 'string'),
+        v_languages,
+        v_level -> 'starter_code',
+        coalesce(v_level -> 'starter_code' ->> v_languages[1], ''),
+        v_level -> 'tests',
+        false
+      )
+      RETURNING id INTO v_level_id;
+    ELSE
+      UPDATE public.levels
+      SET title = v_level ->> 'title',
+          description = v_level ->> 'description',
+          movie_reference = v_level ->> 'movie_reference',
+          difficulty = v_level ->> 'difficulty',
+          entry_point = v_level ->> 'entry_point',
+          parameters = coalesce(v_level -> 'parameters', '[]'::jsonb),
+          return_type = coalesce(v_level ->> 'return_type', 'string'),
+          languages = v_languages,
+          starter_code = v_level -> 'starter_code',
+          initial_code = coalesce(v_level -> 'starter_code' ->> v_languages[1], ''),
+          test_cases = v_level -> 'tests',
+          published = false
+      WHERE id = v_level_id;
+    END IF;
+
+    DELETE FROM public.hidden_test_cases WHERE level_id = v_level_id;
+
+    INSERT INTO public.hidden_test_cases (level_id, position, input, expected, description)
+    SELECT
+      v_level_id,
+      hidden.ordinality - 1,
+      hidden.test ->> 'input',
+      hidden.test ->> 'expected',
+      coalesce(hidden.test ->> 'description', '')
+    FROM jsonb_array_elements(coalesce(v_level -> 'hidden_tests', '[]'::jsonb)) WITH ORDINALITY AS hidden(test, ordinality);
+
+    IF v_level ? 'solution' THEN
+      INSERT INTO public.level_solutions (level_id, language, code, updated_at)
+      VALUES (v_level_id, v_level -> 'solution' ->> 'language', v_level -> 'solution' ->> 'code', now())
+      ON CONFLICT (level_id) DO UPDATE
+      SET language = EXCLUDED.language,
+          code = EXCLUDED.code,
+          updated_at = EXCLUDED.updated_at;
+    END IF;
+
+    RETURN NEXT v_level_id;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_level_pack(uuid, jsonb) TO authenticated;
@@ -0,0 +1,175 @@
+/*
+  # User roles
+
+  1. Changes
+    - users.role: 'player' (default), 'organizer' or 'superadmin'
+    - Everyone who has already created a room becomes an organizer
+
+  2. Functions
+    - has_role: whether the current user has at least the given role
+      (player < organizer < superadmin)
+    - set_user_role: lets a superadmin promote or demote another user
+
+  3. Security
+    - New profiles can only be created with the player role
+    - Only organizers can create rooms, bank problems and room templates
+    - Superadmins can read every profile
+    - Roles can't be changed from the client except through set_user_role
+
+  4. Bootstrapping
+    - Promote the first superadmin from the SQL editor:
+      UPDATE public.users SET role = 'superadmin' WHERE username = '...';
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN role text NOT NULL DEFAULT 'player'
+  CHECK (role IN ('player', 'organizer', 'superadmin'));
+
+UPDATE public.users
+SET role = 'organizer'
+WHERE id IN (SELECT created_by FROM public.rooms);
+
+CREATE OR REPLACE FUNCTION public.has_role(p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+    AND array_position(ARRAY['player', 'organizer', 'superadmin'], role)
+      >= array_position(ARRAY['player', 'organizer', 'superadmin'], p_role)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id uuid, p_role text)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user public.users;
+BEGIN
+  IF NOT public.has_role('superadmin') THEN
+    RAISE EXCEPTION 'Only superadmins can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  UPDATE public.users
+  SET role = p_role
+  WHERE id = p_user_id
+  RETURNING * INTO v_user;
+
+  RETURN v_user;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_role(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_role(uuid, text) TO authenticated;
+
+DROP POLICY "Users can insert their own data during registration" ON public.users;
+
+CREATE POLICY "Users can insert their own data during registration"
+  ON public.users
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id AND role = 'player');
+
+CREATE POLICY "Superadmins can read all users"
+  ON public.users
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role('superadmin'));
+
+DROP POLICY "Admin can create rooms" ON public.rooms;
+
+CREATE POLICY "Organizers can create rooms"
+  ON public.rooms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND public.has_role('organizer'));
+
+DROP POLICY "Users can manage own problems" ON public.problems;
+
+CREATE POLICY "Organizers can manage own problems"
+  ON public.problems
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid() AND public.has_role('organizer'));
+
+DROP POLICY "Users can manage own templates" ON public.room_templates;
+
+CREATE POLICY "Organizers can manage own templates"
+  ON public.room_templates
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid() AND public.has_role('organizer'));
+
+-- save_level_to_bank runs as definer, so it checks the role itself
+CREATE OR REPLACE FUNCTION public.save_level_to_bank(p_level_id uuid, p_tags text[] DEFAULT '{}')
+RETURNS public.problems
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level public.levels;
+  v_problem public.problems;
+BEGIN
+  IF NOT public.has_role('organizer') THEN
+    RAISE EXCEPTION 'Only organizers can add to the problem bank' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT levels.* INTO v_level
+  FROM public.levels
+  JOIN public.rooms ON rooms.id = levels.room_id
+  WHERE levels.id = p_level_id
+  AND rooms.created_by = auth.uid();
+
+  IF v_level.id IS NULL THEN
+    RAISE EXCEPTION 'Only the room creator can save its levels to the bank' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.problems (
+    created_by, title, description, movie_reference, difficulty, entry_point,
+    parameters, return_type, languages, starter_code, test_cases, tags
+  )
+  VALUES (
+    auth.uid(),
+    v_level.title,
+    v_level.description,
+    v_level.movie_reference,
+    v_level.difficulty,
+    v_level.entry_point,
+    v_level.parameters,
+    v_level.return_type,
+    v_level.languages,
+    v_level.starter_code,
+    v_level.test_cases,
+    p_tags
+  )
+  RETURNING * INTO v_problem;
+
+  INSERT INTO public.problem_hidden_tests (problem_id, position, input, expected, description)
+  SELECT v_problem.id, position, input, expected, description
+  FROM public.hidden_test_cases
+  WHERE level_id = p_level_id;
+
+  INSERT INTO public.problem_solutions (problem_id, language, code)
+  SELECT v_problem.id, language, code
+  FROM public.level_solutions
+  WHERE level_id = p_level_id;
+
+  UPDATE public.levels SET problem_id = v_problem.id WHERE id = p_level_id;
+
+  RETURN v_problem;
+END;
+$$;
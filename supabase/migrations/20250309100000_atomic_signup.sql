@@ -0,0 +1,86 @@
+/*
+  # Atomic signup
+
+  1. Changes
+    - Usernames are 3-20 letters, digits or underscores, starting with a letter,
+      and unique regardless of case (existing rows are not re-checked)
+
+  2. Functions
+    - handle_new_user: trigger on auth.users that creates the public.users profile
+      in the same transaction as the auth account. The username comes from the
+      sign-up metadata; if it is missing (OAuth and magic-link sign-ups) one is
+      derived from the provider's user name or the email address. A taken or
+      malformed username aborts the whole sign-up, so no account is left without
+      a profile.
+    - username_available: lets the sign-up form check a username before submitting
+
+  3. Security
+    - Profiles are no longer inserted from the client
+*/
+
+ALTER TABLE public.users
+  ADD CONSTRAINT users_username_format
+  CHECK (username ~ '^[A-Za-z][A-Za-z0-9_]{2,19}$') NOT VALID;
+
+CREATE UNIQUE INDEX users_username_lower_key ON public.users (lower(username));
+
+CREATE OR REPLACE FUNCTION public.username_available(p_username text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_username ~ '^[A-Za-z][A-Za-z0-9_]{2,19}$'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE lower(username) = lower(p_username)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.username_available(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_username text := NEW.raw_user_meta_data ->> 'username';
+  v_base text;
+BEGIN
+  IF v_username IS NULL THEN
+    v_base := regexp_replace(
+      coalesce(NEW.raw_user_meta_data ->> 'user_name', split_part(NEW.email, '@', 1), 'player'),
+      '[^A-Za-z0-9_]', '', 'g'
+    );
+    IF v_base !~ '^[A-Za-z]' THEN
+      v_base := 'player' || v_base;
+    END IF;
+    v_base := left(v_base, 15);
+    IF length(v_base) < 3 THEN
+      v_base := v_base || 'player';
+    END IF;
+
+    v_username := v_base;
+    WHILE NOT public.username_available(v_username) LOOP
+      v_username := v_base || floor(random() * 10000)::integer;
+    END LOOP;
+  ELSIF NOT public.username_available(v_username) THEN
+    RAISE EXCEPTION 'Username "%" is not available', v_username USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.users (id, username)
+  VALUES (NEW.id, v_username);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+DROP POLICY "Users can insert their own data during registration" ON public.users;
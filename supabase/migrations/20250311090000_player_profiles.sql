@@ -0,0 +1,227 @@
+/*
+  # Player profiles
+
+  1. Changes
+    - users.display_name: optional name shown instead of the username
+    - users.avatar_url: public URL of the player's avatar
+    - avatars storage bucket: public, 1 MB images, one folder per user
+
+  2. Functions
+    - player_profile: public card for a username (points, rooms played, levels solved)
+    - player_solves: every level the player solved, with its difficulty, movie,
+      points and solve time, computed the same way as room_leaderboard
+    - player_submissions: the player's submissions, newest first, one page at a time
+    - submission_code: the code of one submission, if the caller may see it
+    - can_view_submission_code: code is visible to its author, the room's
+      creator and superadmins, and to everyone once the room's clock has run
+      out, so profiles can't be used to copy answers during a chase
+
+  3. Security
+    - Users can update their own display_name and avatar_url, and no other column
+    - Users can only write avatars inside their own folder
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN display_name text CHECK (char_length(display_name) BETWEEN 1 AND 40),
+  ADD COLUMN avatar_url text;
+
+CREATE POLICY "Users can update their own profile"
+  ON public.users
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+REVOKE UPDATE ON public.users FROM anon, authenticated;
+GRANT UPDATE (display_name, avatar_url) ON public.users TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 1048576, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace their own avatar"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE OR REPLACE FUNCTION public.player_profile(p_username text)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  points integer,
+  current_level integer,
+  created_at timestamptz,
+  rooms_played integer,
+  levels_solved integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    u.username,
+    u.display_name,
+    u.avatar_url,
+    coalesce(u.points, 0),
+    coalesce(u.current_level, 1),
+    u.created_at,
+    (SELECT count(*)::integer FROM public.room_participants p WHERE p.user_id = u.id),
+    (
+      SELECT count(DISTINCT s.level_id)::integer
+      FROM public.submissions s
+      WHERE s.user_id = u.id
+      AND s.status = 'completed'
+    )
+  FROM public.users u
+  WHERE lower(u.username) = lower(p_username);
+$$;
+
+CREATE OR REPLACE FUNCTION public.player_solves(p_username text)
+RETURNS TABLE (
+  level_id uuid,
+  level_title text,
+  difficulty text,
+  movie_reference text,
+  room_id uuid,
+  room_name text,
+  points integer,
+  solve_seconds integer,
+  solved_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT DISTINCT ON (s.level_id)
+      s.level_id,
+      l.title AS level_title,
+      l.difficulty,
+      l.movie_reference,
+      r.id AS room_id,
+      r.name AS room_name,
+      coalesce(s.points, 0) AS points,
+      coalesce(
+        (s.score_breakdown ->> 'elapsed_seconds')::integer,
+        extract(epoch FROM s.submitted_at - coalesce(l.activated_at, r.starts_at, s.submitted_at))::integer
+      ) AS solve_seconds,
+      s.submitted_at AS solved_at
+    FROM public.submissions s
+    JOIN public.users u ON u.id = s.user_id
+    JOIN public.levels l ON l.id = s.level_id
+    JOIN public.rooms r ON r.id = l.room_id
+    WHERE lower(u.username) = lower(p_username)
+    AND s.status = 'completed'
+    ORDER BY s.level_id, s.submitted_at
+  ) solves
+  ORDER BY solves.solved_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_submission_code(p_user_id uuid, p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id = auth.uid()
+  OR public.has_role('superadmin')
+  OR EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND (created_by = auth.uid() OR ends_at <= now())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.player_submissions(
+  p_username text,
+  p_before timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  level_id uuid,
+  level_title text,
+  room_name text,
+  language text,
+  status text,
+  points integer,
+  tests_passed integer,
+  tests_total integer,
+  submitted_at timestamptz,
+  code_visible boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.level_id,
+    l.title,
+    r.name,
+    s.language,
+    s.status,
+    coalesce(s.points, 0),
+    s.tests_passed,
+    s.tests_total,
+    s.submitted_at,
+    public.can_view_submission_code(s.user_id, r.id)
+  FROM public.submissions s
+  JOIN public.users u ON u.id = s.user_id
+  JOIN public.levels l ON l.id = s.level_id
+  JOIN public.rooms r ON r.id = l.room_id
+  WHERE lower(u.username) = lower(p_username)
+  AND (p_before IS NULL OR s.submitted_at < p_before)
+  ORDER BY s.submitted_at DESC
+  LIMIT least(p_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.submission_code(p_submission_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_room_id uuid;
+  v_code text;
+BEGIN
+  SELECT s.user_id, l.room_id, s.code INTO v_user_id, v_room_id, v_code
+  FROM public.submissions s
+  JOIN public.levels l ON l.id = s.level_id
+  WHERE s.id = p_submission_id;
+
+  IF v_user_id IS NULL OR NOT public.can_view_submission_code(v_user_id, v_room_id) THEN
+    RAISE EXCEPTION 'This code is hidden until the room ends' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.player_profile(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.player_solves(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_submission_code(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.player_submissions(text, timestamptz, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submission_code(uuid) TO authenticated;
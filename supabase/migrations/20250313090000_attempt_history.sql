@@ -0,0 +1,236 @@
+/*
+  # Attempt history and drafts
+
+  1. Changes
+    - submissions.test_results (jsonb): the grader's per-test results for the
+      attempt, { sample_results, hidden_results }, with hidden tests reduced to
+      their status as in the grader's response
+    - code_drafts: the code a player is working on, per level and language,
+      autosaved from the Room so a reload picks up where they left off
+
+  2. Functions
+    - record_submission takes the per-test results
+    - level_attempts: the caller's own graded attempts at a level, newest first,
+      with their code and results
+    - is_level_unlocked: whether a published level is unlocked for the caller
+      in a room they take part in
+
+  3. Security
+    - Players can only read and write their own drafts, and only write them
+      for levels unlocked for them
+    - Like code, test_results is not selectable by clients; players read their
+      own through level_attempts
+*/
+
+ALTER TABLE public.submissions
+  ADD COLUMN test_results jsonb;
+
+CREATE TABLE public.code_drafts (
+  user_id uuid REFERENCES public.users NOT NULL DEFAULT auth.uid(),
+  level_id uuid REFERENCES public.levels ON DELETE CASCADE NOT NULL,
+  language text NOT NULL,
+  code text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, level_id, language)
+);
+
+ALTER TABLE public.code_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Unlocked levels have a level_progress row, which lockstep rooms add for
+-- everyone as the room advances and self-paced rooms per player
+CREATE OR REPLACE FUNCTION public.is_level_unlocked(p_level_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.level_progress
+    JOIN public.levels ON levels.id = level_progress.level_id
+    WHERE level_progress.level_id = p_level_id
+    AND level_progress.user_id = auth.uid()
+    AND levels.published
+    AND public.is_room_participant(level_progress.room_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_level_unlocked(uuid) TO authenticated;
+
+CREATE POLICY "Users can manage their own drafts"
+  ON public.code_drafts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND public.is_level_unlocked(level_id));
+
+DROP FUNCTION public.record_submission(uuid, uuid, text, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer,
+  p_test_results jsonb DEFAULT NULL
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_progress public.level_progress;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = p_user_id
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  v_already_solved := v_progress.solved_at IS NOT NULL;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - greatest(v_progress.unlocked_at, coalesce(v_room.starts_at, v_progress.unlocked_at)))::integer,
+      v_room.duration_seconds,
+      v_failed_attempts,
+      v_first_solve
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.level_progress
+    SET solved_at = now()
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    IF v_room.progression_mode = 'self_paced' THEN
+      PERFORM public.unlock_levels(
+        v_room.id,
+        coalesce(public.next_level_position(v_room.id, v_level.position), v_level.position),
+        p_user_id
+      );
+    END IF;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total, test_results
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total,
+    p_test_results
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_submission(uuid, uuid, text, text, integer, integer, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_submission(uuid, uuid, text, text, integer, integer, jsonb) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.level_attempts(p_level_id uuid)
+RETURNS TABLE (
+  id uuid,
+  language text,
+  code text,
+  status text,
+  points integer,
+  tests_passed integer,
+  tests_total integer,
+  test_results jsonb,
+  submitted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.language,
+    s.code,
+    s.status,
+    coalesce(s.points, 0),
+    s.tests_passed,
+    s.tests_total,
+    s.test_results,
+    s.submitted_at
+  FROM public.submissions s
+  WHERE s.user_id = auth.uid()
+  AND s.level_id = p_level_id
+  ORDER BY s.submitted_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.level_attempts(uuid) TO authenticated;
@@ -0,0 +1,345 @@
+/*
+  # Room proctoring
+
+  1. Changes
+    - room_participants.muted: a muted participant's submissions are refused
+      until the organizer unmutes them
+    - room_bans: players kicked from a room, who can't join it again
+
+  2. Functions
+    - is_room_creator: SECURITY DEFINER ownership check for policies
+    - is_banned_from_room: whether the current user was kicked from a room
+    - proctor_room: one row per participant for the proctor grid (current level,
+      attempts, last result and latest draft)
+    - participant_status: the caller's own muted flag in a room
+    - kick_participant / set_participant_muted / reset_participant: organizer
+      controls, restricted to the room's creator. Reset deletes the
+      participant's submissions, progress and drafts in the room, takes back
+      the points they earned there and unlocks their levels again as if they
+      had just joined.
+
+  3. Security
+    - Players can't join rooms they were kicked from
+    - Room creators can read drafts in their rooms
+    - Private realtime broadcast topics proctor:<room id>:<user id> carry a
+      participant's live state to the room's creator and moderation notices
+      back. Only that participant and the room's creator can use them.
+*/
+
+ALTER TABLE public.room_participants
+  ADD COLUMN muted boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.room_bans (
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.users NOT NULL,
+  banned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE public.room_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_room_creator(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND created_by = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_banned_from_room(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.room_bans
+    WHERE room_id = p_room_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_room_creator(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_banned_from_room(uuid) TO authenticated;
+
+CREATE POLICY "Room creators can view their room's bans"
+  ON public.room_bans
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_creator(room_id));
+
+DROP POLICY "Users can join rooms" ON public.room_participants;
+
+CREATE POLICY "Users can join rooms"
+  ON public.room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT public.is_banned_from_room(room_id));
+
+CREATE POLICY "Room creators can view drafts in their rooms"
+  ON public.code_drafts
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.levels
+    WHERE levels.id = code_drafts.level_id
+    AND public.is_room_creator(levels.room_id)
+  ));
+
+-- Topic format: proctor:<room id>:<user id>
+CREATE OR REPLACE FUNCTION public.can_use_proctor_topic(p_topic text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+  v_user_id uuid;
+BEGIN
+  IF split_part(p_topic, ':', 1) <> 'proctor' THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    v_room_id := split_part(p_topic, ':', 2)::uuid;
+    v_user_id := split_part(p_topic, ':', 3)::uuid;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  RETURN public.is_room_creator(v_room_id)
+    OR (v_user_id = auth.uid() AND public.is_room_participant(v_room_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_use_proctor_topic(text) TO authenticated;
+
+CREATE POLICY "Proctor topics can be read by the participant and the room creator"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (realtime.messages.extension = 'broadcast' AND public.can_use_proctor_topic(realtime.topic()));
+
+CREATE POLICY "Proctor topics can be written by the participant and the room creator"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (realtime.messages.extension = 'broadcast' AND public.can_use_proctor_topic(realtime.topic()));
+
+CREATE OR REPLACE FUNCTION public.proctor_room(p_room_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  muted boolean,
+  joined_at timestamptz,
+  score integer,
+  levels_solved integer,
+  current_level_id uuid,
+  current_level_title text,
+  attempts integer,
+  last_status text,
+  last_tests_passed integer,
+  last_tests_total integer,
+  last_submitted_at timestamptz,
+  draft_language text,
+  draft_code text,
+  draft_updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can proctor this room' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    u.username,
+    p.muted,
+    p.joined_at,
+    p.score,
+    (
+      SELECT count(*)::integer FROM public.level_progress lp
+      WHERE lp.room_id = p_room_id AND lp.user_id = p.user_id AND lp.solved_at IS NOT NULL
+    ),
+    current_level.id,
+    current_level.title,
+    (
+      SELECT count(*)::integer FROM public.submissions s
+      JOIN public.levels l ON l.id = s.level_id
+      WHERE l.room_id = p_room_id AND s.user_id = p.user_id
+    ),
+    last_submission.status,
+    last_submission.tests_passed,
+    last_submission.tests_total,
+    last_submission.submitted_at,
+    draft.language,
+    draft.code,
+    draft.updated_at
+  FROM public.room_participants p
+  JOIN public.users u ON u.id = p.user_id
+  -- The first unlocked level they haven't solved, or their last level once done
+  LEFT JOIN LATERAL (
+    SELECT l.id, l.title
+    FROM public.level_progress lp
+    JOIN public.levels l ON l.id = lp.level_id
+    WHERE lp.room_id = p_room_id AND lp.user_id = p.user_id
+    ORDER BY lp.solved_at IS NULL DESC, CASE WHEN lp.solved_at IS NULL THEN l.position ELSE -l.position END
+    LIMIT 1
+  ) current_level ON true
+  LEFT JOIN LATERAL (
+    SELECT s.status, s.tests_passed, s.tests_total, s.submitted_at
+    FROM public.submissions s
+    JOIN public.levels l ON l.id = s.level_id
+    WHERE l.room_id = p_room_id AND s.user_id = p.user_id
+    ORDER BY s.submitted_at DESC
+    LIMIT 1
+  ) last_submission ON true
+  LEFT JOIN LATERAL (
+    SELECT d.language, d.code, d.updated_at
+    FROM public.code_drafts d
+    JOIN public.levels l ON l.id = d.level_id
+    WHERE l.room_id = p_room_id AND d.user_id = p.user_id
+    ORDER BY d.updated_at DESC
+    LIMIT 1
+  ) draft ON true
+  WHERE p.room_id = p_room_id
+  ORDER BY u.username;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.participant_status(p_room_id uuid)
+RETURNS TABLE (muted boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.muted
+  FROM public.room_participants p
+  WHERE p.room_id = p_room_id
+  AND p.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.kick_participant(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can kick participants' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.level_progress
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+
+  DELETE FROM public.room_participants
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+
+  INSERT INTO public.room_bans (room_id, user_id)
+  VALUES (p_room_id, p_user_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_participant_muted(p_room_id uuid, p_user_id uuid, p_muted boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can mute participants' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.room_participants
+  SET muted = p_muted
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_participant(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+  v_participant public.room_participants;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can reset participants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_participant
+  FROM public.room_participants
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room';
+  END IF;
+
+  UPDATE public.users
+  SET points = greatest(coalesce(points, 0) - v_participant.score, 0)
+  WHERE id = p_user_id;
+
+  UPDATE public.room_participants
+  SET score = 0
+  WHERE id = v_participant.id;
+
+  DELETE FROM public.submissions
+  WHERE user_id = p_user_id
+  AND level_id IN (SELECT id FROM public.levels WHERE room_id = p_room_id);
+
+  DELETE FROM public.code_drafts
+  WHERE user_id = p_user_id
+  AND level_id IN (SELECT id FROM public.levels WHERE room_id = p_room_id);
+
+  DELETE FROM public.level_progress
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+
+  IF v_room.current_position > 0 THEN
+    PERFORM public.unlock_levels(
+      p_room_id,
+      -- Self-paced players start over from the first published level
+      CASE
+        WHEN v_room.progression_mode = 'self_paced' THEN coalesce(public.next_level_position(p_room_id, 0), 0)
+        ELSE v_room.current_position
+      END,
+      p_user_id
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.proctor_room(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.participant_status(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.kick_participant(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_participant_muted(uuid, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_participant(uuid, uuid) TO authenticated;
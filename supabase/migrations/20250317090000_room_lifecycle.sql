@@ -0,0 +1,341 @@
+/*
+  # Room lifecycle
+
+  1. Changes
+    - rooms.status is now one of draft, lobby, running, paused, finished and
+      archived. New rooms start as drafts. Existing rooms are mapped from the
+      old waiting/active values: active rooms are running, rooms that were
+      started and then stopped are paused, and the rest are in the lobby.
+    - Allowed transitions:
+        draft    → lobby
+        lobby    → draft, running
+        running  → paused, finished
+        paused   → running, finished
+        finished → archived
+        archived → finished
+      A trigger rejects every other change of status, whoever makes it.
+
+  2. New Tables
+    - room_status_events: audit log with one row per transition
+      - from_status / to_status (text)
+      - changed_by (uuid, references users): the organizer, or NULL when the
+        room started or finished on its own schedule
+      - changed_at (timestamptz)
+
+  3. Functions
+    - room_transition_allowed: the transition table above
+    - transition_room: organizer control that moves a room to a new state,
+      restricted to the room's creator. Starting opens the first level and the
+      clock (unless a scheduled start already set it), pausing and resuming
+      stop and restart the clock, finishing closes it.
+    - apply_room_schedule: starts a lobby once its scheduled start has passed
+      and finishes a running room once its clock has run out. Anyone can call
+      it; it does nothing when nothing is due.
+    - pause_room_clock / resume_room_clock are replaced by transition_room
+    - start_room_clock only schedules the start of draft and lobby rooms
+    - room_accepting_submissions requires the room to be running
+    - can_view_submission_code also opens code once a room is finished
+
+  4. Security
+    - Rooms can only be created as drafts
+    - Clients can no longer update a room's status, clock or level position
+      directly; only its name
+    - Room creators and superadmins can read their rooms' audit log
+*/
+
+ALTER TABLE public.rooms
+  ALTER COLUMN status DROP DEFAULT;
+
+UPDATE public.rooms
+SET status = CASE
+  WHEN status = 'active' THEN 'running'
+  WHEN paused_remaining_seconds IS NOT NULL OR current_position > 0 THEN 'paused'
+  ELSE 'lobby'
+END;
+
+ALTER TABLE public.rooms
+  ALTER COLUMN status SET DEFAULT 'draft',
+  ADD CONSTRAINT rooms_status_check
+    CHECK (status IN ('draft', 'lobby', 'running', 'paused', 'finished', 'archived'));
+
+CREATE TABLE public.room_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES public.users,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX room_status_events_room_id_idx ON public.room_status_events (room_id, changed_at);
+
+ALTER TABLE public.room_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room creators can view their rooms' status log"
+  ON public.room_status_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_creator(room_id) OR public.has_role('superadmin'));
+
+CREATE OR REPLACE FUNCTION public.room_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('draft', 'lobby'),
+    ('lobby', 'draft'),
+    ('lobby', 'running'),
+    ('running', 'paused'),
+    ('running', 'finished'),
+    ('paused', 'running'),
+    ('paused', 'finished'),
+    ('finished', 'archived'),
+    ('archived', 'finished')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.room_transition_allowed(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_room_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.room_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A room can''t go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_check_transition
+  BEFORE UPDATE OF status ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_room_transition();
+
+CREATE OR REPLACE FUNCTION public.log_room_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    -- Only the creator can transition a room by hand; anyone else calling in
+    -- here is apply_room_schedule acting on the room's clock
+    INSERT INTO public.room_status_events (room_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      CASE WHEN auth.uid() = NEW.created_by THEN auth.uid() END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_log_transition
+  AFTER UPDATE OF status ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_room_transition();
+
+DROP POLICY "Organizers can create rooms" ON public.rooms;
+
+CREATE POLICY "Organizers can create rooms"
+  ON public.rooms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND public.has_role('organizer') AND status = 'draft');
+
+REVOKE UPDATE ON public.rooms FROM anon, authenticated;
+GRANT UPDATE (name) ON public.rooms TO authenticated;
+
+-- Opens the room's first published level when it starts. Runs as definer so a
+-- scheduled start can do it on the organizer's behalf.
+CREATE OR REPLACE FUNCTION public.open_first_level(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_first integer := public.next_level_position(p_room_id, 0);
+BEGIN
+  IF v_first IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.rooms
+  SET current_position = v_first
+  WHERE id = p_room_id
+  AND current_position = 0;
+
+  IF FOUND THEN
+    UPDATE public.levels
+    SET status = CASE WHEN position = v_first THEN 'active' ELSE 'waiting' END
+    WHERE room_id = p_room_id
+    AND (position = v_first OR status = 'active');
+
+    PERFORM public.unlock_levels(p_room_id, v_first);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_first_level(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.transition_room(p_room_id uuid, p_status text)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can change its status' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.room_transition_allowed(v_room.status, p_status) THEN
+    RAISE EXCEPTION 'A room can''t go from % to %', v_room.status, p_status;
+  END IF;
+
+  IF v_room.status = 'lobby' AND p_status = 'running' THEN
+    PERFORM public.open_first_level(p_room_id);
+
+    -- Starting early overrides a scheduled start that hasn't come yet
+    UPDATE public.rooms
+    SET starts_at = now(),
+        ends_at = now() + make_interval(secs => duration_seconds)
+    WHERE id = p_room_id
+    AND (starts_at IS NULL OR starts_at > now());
+  ELSIF p_status = 'paused' THEN
+    UPDATE public.rooms
+    SET paused_remaining_seconds = greatest(0, ceil(extract(epoch FROM ends_at - greatest(now(), starts_at))))::integer,
+        ends_at = NULL
+    WHERE id = p_room_id
+    AND ends_at IS NOT NULL;
+  ELSIF v_room.status = 'paused' AND p_status = 'running' THEN
+    UPDATE public.rooms
+    SET ends_at = now() + make_interval(secs => paused_remaining_seconds),
+        starts_at = least(starts_at, now()),
+        paused_remaining_seconds = NULL
+    WHERE id = p_room_id
+    AND paused_remaining_seconds IS NOT NULL;
+  ELSIF p_status = 'finished' AND v_room.status IN ('running', 'paused') THEN
+    UPDATE public.rooms
+    SET ends_at = CASE WHEN starts_at IS NULL THEN NULL ELSE least(coalesce(ends_at, now()), now()) END,
+        paused_remaining_seconds = NULL
+    WHERE id = p_room_id;
+  END IF;
+
+  UPDATE public.rooms
+  SET status = p_status
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_room_schedule(p_room_id uuid)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.status = 'lobby' AND v_room.starts_at <= now() THEN
+    PERFORM public.open_first_level(p_room_id);
+
+    UPDATE public.rooms
+    SET status = 'running'
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  ELSIF v_room.status = 'running' AND v_room.ends_at <= now() THEN
+    UPDATE public.rooms
+    SET status = 'finished'
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_room(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_room_schedule(uuid) TO authenticated;
+
+DROP FUNCTION public.pause_room_clock(uuid);
+DROP FUNCTION public.resume_room_clock(uuid);
+
+CREATE OR REPLACE FUNCTION public.start_room_clock(p_room_id uuid, p_starts_at timestamptz DEFAULT now())
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  PERFORM public.assert_room_creator(p_room_id);
+
+  UPDATE public.rooms
+  SET starts_at = p_starts_at,
+      ends_at = p_starts_at + make_interval(secs => duration_seconds),
+      paused_remaining_seconds = NULL
+  WHERE id = p_room_id
+  AND status IN ('draft', 'lobby')
+  RETURNING * INTO v_room;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'A room''s start can only be scheduled before it starts';
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.room_accepting_submissions(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status = 'running' AND CASE
+    -- No clock configured: the room runs until the organizer finishes it
+    WHEN starts_at IS NULL THEN true
+    WHEN paused_remaining_seconds IS NOT NULL THEN false
+    ELSE now() >= starts_at AND now() < ends_at
+  END
+  FROM public.rooms
+  WHERE id = p_room_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_submission_code(p_user_id uuid, p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id = auth.uid()
+  OR public.has_role('superadmin')
+  OR EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = p_room_id
+    AND (created_by = auth.uid() OR status IN ('finished', 'archived') OR ends_at <= now())
+  );
+$$;
@@ -0,0 +1,352 @@
+/*
+  # Room join controls
+
+  1. Changes
+    - rooms
+      - max_participants (integer): optional cap on the number of players
+      - requires_password (boolean): whether joining needs the room's password
+      - requires_approval (boolean): whether the organizer approves each player
+
+  2. New Tables
+    - room_passwords: bcrypt hash of each room's join password. Clients have
+      no access to it; set_room_password writes it and join_room checks it.
+    - room_join_requests: players waiting for approval
+      - status (text): pending, approved or denied
+      - requested_at / decided_at (timestamptz)
+    - room_join_attempts: each player's recent wrong passwords for a room
+      - failed_count (integer): wrong passwords in a row
+      - last_failed_at (timestamptz): when the last one was entered
+
+  3. Functions
+    - room_join_info: what the join page needs to know about a room code,
+      without the caller being a participant
+    - join_room: the only way to join a room. Rejoining is a no-op. Otherwise
+      the room must be in its lobby, the player must not be banned, the
+      password must match and the room must have space; approval rooms get a
+      pending request instead of a participant row. A wrong password returns
+      the wrong_password status rather than raising, so the attempt is kept;
+      after 5 in a row, the player can't try again for 15 minutes.
+    - set_room_password: sets or clears a room's password (creator only)
+    - pending_join_requests: the queue of pending requests across the
+      caller's rooms
+    - approve_join_request / deny_join_request: organizer decisions. Approving
+      checks the lobby state and the capacity again.
+
+  4. Security
+    - Players can no longer insert into room_participants directly
+    - Room creators can change max_participants and requires_approval
+    - Players can read their own join requests and room creators can read
+      their rooms' requests
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.rooms
+  ADD COLUMN max_participants integer CHECK (max_participants > 0),
+  ADD COLUMN requires_password boolean NOT NULL DEFAULT false,
+  ADD COLUMN requires_approval boolean NOT NULL DEFAULT false;
+
+GRANT UPDATE (max_participants, requires_approval) ON public.rooms TO authenticated;
+
+CREATE TABLE public.room_passwords (
+  room_id uuid PRIMARY KEY REFERENCES public.rooms ON DELETE CASCADE,
+  password_hash text NOT NULL
+);
+
+ALTER TABLE public.room_passwords ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.room_join_attempts (
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.users NOT NULL,
+  failed_count integer NOT NULL DEFAULT 0,
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+-- Only join_room reads and writes it
+ALTER TABLE public.room_join_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.room_join_requests (
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.users NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  decided_at timestamptz,
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE public.room_join_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own join requests"
+  ON public.room_join_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Room creators can view their rooms' join requests"
+  ON public.room_join_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_creator(room_id));
+
+DROP POLICY "Users can join rooms" ON public.room_participants;
+
+CREATE OR REPLACE FUNCTION public.room_join_info(p_code text)
+RETURNS TABLE (
+  room_id uuid,
+  name text,
+  status text,
+  requires_password boolean,
+  requires_approval boolean,
+  max_participants integer,
+  participant_count integer,
+  is_participant boolean,
+  is_banned boolean,
+  request_status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.name,
+    r.status,
+    r.requires_password,
+    r.requires_approval,
+    r.max_participants,
+    (SELECT count(*)::integer FROM public.room_participants p WHERE p.room_id = r.id),
+    EXISTS (SELECT 1 FROM public.room_participants p WHERE p.room_id = r.id AND p.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.room_bans b WHERE b.room_id = r.id AND b.user_id = auth.uid()),
+    (SELECT q.status FROM public.room_join_requests q WHERE q.room_id = r.id AND q.user_id = auth.uid())
+  FROM public.rooms r
+  WHERE r.code = p_code;
+$$;
+
+-- Shared by join_room and approve_join_request; the room row must be locked
+CREATE OR REPLACE FUNCTION public.assert_room_has_space(p_room public.rooms)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_room.status <> 'lobby' THEN
+    RAISE EXCEPTION 'Players can only join this room while its lobby is open';
+  END IF;
+
+  IF p_room.max_participants IS NOT NULL AND (
+    SELECT count(*) FROM public.room_participants WHERE room_id = p_room.id
+  ) >= p_room.max_participants THEN
+    RAISE EXCEPTION 'This room is full';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assert_room_has_space(public.rooms) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.join_room(p_code text, p_password text DEFAULT NULL)
+RETURNS TABLE (room_id uuid, status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_room public.rooms;
+  v_request public.room_join_requests;
+  v_attempts public.room_join_attempts;
+  v_wait_minutes integer;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE code = p_code FOR UPDATE;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.room_participants
+    WHERE room_id = v_room.id
+    AND user_id = auth.uid()
+  ) THEN
+    RETURN QUERY SELECT v_room.id, 'joined'::text;
+    RETURN;
+  END IF;
+
+  IF public.is_banned_from_room(v_room.id) THEN
+    RAISE EXCEPTION 'The organizer removed you from this room' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.assert_room_has_space(v_room);
+
+  IF v_room.requires_password THEN
+    SELECT * INTO v_attempts
+    FROM public.room_join_attempts
+    WHERE room_id = v_room.id
+    AND user_id = auth.uid();
+
+    IF v_attempts.failed_count >= 5 AND v_attempts.last_failed_at > now() - interval '15 minutes' THEN
+      v_wait_minutes := ceil(extract(epoch FROM v_attempts.last_failed_at + interval '15 minutes' - now()) / 60);
+      RAISE EXCEPTION 'Too many wrong passwords. Try again in % minute%',
+        v_wait_minutes, CASE WHEN v_wait_minutes = 1 THEN '' ELSE 's' END
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.room_passwords
+      WHERE room_id = v_room.id
+      AND password_hash = extensions.crypt(coalesce(p_password, ''), password_hash)
+    ) THEN
+      -- Raising would roll the attempt back, so it's reported as a status
+      INSERT INTO public.room_join_attempts (room_id, user_id, failed_count, last_failed_at)
+      VALUES (v_room.id, auth.uid(), 1, now())
+      ON CONFLICT ON CONSTRAINT room_join_attempts_pkey DO UPDATE
+      SET failed_count = CASE
+            WHEN room_join_attempts.last_failed_at > now() - interval '15 minutes'
+            THEN room_join_attempts.failed_count + 1
+            ELSE 1
+          END,
+          last_failed_at = now();
+
+      RETURN QUERY SELECT v_room.id, 'wrong_password'::text;
+      RETURN;
+    END IF;
+
+    DELETE FROM public.room_join_attempts
+    WHERE room_id = v_room.id
+    AND user_id = auth.uid();
+  END IF;
+
+  IF v_room.requires_approval THEN
+    SELECT * INTO v_request
+    FROM public.room_join_requests
+    WHERE room_id = v_room.id
+    AND user_id = auth.uid();
+
+    IF v_request.status = 'denied' THEN
+      RAISE EXCEPTION 'The organizer declined your request to join this room' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.room_join_requests (room_id, user_id)
+    VALUES (v_room.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    RETURN QUERY SELECT v_room.id, 'pending'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.room_participants (room_id, user_id)
+  VALUES (v_room.id, auth.uid());
+
+  RETURN QUERY SELECT v_room.id, 'joined'::text;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_room_password(p_room_id uuid, p_password text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can change its password' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(p_password, '') = '' THEN
+    DELETE FROM public.room_passwords WHERE room_id = p_room_id;
+  ELSE
+    INSERT INTO public.room_passwords (room_id, password_hash)
+    VALUES (p_room_id, extensions.crypt(p_password, extensions.gen_salt('bf')))
+    ON CONFLICT (room_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+  END IF;
+
+  UPDATE public.rooms
+  SET requires_password = coalesce(p_password, '') <> ''
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pending_join_requests()
+RETURNS TABLE (
+  room_id uuid,
+  room_name text,
+  user_id uuid,
+  username text,
+  requested_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.room_id, r.name, q.user_id, u.username, q.requested_at
+  FROM public.room_join_requests q
+  JOIN public.rooms r ON r.id = q.room_id
+  JOIN public.users u ON u.id = q.user_id
+  WHERE r.created_by = auth.uid()
+  AND q.status = 'pending'
+  ORDER BY q.requested_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_join_request(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can approve join requests' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.assert_room_has_space(v_room);
+
+  UPDATE public.room_join_requests
+  SET status = 'approved',
+      decided_at = now()
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending request from this player';
+  END IF;
+
+  INSERT INTO public.room_participants (room_id, user_id)
+  VALUES (p_room_id, p_user_id)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.deny_join_request(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can deny join requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.room_join_requests
+  SET status = 'denied',
+      decided_at = now()
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  AND status = 'pending';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.room_join_info(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_room(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_room_password(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pending_join_requests() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_join_request(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.deny_join_request(uuid, uuid) TO authenticated;
@@ -0,0 +1,148 @@
+/*
+  # RLS hardening
+
+  1. Fixes
+    - room_participants: the original "Participants can view room details"
+      policy selected from room_participants inside its own check, so every
+      read of the table (including the participant counts on the admin
+      dashboard) failed with "infinite recursion detected in policy". It is
+      replaced by policies built on SECURITY DEFINER helpers.
+    - users: players can only read their own row, but the dashboard lists the
+      top players. The public_profiles view exposes the public columns of
+      every profile instead of opening up the table.
+    - levels.status is already added by the scoring engine migration
+      (ADD COLUMN IF NOT EXISTS covers databases created before it); this adds
+      the missing check on its values.
+
+  2. Functions
+    - is_level_owner: SECURITY DEFINER check that the current user created the
+      room a level belongs to, for policies on level-scoped tables
+
+  3. Views
+    - public_profiles: id, username, display_name, avatar_url, points and
+      created_at of every profile, readable by signed-in users
+
+  4. Security
+    - Participants can see who else is in their rooms; room creators and
+      superadmins can see everyone in a room
+    - Draft rooms are only visible to their creator (and its players, once
+      there are any); open rooms stay visible to everyone signed in
+    - Creator policies on levels, hidden tests, reference solutions and drafts
+      use the helpers instead of nesting other tables' RLS
+    - Functions are no longer executable by anon or PUBLIC by default; anon
+      keeps server_now and username_available for the sign-up page
+    - supabase/tests holds pgTAP tests for these rules (supabase test db)
+*/
+
+CREATE OR REPLACE FUNCTION public.is_level_owner(p_level_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.levels
+    JOIN public.rooms ON rooms.id = levels.room_id
+    WHERE levels.id = p_level_id
+    AND rooms.created_by = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_level_owner(uuid) TO authenticated;
+
+-- room_participants
+
+DROP POLICY "Participants can view room details" ON public.room_participants;
+
+CREATE POLICY "Participants can view their room mates"
+  ON public.room_participants
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_participant(room_id));
+
+CREATE POLICY "Room creators can view their rooms' participants"
+  ON public.room_participants
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_creator(room_id) OR public.has_role('superadmin'));
+
+-- rooms
+
+DROP POLICY "Anyone can read rooms" ON public.rooms;
+
+CREATE POLICY "Open rooms are visible to everyone"
+  ON public.rooms
+  FOR SELECT
+  TO authenticated
+  USING (status IN ('lobby', 'running', 'paused'));
+
+CREATE POLICY "Rooms are visible to their creator and players"
+  ON public.rooms
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = created_by
+    OR public.is_room_participant(id)
+    OR public.has_role('superadmin')
+  );
+
+-- users
+
+CREATE VIEW public.public_profiles AS
+  SELECT id, username, display_name, avatar_url, points, created_at
+  FROM public.users;
+
+-- The view runs with its owner's rights, so it reads past the users policies
+-- but only ever returns these columns
+REVOKE ALL ON public.public_profiles FROM anon, authenticated;
+GRANT SELECT ON public.public_profiles TO authenticated;
+
+-- levels and level-scoped tables
+
+ALTER TABLE public.levels
+  ADD CONSTRAINT levels_status_check CHECK (status IN ('waiting', 'active'));
+
+DROP POLICY "Room creators can manage levels" ON public.levels;
+
+CREATE POLICY "Room creators can manage levels"
+  ON public.levels
+  FOR ALL
+  TO authenticated
+  USING (public.is_room_creator(room_id))
+  WITH CHECK (public.is_room_creator(room_id));
+
+DROP POLICY "Room creators can manage hidden tests" ON public.hidden_test_cases;
+
+CREATE POLICY "Room creators can manage hidden tests"
+  ON public.hidden_test_cases
+  FOR ALL
+  TO authenticated
+  USING (public.is_level_owner(level_id))
+  WITH CHECK (public.is_level_owner(level_id));
+
+DROP POLICY "Room creators can manage reference solutions" ON public.level_solutions;
+
+CREATE POLICY "Room creators can manage reference solutions"
+  ON public.level_solutions
+  FOR ALL
+  TO authenticated
+  USING (public.is_level_owner(level_id))
+  WITH CHECK (public.is_level_owner(level_id));
+
+DROP POLICY "Room creators can view drafts in their rooms" ON public.code_drafts;
+
+CREATE POLICY "Room creators can view drafts in their rooms"
+  ON public.code_drafts
+  FOR SELECT
+  TO authenticated
+  USING (public.is_level_owner(level_id));
+
+-- Function privileges. Supabase grants EXECUTE on new functions to anon and,
+-- through PUBLIC, to every role; signed-out visitors only need these two.
+
+REVOKE EXECUTE ON ALL FUNCTIONS IN SCHEMA public FROM PUBLIC, anon;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.server_now() TO anon;
+GRANT EXECUTE ON FUNCTION public.username_available(text) TO anon;
@@ -0,0 +1,107 @@
+/*
+  # Room presence and filtered realtime
+
+  1. Changes
+    - submissions.room_id: the room of the submission's level, filled in by a
+      trigger. Realtime can only filter on the row's own columns, so this lets
+      clients subscribe to one room's submissions instead of all of them.
+
+  2. Functions
+    - set_submission_room: trigger function behind submissions.room_id
+    - can_use_room_topic: whether the current user may use the private
+      realtime topic room:<room id>
+
+  3. Realtime
+    - rooms and room_participants are in the supabase_realtime publication,
+      so the Room page can follow its own room row and new players joining
+    - The private topic room:<room id> carries presence (who is online, idle
+      or coding). Only the room's participants and its creator can use it.
+*/
+
+ALTER TABLE public.submissions
+  ADD COLUMN room_id uuid REFERENCES public.rooms ON DELETE CASCADE;
+
+UPDATE public.submissions
+SET room_id = levels.room_id
+FROM public.levels
+WHERE levels.id = submissions.level_id;
+
+CREATE INDEX submissions_room_id_idx ON public.submissions (room_id);
+
+GRANT SELECT (room_id) ON public.submissions TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_submission_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT room_id INTO NEW.room_id FROM public.levels WHERE id = NEW.level_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER submissions_set_room
+  BEFORE INSERT ON public.submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_submission_room();
+
+-- Earlier migrations only published submissions; rooms may already have been
+-- added by hand on existing projects
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'rooms'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rooms;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'room_participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.room_participants;
+  END IF;
+END;
+$$;
+
+-- Topic format: room:<room id>
+CREATE OR REPLACE FUNCTION public.can_use_room_topic(p_topic text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  IF split_part(p_topic, ':', 1) <> 'room' THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    v_room_id := split_part(p_topic, ':', 2)::uuid;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  RETURN public.is_room_participant(v_room_id) OR public.is_room_creator(v_room_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_use_room_topic(text) TO authenticated;
+
+CREATE POLICY "Room presence can be read by the room's players and creator"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (realtime.messages.extension = 'presence' AND public.can_use_room_topic(realtime.topic()));
+
+CREATE POLICY "Room presence can be tracked by the room's players and creator"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (realtime.messages.extension = 'presence' AND public.can_use_room_topic(realtime.topic()));
@@ -0,0 +1,221 @@
+/*
+  # Room chat and announcements
+
+  1. Changes
+    - rooms.chat_enabled (boolean): whether players can chat in the room.
+      Organizers switch it off for competitive rounds; announcements still go
+      out while it is off.
+    - room_participants.chat_muted (boolean): a player the organizer muted in
+      chat. Unlike muted, it doesn't stop their submissions.
+
+  2. New Tables
+    - room_messages: chat messages and announcements in a room
+      - username (text): the sender's username when the message was sent, so
+        clients can show it without reading users
+      - is_announcement (boolean): posted by the organizer and pinned for
+        every player until they mark it as read
+      - deleted_at / deleted_by: set when the organizer removes a message,
+        which also clears its body. The row stays so realtime can tell every
+        client to hide it.
+    - room_announcement_reads: which players have read which announcements
+
+  3. Functions
+    - send_room_message: the only way to post. The sender must be a
+      participant who isn't muted in chat, in a room whose chat is on; the
+      room's creator can always post, and only they can post announcements.
+    - delete_room_message: removes a message (creator only)
+    - set_chat_muted: mutes or unmutes a participant in chat (creator only)
+    - participant_status now also returns chat_muted
+
+  4. Security
+    - Participants and the room's creator can read a room's messages
+    - Players can mark announcements they can see as read, and read their own
+      receipts
+    - Room creators can change chat_enabled
+    - room_messages is added to the supabase_realtime publication
+*/
+
+ALTER TABLE public.rooms
+  ADD COLUMN chat_enabled boolean NOT NULL DEFAULT true;
+
+GRANT UPDATE (chat_enabled) ON public.rooms TO authenticated;
+
+ALTER TABLE public.room_participants
+  ADD COLUMN chat_muted boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.room_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.users NOT NULL,
+  username text NOT NULL,
+  body text NOT NULL,
+  is_announcement boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  deleted_at timestamptz,
+  deleted_by uuid REFERENCES public.users,
+  CHECK (deleted_at IS NOT NULL OR char_length(body) BETWEEN 1 AND 1000)
+);
+
+CREATE INDEX room_messages_room_id_idx ON public.room_messages (room_id, created_at);
+
+ALTER TABLE public.room_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants and room creators can read room messages"
+  ON public.room_messages
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_participant(room_id) OR public.is_room_creator(room_id));
+
+CREATE TABLE public.room_announcement_reads (
+  message_id uuid REFERENCES public.room_messages ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.users NOT NULL,
+  read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+ALTER TABLE public.room_announcement_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own announcement reads"
+  ON public.room_announcement_reads
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The subquery goes through room_messages' own policy, so players can only
+-- mark announcements in their rooms
+CREATE POLICY "Users can mark announcements as read"
+  ON public.room_announcement_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.room_messages
+      WHERE room_messages.id = message_id
+      AND room_messages.is_announcement
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.send_room_message(
+  p_room_id uuid,
+  p_body text,
+  p_announcement boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+  v_participant public.room_participants;
+  v_body text := btrim(coalesce(p_body, ''));
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_room.created_by IS DISTINCT FROM auth.uid() THEN
+    IF p_announcement THEN
+      RAISE EXCEPTION 'Only the room creator can post announcements' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_participant
+    FROM public.room_participants
+    WHERE room_id = p_room_id
+    AND user_id = auth.uid();
+
+    IF v_participant.id IS NULL THEN
+      RAISE EXCEPTION 'Only the room''s players can chat in it' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT v_room.chat_enabled THEN
+      RAISE EXCEPTION 'Chat is switched off in this room' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_participant.chat_muted THEN
+      RAISE EXCEPTION 'The organizer muted you in this room''s chat' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF char_length(v_body) NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Messages must be between 1 and 1000 characters';
+  END IF;
+
+  INSERT INTO public.room_messages (room_id, user_id, username, body, is_announcement)
+  SELECT p_room_id, u.id, u.username, v_body, p_announcement
+  FROM public.users u
+  WHERE u.id = auth.uid()
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_room_message(p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  SELECT room_id INTO v_room_id FROM public.room_messages WHERE id = p_message_id;
+
+  IF v_room_id IS NULL OR NOT public.is_room_creator(v_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can delete messages' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.room_messages
+  SET body = '',
+      deleted_at = now(),
+      deleted_by = auth.uid()
+  WHERE id = p_message_id
+  AND deleted_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_chat_muted(p_room_id uuid, p_user_id uuid, p_muted boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_room_creator(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room creator can mute players in chat' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.room_participants
+  SET chat_muted = p_muted
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION public.participant_status(uuid);
+
+CREATE FUNCTION public.participant_status(p_room_id uuid)
+RETURNS TABLE (muted boolean, chat_muted boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.muted, p.chat_muted
+  FROM public.room_participants p
+  WHERE p.room_id = p_room_id
+  AND p.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.send_room_message(uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_room_message(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_chat_muted(uuid, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.participant_status(uuid) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.room_messages;
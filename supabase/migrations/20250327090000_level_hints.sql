@@ -0,0 +1,446 @@
+/*
+  # Level hints
+
+  1. New Tables
+    - level_hints: an ordered list of hints per level, written in the level
+      editor
+      - position (integer): reveal order within the level
+      - cost (integer): points taken off the player's solve for revealing it
+    - hint_unlocks: the hints each player has revealed
+      - ordinal (integer): 1 for the level's first hint, 2 for the second...
+      - cost (integer): the hint's cost when it was revealed, so editing a hint
+        later doesn't change what players already paid
+      Hints are revealed in order, so a player who revealed n hints sees the
+      level's first n. Unlocks don't reference level_hints rows, which the
+      editor replaces on every save.
+
+  2. Functions
+    - player_hints: the calling player's view of a level's hints, with the
+      body of the ones they haven't revealed left out
+    - reveal_hint: reveals the player's next hint on an unlocked, unsolved level
+      while the room is accepting submissions, unless the organizer muted the
+      player
+    - score_level_solve takes the number of hints used and their total cost
+        hint penalty  the cost of every hint revealed before the solve; the
+                      10% floor still applies
+    - record_submission charges the hints revealed on the level
+    - reset_participant also clears the participant's hint unlocks
+
+  3. Security
+    - Only the room's creator can read or write a level's hints; players go
+      through player_hints and reveal_hint
+    - Players can read their own unlocks; room creators can read every unlock
+      in their rooms
+*/
+
+CREATE TABLE public.level_hints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  level_id uuid REFERENCES public.levels ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  body text NOT NULL,
+  cost integer NOT NULL DEFAULT 10 CHECK (cost >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX level_hints_level_id_idx ON public.level_hints (level_id, position);
+
+ALTER TABLE public.level_hints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room creators can manage hints"
+  ON public.level_hints
+  FOR ALL
+  TO authenticated
+  USING (public.is_level_owner(level_id))
+  WITH CHECK (public.is_level_owner(level_id));
+
+CREATE TABLE public.hint_unlocks (
+  user_id uuid REFERENCES public.users NOT NULL,
+  level_id uuid REFERENCES public.levels ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES public.rooms ON DELETE CASCADE NOT NULL,
+  ordinal integer NOT NULL,
+  cost integer NOT NULL,
+  unlocked_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, level_id, ordinal)
+);
+
+CREATE INDEX hint_unlocks_room_id_idx ON public.hint_unlocks (room_id);
+
+ALTER TABLE public.hint_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own hint unlocks"
+  ON public.hint_unlocks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Room creators can view hint unlocks in their rooms"
+  ON public.hint_unlocks
+  FOR SELECT
+  TO authenticated
+  USING (public.is_room_creator(room_id));
+
+CREATE OR REPLACE FUNCTION public.player_hints(p_level_id uuid)
+RETURNS TABLE (ordinal integer, cost integer, body text, revealed boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH hints AS (
+    SELECT
+      row_number() OVER (ORDER BY h.position, h.created_at)::integer AS ordinal,
+      h.cost,
+      h.body
+    FROM public.level_hints h
+    WHERE h.level_id = p_level_id
+    -- Only levels unlocked for the caller
+    AND EXISTS (
+      SELECT 1 FROM public.level_progress lp
+      WHERE lp.level_id = p_level_id
+      AND lp.user_id = auth.uid()
+    )
+  )
+  SELECT
+    hints.ordinal,
+    coalesce(u.cost, hints.cost),
+    CASE WHEN u.ordinal IS NOT NULL THEN hints.body END,
+    u.ordinal IS NOT NULL
+  FROM hints
+  LEFT JOIN public.hint_unlocks u
+    ON u.level_id = p_level_id
+    AND u.user_id = auth.uid()
+    AND u.ordinal = hints.ordinal
+  ORDER BY hints.ordinal;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reveal_hint(p_level_id uuid)
+RETURNS TABLE (ordinal integer, cost integer, body text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_level public.levels;
+  v_progress public.level_progress;
+  v_participant public.room_participants;
+  v_revealed integer;
+  v_hint public.level_hints;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+
+  IF v_level.id IS NULL OR NOT public.room_accepting_submissions(v_level.room_id) THEN
+    RAISE EXCEPTION 'Hints can only be revealed while the room is running' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Same lock as record_submission, so a hint can't slip in while a solve is
+  -- being scored
+  SELECT * INTO v_participant
+  FROM public.room_participants
+  WHERE room_id = v_level.room_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  -- A muted player's submissions are refused, so they can't pay for hints
+  IF v_participant.muted THEN
+    RAISE EXCEPTION 'The organizer has muted you, so hints are paused' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = auth.uid()
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_progress.solved_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already solved this level';
+  END IF;
+
+  SELECT count(*) INTO v_revealed
+  FROM public.hint_unlocks
+  WHERE user_id = auth.uid()
+  AND level_id = p_level_id;
+
+  SELECT * INTO v_hint
+  FROM public.level_hints
+  WHERE level_id = p_level_id
+  ORDER BY position, created_at
+  OFFSET v_revealed
+  LIMIT 1;
+
+  IF v_hint.id IS NULL THEN
+    RAISE EXCEPTION 'There are no more hints for this level';
+  END IF;
+
+  INSERT INTO public.hint_unlocks (user_id, level_id, room_id, ordinal, cost)
+  VALUES (auth.uid(), p_level_id, v_level.room_id, v_revealed + 1, v_hint.cost);
+
+  RETURN QUERY SELECT v_revealed + 1, v_hint.cost, v_hint.body;
+END;
+$$;
+
+DROP FUNCTION public.score_level_solve(text, integer, integer, integer, boolean);
+
+CREATE FUNCTION public.score_level_solve(
+  p_difficulty text,
+  p_elapsed_seconds integer,
+  p_window_seconds integer,
+  p_failed_attempts integer,
+  p_first_solve boolean,
+  p_hints_used integer DEFAULT 0,
+  p_hint_penalty integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_base integer;
+  v_speed integer;
+  v_first integer;
+  v_penalty integer;
+  v_hint_penalty integer;
+  v_total integer;
+BEGIN
+  v_base := CASE lower(p_difficulty)
+    WHEN 'easy' THEN 100
+    WHEN 'medium' THEN 200
+    WHEN 'hard' THEN 300
+    ELSE 100
+  END;
+
+  v_speed := round(
+    v_base * 0.5 * greatest(0, 1 - greatest(p_elapsed_seconds, 0)::numeric / greatest(p_window_seconds, 1))
+  );
+  v_first := CASE WHEN p_first_solve THEN 50 ELSE 0 END;
+  v_penalty := least(round(v_base * 0.1 * greatest(p_failed_attempts, 0)), round(v_base * 0.5));
+  v_hint_penalty := greatest(p_hint_penalty, 0);
+  v_total := greatest(round(v_base * 0.1), v_base + v_speed + v_first - v_penalty - v_hint_penalty);
+
+  RETURN jsonb_build_object(
+    'base', v_base,
+    'speed_bonus', v_speed,
+    'first_solve_bonus', v_first,
+    'attempt_penalty', v_penalty,
+    'failed_attempts', greatest(p_failed_attempts, 0),
+    'hint_penalty', v_hint_penalty,
+    'hints_used', greatest(p_hints_used, 0),
+    'elapsed_seconds', greatest(p_elapsed_seconds, 0),
+    'total', v_total
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer,
+  p_test_results jsonb DEFAULT NULL
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_progress public.level_progress;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_hints_used integer;
+  v_hint_penalty integer;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = p_user_id
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  v_already_solved := v_progress.solved_at IS NOT NULL;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    SELECT count(*), coalesce(sum(cost), 0) INTO v_hints_used, v_hint_penalty
+    FROM public.hint_unlocks
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - greatest(v_progress.unlocked_at, coalesce(v_room.starts_at, v_progress.unlocked_at)))::integer,
+      v_room.duration_seconds,
+      v_failed_attempts,
+      v_first_solve,
+      v_hints_used,
+      v_hint_penalty
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.level_progress
+    SET solved_at = now()
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    IF v_room.progression_mode = 'self_paced' THEN
+      PERFORM public.unlock_levels(
+        v_room.id,
+        coalesce(public.next_level_position(v_room.id, v_level.position), v_level.position),
+        p_user_id
+      );
+    END IF;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total, test_results
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total,
+    p_test_results
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_participant(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room public.rooms;
+  v_participant public.room_participants;
+BEGIN
+  SELECT * INTO v_room FROM public.rooms WHERE id = p_room_id;
+
+  IF v_room.id IS NULL OR v_room.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can reset participants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_participant
+  FROM public.room_participants
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room';
+  END IF;
+
+  UPDATE public.users
+  SET points = greatest(coalesce(points, 0) - v_participant.score, 0)
+  WHERE id = p_user_id;
+
+  UPDATE public.room_participants
+  SET score = 0
+  WHERE id = v_participant.id;
+
+  DELETE FROM public.submissions
+  WHERE user_id = p_user_id
+  AND level_id IN (SELECT id FROM public.levels WHERE room_id = p_room_id);
+
+  DELETE FROM public.code_drafts
+  WHERE user_id = p_user_id
+  AND level_id IN (SELECT id FROM public.levels WHERE room_id = p_room_id);
+
+  DELETE FROM public.hint_unlocks
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+
+  DELETE FROM public.level_progress
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+
+  IF v_room.current_position > 0 THEN
+    PERFORM public.unlock_levels(
+      p_room_id,
+      -- Self-paced players start over from the first published level
+      CASE
+        WHEN v_room.progression_mode = 'self_paced' THEN coalesce(public.next_level_position(p_room_id, 0), 0)
+        ELSE v_room.current_position
+      END,
+      p_user_id
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.player_hints(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reveal_hint(uuid) TO authenticated;
@@ -0,0 +1,424 @@
+/*
+  # Level time limits
+
+  1. Changes
+    - levels
+      - time_limit_seconds (integer): how long each player has for the level
+        once it opens for them; NULL for no limit
+    - level_progress
+      - ends_at (timestamptz): when the player's time on the level runs out,
+        set when the level opens for them; NULL while paused or untimed
+      - paused_remaining_seconds (integer): seconds left while the room is paused
+
+  2. Functions
+    - start_level_clock: trigger that starts a player's clock when a timed
+      level opens for them
+    - pause_level_clocks: trigger that stops and restarts the level clocks
+      with the room's
+    - enforce_level_time_limit: trigger that refuses submissions to a level
+      once the player's time on it is up
+    - apply_level_time_limit: in self-paced rooms, opens the next level for a
+      player whose time ran out. The Room page calls it when the level's
+      countdown reaches zero; it does nothing before that.
+    - room_progress marks levels whose time ran out as expired and returns
+      each level's clock
+    - reveal_hint refuses once the player's time on the level is up, like
+      submissions
+    - record_submission decays the speed bonus over the level's time limit
+      rather than the room's duration when the level has one
+*/
+
+ALTER TABLE public.levels
+  ADD COLUMN time_limit_seconds integer CHECK (time_limit_seconds > 0);
+
+ALTER TABLE public.level_progress
+  ADD COLUMN ends_at timestamptz,
+  ADD COLUMN paused_remaining_seconds integer CHECK (paused_remaining_seconds >= 0);
+
+CREATE OR REPLACE FUNCTION public.start_level_clock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit integer;
+  v_room_status text;
+BEGIN
+  SELECT l.time_limit_seconds, r.status INTO v_limit, v_room_status
+  FROM public.levels l
+  JOIN public.rooms r ON r.id = l.room_id
+  WHERE l.id = NEW.level_id;
+
+  IF v_limit IS NOT NULL THEN
+    -- A level reopened by a reset while the room is paused waits for it
+    IF v_room_status = 'paused' THEN
+      NEW.paused_remaining_seconds := v_limit;
+    ELSE
+      NEW.ends_at := NEW.unlocked_at + make_interval(secs => v_limit);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER level_progress_start_clock
+  BEFORE INSERT ON public.level_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.start_level_clock();
+
+CREATE OR REPLACE FUNCTION public.pause_level_clocks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paused' THEN
+    UPDATE public.level_progress
+    SET paused_remaining_seconds = greatest(0, ceil(extract(epoch FROM ends_at - now())))::integer,
+        ends_at = NULL
+    WHERE room_id = NEW.id
+    AND ends_at IS NOT NULL
+    AND solved_at IS NULL;
+  ELSIF OLD.status = 'paused' AND NEW.status = 'running' THEN
+    UPDATE public.level_progress
+    SET ends_at = now() + make_interval(secs => paused_remaining_seconds),
+        paused_remaining_seconds = NULL
+    WHERE room_id = NEW.id
+    AND paused_remaining_seconds IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_pause_level_clocks
+  AFTER UPDATE OF status ON public.rooms
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.pause_level_clocks();
+
+-- record_submission marks a solve before it inserts the submission, so a
+-- solve that came in after ends_at is recognised by solved_at rather than by
+-- it being NULL. Resubmissions of a level solved in time are still accepted.
+CREATE OR REPLACE FUNCTION public.enforce_level_time_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.level_progress
+    WHERE user_id = NEW.user_id
+    AND level_id = NEW.level_id
+    AND ends_at <= now()
+    AND (solved_at IS NULL OR solved_at >= ends_at)
+  ) THEN
+    RAISE EXCEPTION 'Time is up for this level' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER submissions_enforce_level_time_limit
+  BEFORE INSERT ON public.submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_level_time_limit();
+
+CREATE OR REPLACE FUNCTION public.apply_level_time_limit(p_level_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level public.levels;
+  v_room public.rooms;
+BEGIN
+  SELECT l.* INTO v_level
+  FROM public.levels l
+  JOIN public.level_progress lp ON lp.level_id = l.id
+  WHERE l.id = p_level_id
+  AND lp.user_id = auth.uid()
+  AND lp.solved_at IS NULL
+  AND lp.ends_at <= now();
+
+  IF v_level.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF v_room.progression_mode = 'self_paced' THEN
+    PERFORM public.unlock_levels(
+      v_room.id,
+      coalesce(public.next_level_position(v_room.id, v_level.position), v_level.position),
+      auth.uid()
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reveal_hint(p_level_id uuid)
+RETURNS TABLE (ordinal integer, cost integer, body text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_level public.levels;
+  v_progress public.level_progress;
+  v_participant public.room_participants;
+  v_revealed integer;
+  v_hint public.level_hints;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+
+  IF v_level.id IS NULL OR NOT public.room_accepting_submissions(v_level.room_id) THEN
+    RAISE EXCEPTION 'Hints can only be revealed while the room is running' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Same lock as record_submission, so a hint can't slip in while a solve is
+  -- being scored
+  SELECT * INTO v_participant
+  FROM public.room_participants
+  WHERE room_id = v_level.room_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  -- A muted player's submissions are refused, so they can't pay for hints
+  IF v_participant.muted THEN
+    RAISE EXCEPTION 'The organizer has muted you, so hints are paused' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = auth.uid()
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_progress.solved_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already solved this level';
+  END IF;
+
+  IF v_progress.ends_at <= now() THEN
+    RAISE EXCEPTION 'Time is up for this level' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT count(*) INTO v_revealed
+  FROM public.hint_unlocks
+  WHERE user_id = auth.uid()
+  AND level_id = p_level_id;
+
+  SELECT * INTO v_hint
+  FROM public.level_hints
+  WHERE level_id = p_level_id
+  ORDER BY position, created_at
+  OFFSET v_revealed
+  LIMIT 1;
+
+  IF v_hint.id IS NULL THEN
+    RAISE EXCEPTION 'There are no more hints for this level';
+  END IF;
+
+  INSERT INTO public.hint_unlocks (user_id, level_id, room_id, ordinal, cost)
+  VALUES (auth.uid(), p_level_id, v_level.room_id, v_revealed + 1, v_hint.cost);
+
+  RETURN QUERY SELECT v_revealed + 1, v_hint.cost, v_hint.body;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  p_user_id uuid,
+  p_level_id uuid,
+  p_code text,
+  p_language text,
+  p_tests_passed integer,
+  p_tests_total integer,
+  p_test_results jsonb DEFAULT NULL
+)
+RETURNS public.submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_level public.levels;
+  v_room public.rooms;
+  v_progress public.level_progress;
+  v_participant_id uuid;
+  v_already_solved boolean;
+  v_failed_attempts integer;
+  v_first_solve boolean;
+  v_hints_used integer;
+  v_hint_penalty integer;
+  v_breakdown jsonb;
+  v_points integer := 0;
+  v_submission public.submissions;
+BEGIN
+  SELECT * INTO v_level FROM public.levels WHERE id = p_level_id;
+  SELECT * INTO v_room FROM public.rooms WHERE id = v_level.room_id;
+
+  IF NOT public.room_accepting_submissions(v_room.id) THEN
+    RAISE EXCEPTION 'This room is not accepting submissions right now' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize submissions per participant so concurrent resubmits cannot both
+  -- be treated as the first solve.
+  SELECT id INTO v_participant_id
+  FROM public.room_participants
+  WHERE room_id = v_room.id
+  AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_participant_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a participant in this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_progress
+  FROM public.level_progress
+  WHERE user_id = p_user_id
+  AND level_id = p_level_id;
+
+  IF v_progress.level_id IS NULL THEN
+    RAISE EXCEPTION 'This level is still locked' USING ERRCODE = '42501';
+  END IF;
+
+  v_status := CASE
+    WHEN p_tests_total > 0 AND p_tests_passed = p_tests_total THEN 'completed'
+    ELSE 'failed'
+  END;
+
+  v_already_solved := v_progress.solved_at IS NOT NULL;
+
+  IF v_status = 'completed' AND NOT v_already_solved THEN
+    SELECT count(*) INTO v_failed_attempts
+    FROM public.submissions
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id
+    AND status <> 'completed';
+
+    -- Two players solving the same level at once hold different participant
+    -- locks, so the level row is locked too before checking for a first solve
+    PERFORM 1 FROM public.levels WHERE id = p_level_id FOR UPDATE;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.submissions
+      WHERE level_id = p_level_id
+      AND status = 'completed'
+    ) INTO v_first_solve;
+
+    SELECT count(*), coalesce(sum(cost), 0) INTO v_hints_used, v_hint_penalty
+    FROM public.hint_unlocks
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    v_breakdown := public.score_level_solve(
+      v_level.difficulty,
+      extract(epoch FROM now() - greatest(v_progress.unlocked_at, coalesce(v_room.starts_at, v_progress.unlocked_at)))::integer,
+      -- The bonus decays over the player's time on a timed level
+      coalesce(v_level.time_limit_seconds, v_room.duration_seconds),
+      v_failed_attempts,
+      v_first_solve,
+      v_hints_used,
+      v_hint_penalty
+    );
+    v_points := (v_breakdown ->> 'total')::integer;
+
+    UPDATE public.level_progress
+    SET solved_at = now()
+    WHERE user_id = p_user_id
+    AND level_id = p_level_id;
+
+    IF v_room.progression_mode = 'self_paced' THEN
+      PERFORM public.unlock_levels(
+        v_room.id,
+        coalesce(public.next_level_position(v_room.id, v_level.position), v_level.position),
+        p_user_id
+      );
+    END IF;
+
+    UPDATE public.room_participants
+    SET score = score + v_points
+    WHERE id = v_participant_id;
+
+    UPDATE public.users
+    SET points = coalesce(points, 0) + v_points
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.submissions (
+    user_id, level_id, code, language, status, points, score_breakdown, tests_passed, tests_total, test_results
+  )
+  VALUES (
+    p_user_id,
+    p_level_id,
+    p_code,
+    p_language,
+    v_status,
+    v_points,
+    v_breakdown,
+    p_tests_passed,
+    p_tests_total,
+    p_test_results
+  )
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+DROP FUNCTION public.room_progress(uuid);
+
+CREATE FUNCTION public.room_progress(p_room_id uuid)
+RETURNS TABLE (
+  level_id uuid,
+  position integer,
+  title text,
+  state text,
+  unlocked_at timestamptz,
+  ends_at timestamptz,
+  paused_remaining_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Locked levels only reveal their position, never their title or id
+  SELECT
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.id END,
+    l.position,
+    CASE WHEN lp.level_id IS NULL THEN NULL ELSE l.title END,
+    CASE
+      WHEN lp.solved_at IS NOT NULL THEN 'solved'
+      WHEN lp.ends_at <= now() THEN 'expired'
+      WHEN lp.level_id IS NOT NULL THEN 'current'
+      ELSE 'locked'
+    END,
+    lp.unlocked_at,
+    lp.ends_at,
+    lp.paused_remaining_seconds
+  FROM public.levels l
+  LEFT JOIN public.level_progress lp ON lp.level_id = l.id AND lp.user_id = auth.uid()
+  WHERE l.room_id = p_room_id
+  AND l.published
+  AND public.is_room_participant(p_room_id)
+  ORDER BY l.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_level_time_limit(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.room_progress(uuid) TO authenticated;
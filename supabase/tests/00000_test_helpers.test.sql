@@ -0,0 +1,42 @@
+-- Helpers shared by the policy tests. pg_prove runs files in name order, so
+-- this one installs pgTAP and the tests schema (and commits) before the rest.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+CREATE SCHEMA IF NOT EXISTS tests;
+
+-- Creates an auth user; the signup trigger creates the matching profile
+CREATE OR REPLACE FUNCTION tests.create_user(p_id uuid, p_username text, p_role text DEFAULT 'player')
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO auth.users (id, email, raw_user_meta_data)
+  VALUES (p_id, p_username || '@example.com', jsonb_build_object('username', p_username));
+
+  UPDATE public.users
+  SET role = p_role
+  WHERE id = p_id;
+
+  RETURN p_id;
+END;
+$$;
+
+-- Acts as a signed-in user until the end of the transaction, as PostgREST
+-- does for a request with that user's JWT. Call it as postgres: RESET ROLE
+-- first when switching from one user to another.
+CREATE OR REPLACE FUNCTION tests.authenticate_as(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', p_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('role', 'authenticated', true);
+END;
+$$;
+
+SELECT plan(1);
+SELECT pass('Test helpers are installed');
+SELECT * FROM finish();
+
+COMMIT;
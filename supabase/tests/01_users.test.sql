@@ -0,0 +1,72 @@
+BEGIN;
+SELECT plan(11);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000003', 'bob');
+
+SELECT has_view('public', 'public_profiles', 'public_profiles exists');
+SELECT hasnt_column('public', 'public_profiles', 'role', 'public_profiles does not expose roles');
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$ SELECT username FROM public.users $$,
+  $$ VALUES ('alice') $$,
+  'Players can only read their own row in users'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.public_profiles WHERE username IN ('alice', 'bob') ORDER BY username $$,
+  $$ VALUES ('alice'), ('bob') $$,
+  'Players can read every public profile'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.users SET display_name = 'Alice' WHERE id = '00000000-0000-0000-0000-000000000002' $$,
+  'Players can change their display name'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.users SET points = 1000000 WHERE id = '00000000-0000-0000-0000-000000000002' $$,
+  '42501',
+  'permission denied for table users',
+  'Players cannot change their own points'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.users SET display_name = 'Not Bob' WHERE id = '00000000-0000-0000-0000-000000000003' $$,
+  'Updating another profile silently matches no rows'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.set_user_role('00000000-0000-0000-0000-000000000003', 'organizer') $$,
+  '42501',
+  'Only superadmins can change roles',
+  'Players cannot change roles'
+);
+
+RESET ROLE;
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.public_profiles $$,
+  '42501',
+  NULL,
+  'Signed-out visitors cannot read profiles'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.username_available('carol') $$,
+  'Signed-out visitors can check whether a username is free'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT display_name FROM public.users WHERE id = '00000000-0000-0000-0000-000000000003' $$,
+  $$ VALUES (NULL::text) $$,
+  'Other profiles are unchanged'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
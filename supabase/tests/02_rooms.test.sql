@@ -0,0 +1,208 @@
+BEGIN;
+SELECT plan(21);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000003', 'bob');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000004', 'carol');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', 'LOBBY1', 'Lobby room', '00000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', 'DRAFT1', 'Draft room', '00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000003');
+
+-- A participant
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$ SELECT user_id FROM public.room_participants ORDER BY user_id $$,
+  $$ VALUES ('00000000-0000-0000-0000-000000000002'::uuid), ('00000000-0000-0000-0000-000000000003'::uuid) $$,
+  'Participants can see their room mates without recursing through the policy'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.rooms WHERE id = '10000000-0000-0000-0000-000000000002' $$,
+  'Players cannot see draft rooms'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.transition_room('10000000-0000-0000-0000-000000000001', 'running') $$,
+  '42501',
+  NULL,
+  'Players cannot start rooms'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.join_room('DRAFT1') $$,
+  'P0001',
+  'Players can only join this room while its lobby is open',
+  'Players cannot join draft rooms'
+);
+
+RESET ROLE;
+
+-- An outsider
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000004');
+
+SELECT is_empty(
+  $$ SELECT user_id FROM public.room_participants $$,
+  'Outsiders cannot see who is in a room'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.room_participants (room_id, user_id)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000004') $$,
+  '42501',
+  NULL,
+  'Players cannot add themselves to rooms directly'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.rooms (code, name, created_by)
+     VALUES ('MINE01', 'Mine', '00000000-0000-0000-0000-000000000004') $$,
+  '42501',
+  NULL,
+  'Players cannot create rooms'
+);
+
+SELECT results_eq(
+  $$ SELECT status FROM public.join_room('LOBBY1') $$,
+  $$ VALUES ('joined') $$,
+  'Players join open rooms through join_room'
+);
+
+SELECT results_eq(
+  $$ SELECT count(*)::integer FROM public.room_participants $$,
+  $$ VALUES (3) $$,
+  'Once they have joined, players see everyone in the room'
+);
+
+RESET ROLE;
+
+-- The organizer
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT results_eq(
+  $$ SELECT count(*)::integer FROM public.room_participants WHERE room_id = '10000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES (3) $$,
+  'Room creators can see their rooms'' participants'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.rooms (code, name, created_by, status)
+     VALUES ('LIVE01', 'Live', '00000000-0000-0000-0000-000000000001', 'running') $$,
+  '42501',
+  NULL,
+  'Rooms can only be created as drafts'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.rooms SET status = 'running' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501',
+  'permission denied for table rooms',
+  'Organizers cannot change a room''s status directly'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.transition_room('10000000-0000-0000-0000-000000000002', 'running') $$,
+  'P0001',
+  NULL,
+  'Rooms only move along the allowed transitions'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.transition_room('10000000-0000-0000-0000-000000000002', 'lobby') $$,
+  'Organizers can open a draft room''s lobby'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT from_status, to_status, changed_by FROM public.room_status_events
+     WHERE room_id = '10000000-0000-0000-0000-000000000002' $$,
+  $$ VALUES ('draft', 'lobby', '00000000-0000-0000-0000-000000000001'::uuid) $$,
+  'Transitions are logged with the organizer who made them'
+);
+
+-- Starting a room whose first level is still a draft
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position, published
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   'Draft', 'Not ready', '', '[]', 'Movie', 'easy', 'solve', 1, false),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+   'Second', 'Ready', '', '[]', 'Movie', 'easy', 'solve', 2, true);
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+SELECT public.transition_room('10000000-0000-0000-0000-000000000001', 'running');
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT DISTINCT level_id FROM public.level_progress WHERE room_id = '10000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES ('20000000-0000-0000-0000-000000000002'::uuid) $$,
+  'Starting a room opens its first published level'
+);
+
+-- Password attempts
+INSERT INTO public.rooms (id, code, name, created_by, requires_password)
+VALUES ('10000000-0000-0000-0000-000000000003', 'PASS01', 'Password room', '00000000-0000-0000-0000-000000000001', true);
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000003';
+
+INSERT INTO public.room_passwords (room_id, password_hash)
+VALUES ('10000000-0000-0000-0000-000000000003', extensions.crypt('heist', extensions.gen_salt('bf', 4)));
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000004');
+
+SELECT results_eq(
+  $$ SELECT status FROM public.join_room('PASS01', 'vault') $$,
+  $$ VALUES ('wrong_password') $$,
+  'A wrong password is turned away'
+);
+
+SELECT public.join_room('PASS01', 'vault') FROM generate_series(1, 4);
+
+SELECT is_empty(
+  $$ SELECT user_id FROM public.room_join_attempts $$,
+  'Players cannot read join attempts'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.join_room('PASS01', 'heist') $$,
+  'P0001',
+  'Too many wrong passwords. Try again in 15 minutes',
+  'After five wrong passwords, even the right one is refused for a while'
+);
+
+RESET ROLE;
+
+UPDATE public.room_join_attempts SET last_failed_at = now() - interval '16 minutes';
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000004');
+
+SELECT results_eq(
+  $$ SELECT status FROM public.join_room('PASS01', 'heist') $$,
+  $$ VALUES ('joined') $$,
+  'Players can try again once the lockout is over'
+);
+
+RESET ROLE;
+
+SELECT is_empty(
+  $$ SELECT user_id FROM public.room_join_attempts $$,
+  'Joining clears the player''s wrong passwords'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,255 @@
+BEGIN;
+SELECT plan(26);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000003', 'bob');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000004', 'carol');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES ('10000000-0000-0000-0000-000000000001', 'ROOM01', 'Room', '00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000003');
+
+UPDATE public.rooms SET status = 'running' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position, published
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   'First', 'First level', '', '[]', 'Movie', 'easy', 'solve', 1, true),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+   'Second', 'Second level', '', '[]', 'Movie', 'medium', 'solve', 2, true);
+
+INSERT INTO public.level_progress (user_id, level_id, room_id)
+VALUES
+  ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001'),
+  ('00000000-0000-0000-0000-000000000003', '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.hidden_test_cases (level_id, input, expected)
+VALUES ('20000000-0000-0000-0000-000000000001', '[1]', '1');
+
+INSERT INTO public.level_solutions (level_id, code)
+VALUES ('20000000-0000-0000-0000-000000000001', 'function solve(x) { return x; }');
+
+INSERT INTO public.submissions (user_id, level_id, code, status)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 'return 42;', 'failed');
+
+INSERT INTO public.code_drafts (user_id, level_id, language, code)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 'javascript', 'return 4');
+
+SELECT has_column('public', 'levels', 'status', 'levels has the status column the room page filters on');
+SELECT col_has_check('public', 'levels', 'status', 'levels.status is limited to known values');
+
+-- A participant
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$ SELECT id FROM public.levels $$,
+  $$ VALUES ('20000000-0000-0000-0000-000000000001'::uuid) $$,
+  'Players only see the levels unlocked for them'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.hidden_test_cases $$,
+  'Players cannot read hidden tests'
+);
+
+SELECT is_empty(
+  $$ SELECT level_id FROM public.level_solutions $$,
+  'Players cannot read reference solutions'
+);
+
+SELECT throws_ok(
+  $$ SELECT code FROM public.submissions $$,
+  '42501',
+  'permission denied for table submissions',
+  'Players cannot read submitted code from the table'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.submissions (user_id, level_id, code, status)
+     VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 'return 42;', 'completed') $$,
+  '42501',
+  NULL,
+  'Players cannot insert submissions themselves'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.record_submission(
+       '00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001',
+       'return 42;', 'javascript', 1, 1, NULL
+     ) $$,
+  '42501',
+  NULL,
+  'Only the grader can record submissions'
+);
+
+SELECT results_eq(
+  $$ SELECT user_id FROM public.submissions $$,
+  $$ VALUES ('00000000-0000-0000-0000-000000000002'::uuid) $$,
+  'Players see their own submissions'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.code_drafts SET code = 'return 5'
+     WHERE level_id = '20000000-0000-0000-0000-000000000001' $$,
+  'Players can save drafts for levels unlocked for them'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.code_drafts (level_id, language, code)
+     VALUES ('20000000-0000-0000-0000-000000000002', 'javascript', 'return 5') $$,
+  '42501',
+  'new row violates row-level security policy for table "code_drafts"',
+  'Players cannot save drafts for locked levels'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.levels SET title = 'Mine now' $$,
+  'Updating levels silently matches no rows for players'
+);
+
+RESET ROLE;
+
+-- A room mate
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000003');
+
+SELECT results_eq(
+  $$ SELECT user_id FROM public.submissions $$,
+  $$ VALUES ('00000000-0000-0000-0000-000000000002'::uuid) $$,
+  'Participants see their room mates'' submissions for the leaderboard'
+);
+
+SELECT is_empty(
+  $$ SELECT level_id FROM public.code_drafts $$,
+  'Players cannot read other players'' drafts'
+);
+
+RESET ROLE;
+
+-- An outsider
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000004');
+
+SELECT is_empty(
+  $$ SELECT id FROM public.levels $$,
+  'Outsiders see no levels'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.submissions $$,
+  'Outsiders see no submissions'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.code_drafts (level_id, language, code)
+     VALUES ('20000000-0000-0000-0000-000000000001', 'javascript', 'return 5') $$,
+  '42501',
+  'new row violates row-level security policy for table "code_drafts"',
+  'Outsiders cannot save drafts for a room''s levels'
+);
+
+RESET ROLE;
+
+-- The organizer
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT results_eq(
+  $$ SELECT count(*)::integer FROM public.levels $$,
+  $$ VALUES (2) $$,
+  'Room creators see every level in their rooms'
+);
+
+SELECT results_eq(
+  $$ SELECT count(*)::integer FROM public.hidden_test_cases $$,
+  $$ VALUES (1) $$,
+  'Room creators can read their levels'' hidden tests'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT title FROM public.levels ORDER BY position $$,
+  $$ VALUES ('First'), ('Second') $$,
+  'Levels are unchanged by the player''s update'
+);
+
+-- Publishing
+
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position, published
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001',
+   'Third', 'Third level', '', '[{"input": "[1]", "expected": "1", "description": ""}]', 'Movie', 'easy', 'solve', 3, false);
+
+INSERT INTO public.level_solutions (level_id, code)
+VALUES ('20000000-0000-0000-0000-000000000003', 'function solve(x) { return x; }');
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT throws_ok(
+  $$ UPDATE public.levels SET published = true WHERE id = '20000000-0000-0000-0000-000000000003' $$,
+  'P0001',
+  'A level can only be published once its reference solution passes every test. Unpublish it to change its tests or solution.',
+  'Room creators cannot publish a level whose solution was not validated'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.hidden_test_cases (level_id, input, expected)
+     VALUES ('20000000-0000-0000-0000-000000000001', '[2]', '2') $$,
+  'P0001',
+  'A level can only be published once its reference solution passes every test. Unpublish it to change its tests or solution.',
+  'A published level''s tests cannot change without a new validation'
+);
+
+SELECT results_eq(
+  $$ SELECT published FROM public.levels WHERE id IN (
+       SELECT public.import_level_pack('10000000-0000-0000-0000-000000000001', '[{
+         "title": "Imported", "description": "", "movie_reference": "Movie", "difficulty": "easy",
+         "entry_point": "solve", "starter_code": {"javascript": ""}, "tests": [], "published": true
+       }]')
+     ) $$,
+  $$ VALUES (false) $$,
+  'Imported levels are drafts, whatever the pack says'
+);
+
+RESET ROLE;
+
+SELECT is(
+  public.publish_validated_level(
+    '20000000-0000-0000-0000-000000000003',
+    public.level_grading_input('20000000-0000-0000-0000-000000000003')
+  ),
+  true,
+  'A level is published once its current tests and solution are validated'
+);
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT lives_ok(
+  $$ UPDATE public.levels SET title = 'Third, renamed' WHERE id = '20000000-0000-0000-0000-000000000003' $$,
+  'Validated levels can still be edited in ways that don''t change grading'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.level_solutions SET code = 'function solve() {}' WHERE level_id = '20000000-0000-0000-0000-000000000003' $$,
+  'P0001',
+  'A level can only be published once its reference solution passes every test. Unpublish it to change its tests or solution.',
+  'Changing a published level''s solution needs a new validation'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
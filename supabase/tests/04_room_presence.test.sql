@@ -0,0 +1,90 @@
+BEGIN;
+SELECT plan(8);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000003', 'bob');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES ('10000000-0000-0000-0000-000000000001', 'ROOM01', 'Room', '00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position, published
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   'First', 'First level', '', '[]', 'Movie', 'easy', 'solve', 1, true);
+
+INSERT INTO public.submissions (user_id, level_id, code, status)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 'return 42;', 'failed');
+
+SELECT results_eq(
+  $$ SELECT room_id FROM public.submissions $$,
+  $$ VALUES ('10000000-0000-0000-0000-000000000001'::uuid) $$,
+  'New submissions get the room of their level'
+);
+
+-- A participant
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT ok(
+  public.can_use_room_topic('room:10000000-0000-0000-0000-000000000001'),
+  'Participants can use their room''s presence topic'
+);
+
+SELECT ok(
+  NOT public.can_use_room_topic('proctor:10000000-0000-0000-0000-000000000001'),
+  'Other topics are not room topics'
+);
+
+SELECT ok(
+  NOT public.can_use_room_topic('room:not-a-uuid'),
+  'Malformed room topics are refused'
+);
+
+SELECT results_eq(
+  $$ SELECT room_id FROM public.submissions $$,
+  $$ VALUES ('10000000-0000-0000-0000-000000000001'::uuid) $$,
+  'Players can read submissions.room_id for realtime filters'
+);
+
+RESET ROLE;
+
+-- An outsider
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000003');
+
+SELECT ok(
+  NOT public.can_use_room_topic('room:10000000-0000-0000-0000-000000000001'),
+  'Outsiders cannot use a room''s presence topic'
+);
+
+RESET ROLE;
+
+-- The organizer
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT ok(
+  public.can_use_room_topic('room:10000000-0000-0000-0000-000000000001'),
+  'Room creators can use their room''s presence topic'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT tablename::text FROM pg_publication_tables
+     WHERE pubname = 'supabase_realtime' AND tablename IN ('rooms', 'room_participants')
+     ORDER BY tablename $$,
+  $$ VALUES ('room_participants'), ('rooms') $$,
+  'rooms and room_participants are published for realtime'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,117 @@
+BEGIN;
+SELECT plan(12);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000003', 'bob');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES ('10000000-0000-0000-0000-000000000001', 'ROOM01', 'Room', '00000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002');
+
+-- A participant
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT lives_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', 'Good luck everyone') $$,
+  'Participants can chat in their room'
+);
+
+SELECT results_eq(
+  $$ SELECT username, body FROM public.room_messages $$,
+  $$ VALUES ('alice', 'Good luck everyone') $$,
+  'Messages carry the sender''s username'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', 'Listen up', true) $$,
+  '42501',
+  'Only the room creator can post announcements',
+  'Players cannot post announcements'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', '   ') $$,
+  'P0001',
+  'Messages must be between 1 and 1000 characters',
+  'Blank messages are refused'
+);
+
+RESET ROLE;
+
+-- An outsider
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000003');
+
+SELECT throws_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', 'Hi') $$,
+  '42501',
+  'Only the room''s players can chat in it',
+  'Outsiders cannot chat in a room'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.room_messages $$,
+  'Outsiders cannot read a room''s messages'
+);
+
+RESET ROLE;
+
+-- The organizer
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET chat_enabled = false WHERE id = '10000000-0000-0000-0000-000000000001';
+
+SELECT lives_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', 'Round two starts now', true) $$,
+  'Room creators can post announcements while chat is off'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.delete_room_message(id) FROM public.room_messages WHERE username = 'alice' $$,
+  'Room creators can delete messages'
+);
+
+SELECT public.set_chat_muted(
+  '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', true
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT body, deleted_at IS NOT NULL FROM public.room_messages WHERE username = 'alice' $$,
+  $$ VALUES ('', true) $$,
+  'Deleting a message clears its body'
+);
+
+-- The participant again
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$ SELECT public.send_room_message('10000000-0000-0000-0000-000000000001', 'Hello?') $$,
+  '42501',
+  'Chat is switched off in this room',
+  'Players cannot chat while chat is off'
+);
+
+SELECT results_eq(
+  $$ SELECT muted, chat_muted FROM public.participant_status('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (false, true) $$,
+  'Players can see that they were muted in chat'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.room_announcement_reads (message_id, user_id)
+     SELECT id, '00000000-0000-0000-0000-000000000002' FROM public.room_messages WHERE is_announcement $$,
+  'Players can mark announcements as read'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,133 @@
+BEGIN;
+SELECT plan(11);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES ('10000000-0000-0000-0000-000000000001', 'ROOM01', 'Room', '00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002');
+
+UPDATE public.rooms SET status = 'running' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position, published
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   'First', 'First level', '', '[]', 'Movie', 'easy', 'solve', 1, true);
+
+INSERT INTO public.level_progress (user_id, level_id, room_id)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.level_hints (level_id, position, body, cost)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', 0, 'Look at the input twice', 15),
+  ('20000000-0000-0000-0000-000000000001', 1, 'Return it unchanged', 25);
+
+-- A participant
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT is_empty(
+  $$ SELECT id FROM public.level_hints $$,
+  'Players cannot read hints directly'
+);
+
+SELECT results_eq(
+  $$ SELECT ordinal, cost, body, revealed FROM public.player_hints('20000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (1, 15, NULL::text, false), (2, 25, NULL::text, false) $$,
+  'Players see the cost of hints they have not revealed, but not their body'
+);
+
+RESET ROLE;
+
+UPDATE public.room_participants SET muted = true WHERE user_id = '00000000-0000-0000-0000-000000000002';
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$ SELECT public.reveal_hint('20000000-0000-0000-0000-000000000001') $$,
+  '42501',
+  'The organizer has muted you, so hints are paused',
+  'Muted players cannot reveal hints'
+);
+
+RESET ROLE;
+
+UPDATE public.room_participants SET muted = false WHERE user_id = '00000000-0000-0000-0000-000000000002';
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$ SELECT ordinal, body FROM public.reveal_hint('20000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (1, 'Look at the input twice') $$,
+  'Revealing a hint returns the first one'
+);
+
+SELECT results_eq(
+  $$ SELECT ordinal, body, revealed FROM public.player_hints('20000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (1, 'Look at the input twice', true), (2, NULL::text, false) $$,
+  'Revealed hints keep their body'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.reveal_hint('20000000-0000-0000-0000-000000000001') $$,
+  'Players can reveal the next hint'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.reveal_hint('20000000-0000-0000-0000-000000000001') $$,
+  'P0001',
+  'There are no more hints for this level',
+  'Players cannot reveal more hints than the level has'
+);
+
+RESET ROLE;
+
+-- Editing a hint doesn't change what was already paid
+UPDATE public.level_hints SET cost = 100 WHERE position = 0;
+
+SELECT results_eq(
+  $$ SELECT (score_breakdown ->> 'hint_penalty')::integer, (score_breakdown ->> 'hints_used')::integer
+     FROM public.record_submission(
+       '00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001',
+       'function solve(x) { return x; }', 'javascript', 1, 1
+     ) $$,
+  $$ VALUES (40, 2) $$,
+  'A solve is charged the cost of the hints revealed before it'
+);
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$ SELECT count(*)::integer FROM public.hint_unlocks $$,
+  $$ VALUES (2) $$,
+  'Players can read their own hint unlocks'
+);
+
+RESET ROLE;
+
+-- The organizer
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000001');
+
+SELECT results_eq(
+  $$ SELECT user_id, ordinal FROM public.hint_unlocks ORDER BY ordinal $$,
+  $$ VALUES ('00000000-0000-0000-0000-000000000002'::uuid, 1), ('00000000-0000-0000-0000-000000000002'::uuid, 2) $$,
+  'Room creators can see who used which hints'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM public.level_hints WHERE level_id = '20000000-0000-0000-0000-000000000001' $$,
+  'Room creators can replace a level''s hints'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
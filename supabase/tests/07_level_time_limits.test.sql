@@ -0,0 +1,115 @@
+BEGIN;
+SELECT plan(7);
+
+SELECT tests.create_user('00000000-0000-0000-0000-000000000001', 'olivia', 'organizer');
+SELECT tests.create_user('00000000-0000-0000-0000-000000000002', 'alice');
+
+INSERT INTO public.rooms (id, code, name, created_by)
+VALUES ('10000000-0000-0000-0000-000000000001', 'ROOM01', 'Room', '00000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'lobby' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.room_participants (room_id, user_id)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002');
+
+UPDATE public.rooms SET status = 'running' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position,
+  published, time_limit_seconds
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   'First', 'First level', '', '[]', 'Movie', 'easy', 'solve', 1, true, 60),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+   'Second', 'Second level', '', '[]', 'Movie', 'easy', 'solve', 2, true, 600);
+
+-- The first level opened two minutes ago, so its minute is up
+INSERT INTO public.level_progress (user_id, level_id, room_id, unlocked_at)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001',
+        '10000000-0000-0000-0000-000000000001', now() - interval '2 minutes');
+
+SELECT results_eq(
+  $$ SELECT ends_at = unlocked_at + interval '1 minute' FROM public.level_progress
+     WHERE level_id = '20000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES (true) $$,
+  'A timed level''s clock starts when it opens for the player'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.record_submission(
+       '00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001',
+       'function solve(x) { return x; }', 'javascript', 1, 1
+     ) $$,
+  'P0001',
+  'Time is up for this level',
+  'Submissions are refused once the player''s time on a level is up'
+);
+
+INSERT INTO public.level_hints (level_id, body)
+VALUES ('20000000-0000-0000-0000-000000000001', 'Return it unchanged');
+
+SELECT tests.authenticate_as('00000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$ SELECT public.reveal_hint('20000000-0000-0000-0000-000000000001') $$,
+  'P0001',
+  'Time is up for this level',
+  'Hints cannot be revealed once the player''s time on a level is up'
+);
+
+SELECT results_eq(
+  $$ SELECT position, state FROM public.room_progress('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (1, 'expired'), (2, 'locked') $$,
+  'Levels whose time ran out show as expired'
+);
+
+RESET ROLE;
+
+INSERT INTO public.level_progress (user_id, level_id, room_id)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000002',
+        '10000000-0000-0000-0000-000000000001');
+
+UPDATE public.rooms SET status = 'paused' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+SELECT results_eq(
+  $$ SELECT ends_at IS NULL, paused_remaining_seconds BETWEEN 599 AND 600 FROM public.level_progress
+     WHERE level_id = '20000000-0000-0000-0000-000000000002' $$,
+  $$ VALUES (true, true) $$,
+  'Pausing the room stops the level clocks'
+);
+
+UPDATE public.rooms SET status = 'running' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+SELECT results_eq(
+  $$ SELECT ends_at > now(), paused_remaining_seconds IS NULL FROM public.level_progress
+     WHERE level_id = '20000000-0000-0000-0000-000000000002' $$,
+  $$ VALUES (true, true) $$,
+  'Resuming the room restarts the level clocks'
+);
+
+-- Five minutes into a ten minute level, half the speed bonus is left
+INSERT INTO public.levels (
+  id, room_id, title, description, initial_code, test_cases, movie_reference, difficulty, entry_point, position,
+  published, time_limit_seconds
+)
+VALUES
+  ('20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001',
+   'Third', 'Third level', '', '[]', 'Movie', 'easy', 'solve', 3, true, 600);
+
+INSERT INTO public.level_progress (user_id, level_id, room_id, unlocked_at)
+VALUES ('00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000003',
+        '10000000-0000-0000-0000-000000000001', now() - interval '5 minutes');
+
+SELECT results_eq(
+  $$ SELECT (score_breakdown ->> 'speed_bonus')::integer
+     FROM public.record_submission(
+       '00000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000003',
+       'function solve(x) { return x; }', 'javascript', 1, 1
+     ) $$,
+  $$ VALUES (25) $$,
+  'The speed bonus decays over the level''s time limit'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
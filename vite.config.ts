@@ -1,10 +1,39 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PYODIDE_DIR = fileURLToPath(new URL('./node_modules/pyodide/', import.meta.url));
+const PYODIDE_FILES = ['pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+
+// Serves Pyodide's runtime files from our own origin under /pyodide/ so the
+// Python runner never depends on a CDN.
+function pyodideAssets(): Plugin {
+  return {
+    name: 'codechase:pyodide-assets',
+    configureServer(server) {
+      server.middlewares.use('/pyodide', (req, res, next) => {
+        const file = req.url?.split('?')[0].replace(/^\//, '');
+        if (!file || !PYODIDE_FILES.includes(file)) return next();
+        if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm');
+        res.end(readFileSync(PYODIDE_DIR + file));
+      });
+    },
+    generateBundle() {
+      for (const file of PYODIDE_FILES) {
+        this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: readFileSync(PYODIDE_DIR + file) });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets()],
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'pyodide'],
+  },
+  worker: {
+    format: 'es',
   },
 });